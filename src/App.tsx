@@ -3,19 +3,50 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import CommandPalette from "./components/CommandPalette";
+import RealtimeSync from "./components/RealtimeSync";
+import ProtectedRoute from "./components/ProtectedRoute";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Login from "./pages/Login";
+import Uploads from "./pages/Uploads";
+import UploadDetail from "./pages/UploadDetail";
+import RollRates from "./pages/RollRates";
+import Report from "./pages/Report";
+import Borrowers from "./pages/Borrowers";
+import BorrowerProfile from "./pages/BorrowerProfile";
+import { HAS_ROLL_RATES } from "./utils/navigation";
 
-const queryClient = new QueryClient();
+// Cached data is shown straight away and refetched in the background once it
+// is older than the stale time
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 30_000,
+      retry: 1,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
+    <RealtimeSync />
     <TooltipProvider>
       <Toaster />
       <Sonner />
       <BrowserRouter>
+        <CommandPalette />
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/login" element={<Login />} />
+          <Route element={<ProtectedRoute />}>
+            <Route path="/" element={<Index />} />
+            <Route path="/uploads" element={<Uploads />} />
+            <Route path="/uploads/:uploadId" element={<UploadDetail />} />
+            {HAS_ROLL_RATES && <Route path="/roll-rates" element={<RollRates />} />}
+            <Route path="/report" element={<Report />} />
+            <Route path="/borrowers" element={<Borrowers />} />
+            <Route path="/borrowers/:wallet" element={<BorrowerProfile />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
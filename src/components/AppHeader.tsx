@@ -0,0 +1,54 @@
+
+import { motion } from 'framer-motion';
+import { NavLink } from 'react-router-dom';
+import { Search } from 'lucide-react';
+import { NAV_ITEMS } from '@/utils/navigation';
+import { setCommandPaletteOpen } from '@/hooks/use-command-palette';
+import EnvironmentSwitcher from './EnvironmentSwitcher';
+import UserMenu from './UserMenu';
+
+const AppHeader = () => {
+  return (
+    <header className="w-full bg-gradient-to-r from-primary/5 to-primary/10 backdrop-blur-sm">
+      <div className="container mx-auto py-8 px-4">
+        <motion.h1
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.5 }}
+          className="text-3xl md:text-4xl font-bold text-center"
+        >
+          Loan Analytics Dashboard
+        </motion.h1>
+
+        <nav className="mt-4 flex items-center justify-center gap-6 text-sm">
+          {NAV_ITEMS.map(item => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              end={item.to === '/'}
+              className={({ isActive }) =>
+                `transition-colors duration-200 ${
+                  isActive ? 'text-primary font-medium' : 'text-muted-foreground hover:text-primary'
+                }`
+              }
+            >
+              {item.label}
+            </NavLink>
+          ))}
+          <button
+            onClick={() => setCommandPaletteOpen(true)}
+            className="flex items-center gap-1 text-muted-foreground hover:text-primary transition-colors duration-200"
+          >
+            <Search size={14} />
+            Search
+            <kbd className="ml-1 rounded border bg-muted px-1.5 font-mono text-[10px]">⌘K</kbd>
+          </button>
+          <EnvironmentSwitcher />
+          <UserMenu />
+        </nav>
+      </div>
+    </header>
+  );
+};
+
+export default AppHeader;
@@ -0,0 +1,87 @@
+
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Repeat, TrendingUp, Users } from 'lucide-react';
+import KPICard from './KPICard';
+import ExportMenu from './ExportMenu';
+import { BorrowerAnalytics, PriorLoanDefaultRate } from '@/utils/types';
+import { ExportColumn } from '@/utils/tableExport';
+import { formatCurrency } from '@/utils/loanCalculations';
+
+const EXPORT_COLUMNS: ExportColumn<PriorLoanDefaultRate>[] = [
+  { header: 'Prior Repaid Loans', value: bucket => bucket.label },
+  { header: 'Loans', value: bucket => bucket.loanCount },
+  { header: 'Defaulted', value: bucket => bucket.defaultedCount },
+  { header: 'Default Rate', value: bucket => bucket.defaultRate },
+];
+
+const formatRate = (rate: number | null) => rate === null ? '-' : `${(rate * 100).toFixed(1)}%`;
+
+interface BorrowerAnalyticsSummaryProps {
+  analytics: BorrowerAnalytics;
+}
+
+const BorrowerAnalyticsSummary = ({ analytics }: BorrowerAnalyticsSummaryProps) => {
+  const { graduation } = analytics;
+
+  const chartData = analytics.defaultsByPriorLoans.map(bucket => ({
+    label: bucket.label,
+    rate: bucket.defaultRate === null ? null : bucket.defaultRate * 100,
+    loanCount: bucket.loanCount
+  }));
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <KPICard
+          title="Borrowers"
+          value={analytics.borrowerCount.toLocaleString()}
+          description="Distinct wallets with at least one loan"
+          icon={<Users size={20} />}
+          index={0}
+        />
+        <KPICard
+          title="Repeat Borrower Rate"
+          value={formatRate(analytics.repeatBorrowerRate)}
+          description={`${analytics.repeatBorrowerCount.toLocaleString()} wallets took more than one loan`}
+          icon={<Repeat size={20} />}
+          index={1}
+        />
+        <KPICard
+          title={`${formatCurrency(graduation.fromAmount)} → ${formatCurrency(graduation.toAmount)} Graduation`}
+          value={formatRate(graduation.rate)}
+          description={`${graduation.graduated.toLocaleString()} of ${graduation.eligible.toLocaleString()} ${formatCurrency(graduation.fromAmount)} borrowers moved up`}
+          icon={<TrendingUp size={20} />}
+          index={2}
+        />
+      </div>
+
+      <div className="glass-card rounded-xl p-6 mb-8">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-medium">Default Rate by Prior Repaid Loans</h2>
+          <ExportMenu name="default-rate-by-prior-loans" columns={EXPORT_COLUMNS} rows={analytics.defaultsByPriorLoans} />
+        </div>
+        <p className="text-sm text-muted-foreground mb-4">
+          Loans grouped by how many earlier loans the same wallet had repaid when it started
+        </p>
+
+        <div className="h-[260px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.05)" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+              <YAxis tick={{ fontSize: 12 }} tickFormatter={value => `${value}%`} />
+              <Tooltip
+                labelFormatter={label => `${label} prior repaid loans`}
+                formatter={(value: number, _name, item) =>
+                  [`${value.toFixed(1)}% of ${item.payload.loanCount.toLocaleString()} loans`, 'Default rate']}
+              />
+              <Bar dataKey="rate" fill="#EF4444" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default BorrowerAnalyticsSummary;
@@ -0,0 +1,172 @@
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { ChevronDown, ChevronUp, Search } from 'lucide-react';
+import WalletLink from './WalletLink';
+import ExportMenu from './ExportMenu';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { BorrowerSummary } from '@/utils/types';
+import { formatCurrency, formatDate } from '@/utils/loanCalculations';
+import { ExportColumn, toISODate } from '@/utils/tableExport';
+
+type SortKey = 'wallet' | 'loanCount' | 'firstLoanDate' | 'lastLoanDate' | 'outstandingAmount' | 'defaultCount' | 'highestAmount';
+
+// Rows have a fixed height so only the visible slice needs rendering
+const ROW_HEIGHT = 48;
+const VIEWPORT_HEIGHT = ROW_HEIGHT * 12;
+const OVERSCAN = 8;
+
+const COLUMNS: { key: SortKey; label: string; align: 'text-left' | 'text-right' | 'text-center' }[] = [
+  { key: 'wallet', label: 'Wallet', align: 'text-left' },
+  { key: 'loanCount', label: 'Loans', align: 'text-right' },
+  { key: 'firstLoanDate', label: 'First Loan', align: 'text-center' },
+  { key: 'lastLoanDate', label: 'Last Loan', align: 'text-center' },
+  { key: 'outstandingAmount', label: 'Outstanding', align: 'text-right' },
+  { key: 'defaultCount', label: 'Defaults', align: 'text-center' },
+  { key: 'highestAmount', label: 'Highest Tier', align: 'text-right' },
+];
+
+const EXPORT_COLUMNS: ExportColumn<BorrowerSummary>[] = [
+  { header: 'Wallet', value: borrower => borrower.wallet },
+  { header: 'Loans', value: borrower => borrower.loanCount },
+  { header: 'First Loan', value: borrower => toISODate(borrower.firstLoanDate) },
+  { header: 'Last Loan', value: borrower => toISODate(borrower.lastLoanDate) },
+  { header: 'Outstanding', value: borrower => borrower.outstandingAmount },
+  { header: 'Defaults', value: borrower => borrower.defaultCount },
+  { header: 'Highest Tier', value: borrower => borrower.highestAmount },
+];
+
+const compareBorrowers = (a: BorrowerSummary, b: BorrowerSummary, key: SortKey): number => {
+  if (key === 'wallet') return a.wallet.localeCompare(b.wallet);
+  if (key === 'firstLoanDate' || key === 'lastLoanDate') {
+    return new Date(a[key] ?? 0).getTime() - new Date(b[key] ?? 0).getTime();
+  }
+  return a[key] - b[key];
+};
+
+interface BorrowerDirectoryProps {
+  borrowers: BorrowerSummary[];
+}
+
+const BorrowerDirectory = ({ borrowers }: BorrowerDirectoryProps) => {
+  const [search, setSearch] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({
+    key: 'lastLoanDate',
+    direction: 'desc',
+  });
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const matching = query ? borrowers.filter(borrower => borrower.wallet.toLowerCase().includes(query)) : borrowers;
+    const sign = sortConfig.direction === 'asc' ? 1 : -1;
+    return [...matching].sort((a, b) => sign * compareBorrowers(a, b, sortConfig.key));
+  }, [borrowers, search, sortConfig]);
+
+  // A new search or order starts from the top again
+  useEffect(() => {
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, [search, sortConfig]);
+
+  const requestSort = (key: SortKey) => {
+    let direction: 'asc' | 'desc' = 'asc';
+    if (sortConfig.key === key && sortConfig.direction === 'asc') {
+      direction = 'desc';
+    }
+    setSortConfig({ key, direction });
+  };
+
+  const getSortIcon = (key: SortKey) => {
+    if (sortConfig.key !== key) return null;
+    return sortConfig.direction === 'asc' ? <ChevronUp size={14} /> : <ChevronDown size={14} />;
+  };
+
+  const firstIndex = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastIndex = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(firstIndex, lastIndex);
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <h2 className="text-lg font-medium">Borrower Directory</h2>
+
+        <div className="flex items-center gap-4">
+          <span className="text-sm text-muted-foreground whitespace-nowrap">
+            {rows.length.toLocaleString()} of {borrowers.length.toLocaleString()} wallets
+          </span>
+          <div className="relative w-full md:w-72">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={search}
+              onChange={event => setSearch(event.target.value)}
+              placeholder="Search wallets"
+              className="pl-9"
+            />
+          </div>
+          <ExportMenu name="borrowers" columns={EXPORT_COLUMNS} rows={rows} />
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-10">
+          <p className="text-muted-foreground">No wallets match the search</p>
+        </div>
+      ) : (
+        <div
+          ref={viewportRef}
+          onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+          className="overflow-auto -mx-6 px-6"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+        >
+          <table className="w-full loans-table">
+            <thead className="sticky top-0 z-10 bg-background">
+              <tr>
+                {COLUMNS.map(column => (
+                  <th
+                    key={column.key}
+                    className={`${column.align} cursor-pointer whitespace-nowrap`}
+                    onClick={() => requestSort(column.key)}
+                  >
+                    <div className={`flex items-center gap-1 ${
+                      column.align === 'text-right' ? 'justify-end' : column.align === 'text-center' ? 'justify-center' : ''
+                    }`}>
+                      {column.label}
+                      {getSortIcon(column.key)}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {firstIndex > 0 && <tr className="border-0" style={{ height: firstIndex * ROW_HEIGHT }} />}
+              {visibleRows.map(borrower => (
+                <tr key={borrower.wallet} style={{ height: ROW_HEIGHT }}>
+                  <td className="text-left">
+                    <WalletLink wallet={borrower.wallet} className="block text-sm truncate max-w-[200px]" />
+                  </td>
+                  <td className="text-right">{borrower.loanCount.toLocaleString()}</td>
+                  <td className="text-center">{borrower.firstLoanDate ? formatDate(borrower.firstLoanDate) : '-'}</td>
+                  <td className="text-center">{borrower.lastLoanDate ? formatDate(borrower.lastLoanDate) : '-'}</td>
+                  <td className="text-right">{formatCurrency(borrower.outstandingAmount)}</td>
+                  <td className="text-center">
+                    {borrower.defaultCount > 0 ? (
+                      <Badge variant="destructive">{borrower.defaultCount.toLocaleString()} defaulted</Badge>
+                    ) : (
+                      <span className="text-muted-foreground">None</span>
+                    )}
+                  </td>
+                  <td className="text-right">{formatCurrency(borrower.highestAmount)}</td>
+                </tr>
+              ))}
+              {lastIndex < rows.length && <tr className="border-0" style={{ height: (rows.length - lastIndex) * ROW_HEIGHT }} />}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BorrowerDirectory;
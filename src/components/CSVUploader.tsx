@@ -1,10 +1,15 @@
 
 import { useState, useRef, DragEvent, ChangeEvent } from 'react';
 import { toast } from 'sonner';
-import { Upload, File, Loader2, AlertCircle, HelpCircle, Info } from 'lucide-react';
+import { Upload, File, Loader2, AlertCircle, HelpCircle, Info, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { parseCSV } from '@/utils/csvParser';
-import { LoanData } from '@/utils/types';
+import { CSVParseOptions, CSVPreview, parseCSV, previewCSV, validateCSV } from '@/utils/csvParser';
+import { buildHeaderMapping, getHeaderSignature } from '@/utils/loanRowMapper';
+import { headerMapToProfileMapping, profileToHeaderMap } from '@/utils/mappingProfiles';
+import { getLoanRepository } from '@/utils/loanRepository';
+import ColumnMappingStep from './ColumnMappingStep';
+import ValidationReportView from './ValidationReportView';
+import { UploadResult, ValidationReport } from '@/utils/types';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
@@ -20,8 +25,22 @@ import {
   AccordionTrigger,
 } from "@/components/ui/accordion";
 
+interface PendingMapping {
+  file: File;
+  preview: CSVPreview;
+  detectedMap: Record<number, string>;
+  initialMap: Record<number, string>;
+  profileName?: string;
+}
+
+interface PendingCommit {
+  file: File;
+  parseOptions: CSVParseOptions;
+  report: ValidationReport;
+}
+
 interface CSVUploaderProps {
-  onDataLoaded: (data: LoanData[]) => void;
+  onDataLoaded: (result: UploadResult) => void;
   onProgress?: (progress: number, status: string) => void;
 }
 
@@ -32,7 +51,10 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
   const [processingStep, setProcessingStep] = useState<string>('');
   const [progress, setProgress] = useState(0);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<PendingMapping | null>(null);
+  const [pendingCommit, setPendingCommit] = useState<PendingCommit | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   const updateProgress = (value: number, status: string) => {
     setProgress(value);
@@ -74,6 +96,8 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
 
   const resetState = () => {
     setFileName(null);
+    setPendingMapping(null);
+    setPendingCommit(null);
     setIsLoading(false);
     setValidationError(null);
     updateProgress(0, '');
@@ -82,16 +106,112 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // First step: read the headers and let the user confirm the column mapping
   const processFile = async (file: File) => {
-    if (!file.name.endsWith('.csv')) {
+    if (!/\.(csv|tsv)$/i.test(file.name)) {
       toast.error('Please upload a CSV file');
       return;
     }
 
     setValidationError(null);
-    
-    setIsLoading(true);
     setFileName(file.name);
+
+    try {
+      const preview = await previewCSV(file);
+      const { headerMap: detectedMap } = buildHeaderMapping(preview.headers);
+      const profile = await getLoanRepository().fetchMappingProfile(getHeaderSignature(preview.headers));
+
+      if (profile) {
+        console.log(`Using column mapping profile "${profile.name}" for ${file.name}`);
+      }
+
+      setPendingMapping({
+        file,
+        preview,
+        detectedMap,
+        initialMap: profile ? profileToHeaderMap(profile, preview.headers) : detectedMap,
+        profileName: profile?.name
+      });
+    } catch (error) {
+      console.error('Error reading CSV headers:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to read CSV file.';
+      toast.error(errorMessage);
+      setValidationError(errorMessage);
+    }
+  };
+
+  const handleMappingConfirm = async (headerMap: Record<number, string>, saveAsProfile: string | null) => {
+    if (!pendingMapping) return;
+
+    const { file, preview } = pendingMapping;
+    setPendingMapping(null);
+
+    if (saveAsProfile) {
+      const saved = await getLoanRepository().saveMappingProfile(
+        saveAsProfile,
+        getHeaderSignature(preview.headers),
+        headerMapToProfileMapping(headerMap, preview.headers)
+      );
+
+      if (saved) {
+        toast.success(`Saved column mapping profile "${saved.name}"`);
+      } else {
+        toast.warning('Could not save the column mapping profile');
+      }
+    }
+
+    await runDryRun(file, { delimiter: preview.delimiter, headerMap });
+  };
+
+  // Second step: validate every row without writing, the user commits from the report
+  const runDryRun = async (file: File, parseOptions: CSVParseOptions) => {
+    setIsLoading(true);
+
+    try {
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      const report = await validateCSV(file, updateProgress, {
+        ...parseOptions,
+        signal: abortController.signal
+      });
+
+      setIsLoading(false);
+      updateProgress(0, '');
+      setPendingCommit({ file, parseOptions, report });
+    } catch (error) {
+      if (abortControllerRef.current?.signal.aborted) {
+        toast.info('Validation cancelled');
+        resetState();
+        return;
+      }
+
+      console.error('Error validating CSV:', error);
+      const errorMessage = error instanceof Error ? error.message : 'Failed to validate CSV file.';
+      toast.error(errorMessage);
+      setIsLoading(false);
+      updateProgress(0, '');
+      setValidationError(errorMessage);
+    } finally {
+      abortControllerRef.current = null;
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!pendingCommit) return;
+
+    const { file, parseOptions } = pendingCommit;
+    setPendingCommit(null);
+
+    await uploadFile(file, parseOptions);
+  };
+
+  const uploadFile = async (file: File, parseOptions: CSVParseOptions) => {
+    setIsLoading(true);
     updateProgress(5, 'Preparing file...');
 
     try {
@@ -101,19 +221,19 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
         updateProgress(percent, message);
       };
       
-      const processingPromise = parseCSV(file, progressCallback);
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
       
-      const timeoutPromise = new Promise<LoanData[]>((_, reject) => {
-        setTimeout(() => reject(new Error('Processing timed out after 30 seconds')), 30000);
+      const result = await parseCSV(file, progressCallback, {
+        ...parseOptions,
+        signal: abortController.signal
       });
       
-      const loanData = await Promise.race([processingPromise, timeoutPromise]);
-      
-      if (loanData && loanData.length > 0) {
+      if (result.loanCount > 0) {
         updateProgress(100, 'Finalizing...');
         
         setTimeout(() => {
-          onDataLoaded(loanData);
+          onDataLoaded(result);
         }, 500);
       } else {
         toast.error('No valid loan data found in the CSV file');
@@ -122,13 +242,17 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
         setValidationError('The CSV file contains no valid loan data. Please check the file format and try again.');
       }
     } catch (error) {
+      if (abortControllerRef.current?.signal.aborted) {
+        toast.info('Upload cancelled. Loans stored before cancelling were kept.');
+        resetState();
+        return;
+      }
+      
       console.error('Error processing CSV:', error);
       let errorMessage = 'Failed to process CSV file.';
       
       if (error instanceof Error) {
-        if (error.message.includes('timed out')) {
-          errorMessage = 'Processing timed out. Try with a smaller file or try again later.';
-        } else if (error.message.includes('required fields')) {
+        if (error.message.includes('required fields')) {
           errorMessage = 'Some rows have missing required fields. Please check your CSV file and ensure all rows have the required fields.';
         } else if (error.message.includes('required headers') || error.message.includes('missing all required fields')) {
           errorMessage = error.message;
@@ -141,9 +265,39 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
       setIsLoading(false);
       updateProgress(0, '');
       setValidationError(errorMessage);
+    } finally {
+      abortControllerRef.current = null;
     }
   };
 
+  if (pendingCommit) {
+    return (
+      <div className="w-full max-w-3xl mx-auto">
+        <ValidationReportView
+          report={pendingCommit.report}
+          onCommit={handleCommit}
+          onCancel={resetState}
+        />
+      </div>
+    );
+  }
+
+  if (pendingMapping) {
+    return (
+      <div className="w-full max-w-3xl mx-auto">
+        <ColumnMappingStep
+          fileName={pendingMapping.file.name}
+          preview={pendingMapping.preview}
+          detectedMap={pendingMapping.detectedMap}
+          initialMap={pendingMapping.initialMap}
+          profileName={pendingMapping.profileName}
+          onConfirm={handleMappingConfirm}
+          onCancel={resetState}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="w-full max-w-2xl mx-auto">
       {validationError && (
@@ -166,7 +320,7 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
           type="file"
           ref={fileInputRef}
           onChange={handleFileInputChange}
-          accept=".csv"
+          accept=".csv,.tsv"
           className="hidden"
           disabled={isLoading}
         />
@@ -183,6 +337,16 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
                   <p className="text-xs mt-2 text-muted-foreground">{processingStep}</p>
                 </div>
               )}
+              
+              <Button
+                onClick={handleCancel}
+                variant="ghost"
+                size="sm"
+                className="mt-4"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Cancel
+              </Button>
             </div>
           ) : (
             <>
@@ -354,6 +518,7 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
               </div>
               <p className="text-xs text-muted-foreground mt-3">
                 The system will recognize these variations automatically. No need to rename columns!
+                You can review or override the detected mapping before anything is stored, and save it as a profile for files with the same columns.
               </p>
             </AccordionContent>
           </AccordionItem>
@@ -364,6 +529,9 @@ const CSVUploader = ({ onDataLoaded, onProgress }: CSVUploaderProps) => {
           <code className="font-mono bg-muted p-1 text-[10px] block mt-1 rounded-sm overflow-x-auto whitespace-nowrap">
             user_wallet,loan_amount,loan_term,loan_due_date,loan_repaid_amount,time_loan_started,time_loan_ended,default_loan_date,is_defaulted,version
           </code>
+          <p className="mt-2">
+            Comma, semicolon and tab separated files are detected automatically. Values containing separators, quotes or line breaks must be wrapped in double quotes.
+          </p>
         </div>
       </div>
     </div>
@@ -0,0 +1,26 @@
+import { format, formatDistanceToNow } from 'date-fns';
+import { WifiOff } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface CachedDataNoticeProps {
+  // When the cached loan book was last synced with the database
+  cachedAt: string;
+  className?: string;
+}
+
+const CachedDataNotice = ({ cachedAt, className = '' }: CachedDataNoticeProps) => {
+  const date = new Date(cachedAt);
+
+  return (
+    <Alert className={className}>
+      <WifiOff className="h-4 w-4" />
+      <AlertDescription>
+        The database cannot be reached. Showing the copy of the loans saved in this browser{' '}
+        {formatDistanceToNow(date, { addSuffix: true })} ({format(date, 'MMM d, yyyy - h:mm a')}),
+        read-only until the connection is back.
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default CachedDataNotice;
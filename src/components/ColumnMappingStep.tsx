@@ -0,0 +1,217 @@
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertCircle, Columns, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { COLUMN_MAPPINGS, getMissingRequiredFields, REQUIRED_FIELDS } from '@/utils/loanRowMapper';
+import { CSVPreview } from '@/utils/csvParser';
+
+// Select items cannot have an empty value
+const IGNORE_COLUMN = '__ignore__';
+const SAMPLE_VALUE_COUNT = 3;
+
+interface ColumnMappingStepProps {
+  fileName: string;
+  preview: CSVPreview;
+  // Mapping detected from COLUMN_MAPPINGS, shown next to each header
+  detectedMap: Record<number, string>;
+  // Mapping the dropdowns start from (a saved profile or the detected one)
+  initialMap: Record<number, string>;
+  profileName?: string;
+  onConfirm: (headerMap: Record<number, string>, saveAsProfile: string | null) => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingStep = ({
+  fileName,
+  preview,
+  detectedMap,
+  initialMap,
+  profileName,
+  onConfirm,
+  onCancel
+}: ColumnMappingStepProps) => {
+  const [headerMap, setHeaderMap] = useState<Record<number, string>>(initialMap);
+  const [saveProfile, setSaveProfile] = useState(!profileName);
+  const [newProfileName, setNewProfileName] = useState(profileName ?? '');
+
+  const fields = Object.keys(COLUMN_MAPPINGS);
+  const missingRequiredFields = getMissingRequiredFields(headerMap);
+  const allRequiredMissing = missingRequiredFields.length === REQUIRED_FIELDS.length;
+
+  const assignedFields = Object.values(headerMap);
+  const duplicateFields = fields.filter(field =>
+    assignedFields.filter(assigned => assigned === field).length > 1
+  );
+
+  const handleFieldChange = (index: number, value: string) => {
+    setHeaderMap(current => {
+      const next = { ...current };
+      if (value === IGNORE_COLUMN) {
+        delete next[index];
+      } else {
+        next[index] = value;
+      }
+      return next;
+    });
+  };
+
+  const getSampleValues = (index: number) => {
+    return preview.sampleRows
+      .map(row => row[index])
+      .filter(value => value)
+      .slice(0, SAMPLE_VALUE_COUNT);
+  };
+
+  const handleConfirm = () => {
+    const trimmedName = newProfileName.trim();
+    onConfirm(headerMap, saveProfile && trimmedName ? trimmedName : null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="glass-card rounded-xl p-6 text-left"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium flex items-center gap-2">
+            <Columns className="w-5 h-5 text-primary" />
+            Map Columns
+          </h3>
+          <p className="text-sm text-muted-foreground">{fileName}</p>
+        </div>
+        {profileName && (
+          <Badge variant="secondary">Profile: {profileName}</Badge>
+        )}
+      </div>
+
+      {allRequiredMissing ? (
+        <Alert variant="destructive" className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Map at least one of the required fields: {REQUIRED_FIELDS.join(', ')}
+          </AlertDescription>
+        </Alert>
+      ) : missingRequiredFields.length > 0 && (
+        <Alert className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Missing required fields: {missingRequiredFields.join(', ')}. Processing will continue with default values.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {duplicateFields.length > 0 && (
+        <Alert className="mb-4">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Mapped more than once, the right-most column wins: {duplicateFields.join(', ')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Source column</TableHead>
+            <TableHead>Detected</TableHead>
+            <TableHead>Sample values</TableHead>
+            <TableHead className="w-[200px]">Maps to</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {preview.headers.map((header, index) => (
+            <TableRow key={`${header}_${index}`}>
+              <TableCell className="font-medium">{header || <em className="text-muted-foreground">(blank)</em>}</TableCell>
+              <TableCell>
+                {detectedMap[index] ? (
+                  <span className="font-mono text-xs">{detectedMap[index]}</span>
+                ) : (
+                  <span className="text-xs text-muted-foreground">Not recognized</span>
+                )}
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-col gap-0.5 max-w-[220px]">
+                  {getSampleValues(index).map((value, sampleIndex) => (
+                    <span key={sampleIndex} className="font-mono text-xs truncate">{value}</span>
+                  ))}
+                </div>
+              </TableCell>
+              <TableCell>
+                <Select
+                  value={headerMap[index] ?? IGNORE_COLUMN}
+                  onValueChange={(value) => handleFieldChange(index, value)}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={IGNORE_COLUMN}>Ignore column</SelectItem>
+                    {fields.map(field => (
+                      <SelectItem key={field} value={field}>
+                        {field}{REQUIRED_FIELDS.includes(field) ? ' *' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="mt-6 flex flex-col md:flex-row md:items-end gap-4">
+        <div className="flex-1 space-y-2">
+          <Label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={saveProfile}
+              onChange={(e) => setSaveProfile(e.target.checked)}
+            />
+            <Save className="w-4 h-4" />
+            {profileName ? 'Update saved profile' : 'Save as mapping profile'}
+          </Label>
+          <Input
+            value={newProfileName}
+            onChange={(e) => setNewProfileName(e.target.value)}
+            placeholder="Profile name, e.g. Indexer export"
+            disabled={!saveProfile}
+          />
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={allRequiredMissing}>
+            Confirm mapping
+          </Button>
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ColumnMappingStep;
@@ -0,0 +1,206 @@
+
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ArrowRight, FileText, Loader2, Play, Receipt, Wallet } from 'lucide-react';
+import LoanTimeline from './LoanTimeline';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { LoanData } from '@/utils/types';
+import { borrowerPath, searchWallets } from '@/utils/borrowers';
+import { formatCurrency, formatDate } from '@/utils/loanCalculations';
+import { NAV_ITEMS } from '@/utils/navigation';
+import { getPaletteSources, setCommandPaletteOpen, useCommandPaletteOpen } from '@/hooks/use-command-palette';
+import { useWalletSearch } from '@/hooks/use-loan-queries';
+import { useUploadSummaries } from '@/hooks/use-upload-queries';
+
+const MAX_LOAN_RESULTS = 8;
+const MAX_UPLOAD_RESULTS = 5;
+// Database lookups only start once the query narrows things down
+const MIN_REMOTE_QUERY = 3;
+
+const matchesText = (query: string, text: string) => text.toLowerCase().includes(query.trim().toLowerCase());
+
+const CommandPalette = () => {
+  const navigate = useNavigate();
+  const open = useCommandPaletteOpen();
+  const [query, setQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedLoan, setSelectedLoan] = useState<LoanData | null>(null);
+
+  const sources = open ? getPaletteSources() : [];
+  const loadedLoans = sources.flatMap(source => source.loans ?? []);
+  const commands = sources.flatMap(source => source.commands ?? []);
+  const hasLoadedLoans = loadedLoans.length > 0;
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setCommandPaletteOpen(!open);
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open]);
+
+  // Uploads are fetched the first time the palette opens
+  const { data: uploads } = useUploadSummaries(open);
+
+  // Pages without loans in memory search the database instead, once typing
+  // pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(query.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const remoteSearch = useWalletSearch(
+    searchQuery,
+    open && !hasLoadedLoans && searchQuery.length >= MIN_REMOTE_QUERY
+  );
+  const isSearching = remoteSearch.isFetching;
+
+  const trimmed = query.trim();
+  const walletMatches = !trimmed
+    ? []
+    : hasLoadedLoans
+      ? searchWallets(loadedLoans, trimmed)
+      : remoteSearch.data ?? [];
+  const loanMatches = walletMatches
+    .flatMap(match => [...match.loans].sort((a, b) =>
+      new Date(b.time_loan_started).getTime() - new Date(a.time_loan_started).getTime()))
+    .slice(0, MAX_LOAN_RESULTS);
+  const uploadMatches = trimmed
+    ? (uploads ?? []).filter(upload => matchesText(trimmed, upload.file_name)).slice(0, MAX_UPLOAD_RESULTS)
+    : [];
+  const commandMatches = commands.filter(command => matchesText(trimmed, command.label));
+  const navMatches = NAV_ITEMS.filter(item => matchesText(trimmed, `Go to ${item.label}`));
+
+  const handleOpenChange = (next: boolean) => {
+    setCommandPaletteOpen(next);
+    if (!next) setQuery('');
+  };
+
+  const runAndClose = (action: () => void) => {
+    handleOpenChange(false);
+    action();
+  };
+
+  return (
+    <>
+      {/* Results are already ranked here, cmdk's own filter would drop fuzzy wallet matches */}
+      <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+        <CommandInput
+          value={query}
+          onValueChange={setQuery}
+          placeholder="Search wallets, uploads or commands..."
+        />
+        <CommandList>
+          <CommandEmpty>
+            {isSearching ? (
+              <span className="inline-flex items-center gap-2">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                Searching...
+              </span>
+            ) : 'No results found.'}
+          </CommandEmpty>
+
+          {walletMatches.length > 0 && (
+            <CommandGroup heading="Borrowers">
+              {walletMatches.map(match => (
+                <CommandItem
+                  key={match.wallet}
+                  value={`wallet:${match.wallet}`}
+                  onSelect={() => runAndClose(() => navigate(borrowerPath(match.wallet)))}
+                >
+                  <Wallet className="mr-2" />
+                  <span className="font-mono truncate">{match.wallet}</span>
+                  <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                    {match.loanCount.toLocaleString()} {match.loanCount === 1 ? 'loan' : 'loans'}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {loanMatches.length > 0 && (
+            <CommandGroup heading="Loans">
+              {loanMatches.map((loan, index) => (
+                <CommandItem
+                  key={`${loan.user_wallet}_${loan.time_loan_started}_${index}`}
+                  value={`loan:${loan.user_wallet}:${loan.time_loan_started}:${index}`}
+                  onSelect={() => runAndClose(() => setSelectedLoan(loan))}
+                >
+                  <Receipt className="mr-2" />
+                  <span className="font-mono truncate">{loan.user_wallet}</span>
+                  <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                    {formatCurrency(loan.loan_amount)}, due {formatDate(loan.loan_due_date)}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {uploadMatches.length > 0 && (
+            <CommandGroup heading="Uploads">
+              {uploadMatches.map(upload => (
+                <CommandItem
+                  key={upload.id}
+                  value={`upload:${upload.id}`}
+                  onSelect={() => runAndClose(() => navigate(`/uploads/${upload.id}`))}
+                >
+                  <FileText className="mr-2" />
+                  <span className="truncate">{upload.file_name}</span>
+                  <span className="ml-auto text-xs text-muted-foreground whitespace-nowrap">
+                    {format(new Date(upload.upload_date), 'MMM d, yyyy')}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {commandMatches.length > 0 && (
+            <CommandGroup heading="Actions">
+              {commandMatches.map(command => (
+                <CommandItem
+                  key={command.id}
+                  value={`command:${command.id}`}
+                  onSelect={() => runAndClose(command.run)}
+                >
+                  <Play className="mr-2" />
+                  {command.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {navMatches.length > 0 && (
+            <CommandGroup heading="Navigation">
+              {navMatches.map(item => (
+                <CommandItem
+                  key={item.to}
+                  value={`nav:${item.to}`}
+                  onSelect={() => runAndClose(() => navigate(item.to))}
+                >
+                  <ArrowRight className="mr-2" />
+                  Go to {item.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+
+      <LoanTimeline loan={selectedLoan} onClose={() => setSelectedLoan(null)} />
+    </>
+  );
+};
+
+export default CommandPalette;
@@ -1,98 +1,146 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Activity, Clock, DollarSign, RefreshCw, CheckCircle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Activity, AlertCircle, Clock, DollarSign, FileText, Loader2, RefreshCw, CheckCircle, Sparkles } from 'lucide-react';
 import { toast } from 'sonner';
+import { format } from 'date-fns';
 import KPICard from './KPICard';
 import LoanBreakdown from './LoanBreakdown';
 import UpcomingLoans from './UpcomingLoans';
 import LoanCharts from './LoanCharts';
+import LoanTimeSeriesChart from './LoanTimeSeriesChart';
+import VintageAnalysis from './VintageAnalysis';
+import PortfolioAtRisk from './PortfolioAtRisk';
+import DelinquencyAging from './DelinquencyAging';
 import FileUploadBanner from './FileUploadBanner';
+import FilterBar from './FilterBar';
+import CachedDataNotice from './CachedDataNotice';
 import { Button } from '@/components/ui/button';
-import { Progress } from '@/components/ui/progress';
-import { LoanData, LoanMetrics, DueDateGroup } from '@/utils/types';
-import { fetchLoansFromDatabase } from '@/utils/csvParser';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LoanProduct } from '@/utils/types';
+import { summarizePortfolio } from '@/utils/portfolioSummary';
+import { getLoanRepository } from '@/utils/loanRepository';
+import { readWithCacheFallback } from '@/utils/loanCache';
+import { applyLoanFilters } from '@/utils/loanFilters';
+import { downloadFile, loansToCSV } from '@/utils/csvExport';
+import { useLoanFilters } from '@/hooks/use-loan-filters';
+import { usePaletteSource } from '@/hooks/use-command-palette';
+import { useInvalidateLoanData, useLoanProducts, useMetrics } from '@/hooks/use-loan-queries';
+import { useLastDataChange } from '@/hooks/use-realtime-sync';
+import { usePermission } from '@/hooks/use-auth';
 import { 
-  calculateLoanMetrics,
   generateStatusChartData,
   generateAmountChartData,
-  groupLoansByDueDate,
   formatCurrency
 } from '@/utils/loanCalculations';
 
-interface DashboardProps {
-  data: LoanData[];
-}
+const NO_PRODUCTS: LoanProduct[] = [];
 
-const Dashboard = ({ data }: DashboardProps) => {
-  const [metrics, setMetrics] = useState<LoanMetrics | null>(null);
-  const [dueDateGroups, setDueDateGroups] = useState<DueDateGroup[]>([]);
-  const [statusChartData, setStatusChartData] = useState([]);
-  const [amountChartData, setAmountChartData] = useState({ oneDollar: [], tenDollar: [] });
+const Dashboard = () => {
   const [isVisible, setIsVisible] = useState(false);
-  const [isRefreshing, setIsRefreshing] = useState(false);
-  const [loadProgress, setLoadProgress] = useState(0);
-  const [loadStatus, setLoadStatus] = useState('');
+  const { filters, setFilters } = useLoanFilters();
+  const invalidateLoanData = useInvalidateLoanData();
+  const canExport = usePermission('export');
+
+  // Without products every amount still gets a tier, only the expected
+  // repayments are missing
+  const productsQuery = useLoanProducts();
+  const products = productsQuery.data ?? NO_PRODUCTS;
 
   useEffect(() => {
-    if (data.length > 0) {
-      calculateAllMetrics(data);
-    } else {
+    if (productsQuery.isError) toast.error("Failed to load loan products");
+  }, [productsQuery.isError]);
+
+  // Every widget below works on the filtered loans, aggregated by the
+  // database. Loan lists are only fetched when a table is opened.
+  const {
+    data: aggregates,
+    dataUpdatedAt,
+    isPending: isLoading,
+    isError,
+    isFetching: isRefreshing
+  } = useMetrics(filters);
+  const loadError = isError ? "Failed to load the portfolio summary. Please try again later." : null;
+
+  // Someone changed loans or uploads after the figures on screen were fetched
+  const lastDataChange = useLastDataChange();
+  const hasNewData = lastDataChange > dataUpdatedAt;
+
+  const summary = useMemo(
+    () => aggregates ? summarizePortfolio(aggregates, products) : null,
+    [aggregates, products]
+  );
+  const statusChartData = useMemo(() => summary ? generateStatusChartData(summary.metrics) : [], [summary]);
+  const amountChartData = useMemo(() => summary ? generateAmountChartData(summary.metrics) : [], [summary]);
+
+  useEffect(() => {
+    if (!summary || summary.totalCount === 0) {
       setIsVisible(false);
+      return;
     }
-  }, [data]);
 
-  const calculateAllMetrics = (loanData: LoanData[]) => {
+    const timer = setTimeout(() => setIsVisible(true), 100);
+    return () => clearTimeout(timer);
+  }, [summary]);
+
+  const handleExport = async () => {
     try {
-      const calculatedMetrics = calculateLoanMetrics(loanData);
-      setMetrics(calculatedMetrics);
-      
-      const calculatedDueDateGroups = groupLoansByDueDate(loanData);
-      setDueDateGroups(calculatedDueDateGroups);
-      
-      const calculatedStatusChartData = generateStatusChartData(calculatedMetrics);
-      setStatusChartData(calculatedStatusChartData);
-      
-      const calculatedAmountChartData = generateAmountChartData(calculatedMetrics);
-      setAmountChartData(calculatedAmountChartData);
-      
-      setTimeout(() => setIsVisible(true), 100);
+      const loans = await readWithCacheFallback(
+        () => getLoanRepository().fetchFilteredLoans(filters),
+        book => applyLoanFilters(book.loans, filters)
+      );
+      downloadFile(loansToCSV(loans), `loans-${format(new Date(), 'yyyy-MM-dd')}.csv`, 'text/csv;charset=utf-8');
+      toast.success(`Exported ${loans.length} loans`);
     } catch (error) {
-      console.error("Error calculating metrics:", error);
-      toast.error("Error calculating loan metrics");
+      console.error("Error exporting loans:", error);
+      toast.error("Failed to export loans");
     }
   };
 
-  const handleProgressUpdate = (percent: number, message: string) => {
-    setLoadProgress(percent);
-    setLoadStatus(message);
-  };
-
   const handleRefresh = async () => {
     try {
-      setIsRefreshing(true);
-      setLoadProgress(0);
-      setLoadStatus('Preparing to load data...');
-      
-      const freshData = await fetchLoansFromDatabase(handleProgressUpdate);
-      
-      if (freshData.length > 0) {
-        calculateAllMetrics(freshData);
-        toast.success(`Successfully loaded ${freshData.length} loans`);
-      } else {
-        toast.info("No loan data found in the database");
-      }
+      await invalidateLoanData({ throwOnError: true });
+      toast.success("Dashboard data refreshed");
     } catch (error) {
       console.error("Error refreshing data:", error);
       toast.error("Failed to refresh dashboard data");
-    } finally {
-      setIsRefreshing(false);
     }
   };
 
-  if (!metrics || data.length === 0) {
+  // The report covers the filtered origination range when one is set
+  const reportLink = filters.startedFrom && filters.startedTo
+    ? `/report?from=${filters.startedFrom}&to=${filters.startedTo}`
+    : '/report';
+
+  usePaletteSource({
+    commands: [
+      { id: 'refresh-data', label: 'Refresh data', run: handleRefresh },
+      ...(canExport ? [{ id: 'export-view', label: 'Export current view as CSV', run: handleExport }] : []),
+    ],
+  });
+
+  if (!summary && isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center h-64">
+        <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
+        <p className="text-muted-foreground">Loading portfolio summary...</p>
+      </div>
+    );
+  }
+
+  if (!summary || summary.totalCount === 0) {
     return (
       <div className="text-center py-12">
-        <p className="text-muted-foreground mb-4">No loan data available to display.</p>
+        {loadError ? (
+          <Alert variant="destructive" className="max-w-3xl mx-auto mb-6 text-left">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : (
+          <p className="text-muted-foreground mb-4">
+            {hasNewData ? "New loan data is available." : "No loan data available to display."}
+          </p>
+        )}
         <Button onClick={handleRefresh} disabled={isRefreshing}>
           {isRefreshing ? (
             <>
@@ -106,18 +154,12 @@ const Dashboard = ({ data }: DashboardProps) => {
             </>
           )}
         </Button>
-        
-        {isRefreshing && loadProgress > 0 && (
-          <div className="mt-6 max-w-md mx-auto">
-            <p className="text-sm mb-2">{loadStatus}</p>
-            <Progress value={loadProgress} className="h-2" />
-            <p className="text-xs text-muted-foreground mt-1">{loadProgress}% complete</p>
-          </div>
-        )}
       </div>
     );
   }
 
+  const { metrics } = summary;
+
   return (
     <AnimatePresence>
       {isVisible && (
@@ -137,96 +179,133 @@ const Dashboard = ({ data }: DashboardProps) => {
               Loan Analytics Dashboard
             </motion.h1>
             
-            <Button 
-              onClick={handleRefresh} 
-              variant="outline" 
-              size="sm"
-              disabled={isRefreshing}
-            >
-              {isRefreshing ? (
-                <>
-                  <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
-                  Refreshing...
-                </>
-              ) : (
-                <>
-                  <RefreshCw className="w-4 h-4 mr-2" />
-                  Refresh Data
-                </>
+            <div className="flex gap-2">
+              {hasNewData && (
+                <Button onClick={handleRefresh} size="sm" disabled={isRefreshing}>
+                  <Sparkles className="w-4 h-4 mr-2" />
+                  New data available
+                </Button>
               )}
-            </Button>
+
+              <Button variant="outline" size="sm" asChild>
+                <Link to={reportLink}>
+                  <FileText className="w-4 h-4 mr-2" />
+                  Generate Report
+                </Link>
+              </Button>
+
+              <Button 
+                onClick={handleRefresh} 
+                variant="outline" 
+                size="sm"
+                disabled={isRefreshing}
+              >
+                {isRefreshing ? (
+                  <>
+                    <RefreshCw className="w-4 h-4 mr-2 animate-spin" />
+                    Refreshing...
+                  </>
+                ) : (
+                  <>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Refresh Data
+                  </>
+                )}
+              </Button>
+            </div>
           </div>
           
-          {isRefreshing && loadProgress > 0 && (
-            <motion.div 
-              initial={{ opacity: 0, y: -10 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="mb-6"
-            >
-              <p className="text-sm mb-2">{loadStatus}</p>
-              <Progress value={loadProgress} className="h-2" />
-              <p className="text-xs text-muted-foreground mt-1">{loadProgress}% complete</p>
-            </motion.div>
-          )}
-          
           <FileUploadBanner />
-          
-          <motion.div 
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5, delay: 0.2 }}
-            className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8"
-          >
-            <KPICard
-              title="Total Loans Issued"
-              value={metrics.totalLoans}
-              description={`Total value: ${formatCurrency(
-                metrics.oneDollarLoans.total * 1 + metrics.tenDollarLoans.total * 10
-              )}`}
-              icon={<DollarSign size={20} />}
-              index={0}
-            />
+
+          {summary.cachedAt && <CachedDataNotice cachedAt={summary.cachedAt} className="mb-4" />}
+
+          <FilterBar
+            filterOptions={summary.filterOptions}
+            totalCount={summary.totalCount}
+            filters={filters}
+            onChange={setFilters}
+            matchingCount={metrics.totalLoans}
+          />
+
+          {metrics.totalLoans === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground">No loans match the current filters.</p>
+            </div>
+          ) : (
+            <>
+              <motion.div 
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.5, delay: 0.2 }}
+                className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8"
+              >
+                <KPICard
+                  title="Total Loans Issued"
+                  value={metrics.totalLoans}
+                  description={`Total value: ${formatCurrency(metrics.totalPrincipal)}`}
+                  icon={<DollarSign size={20} />}
+                  index={0}
+                />
             
-            <KPICard
-              title="Loans Repaid"
-              value={metrics.oneDollarLoans.repaid + metrics.tenDollarLoans.repaid}
-              description={`${(((metrics.oneDollarLoans.repaid + metrics.tenDollarLoans.repaid) / metrics.totalLoans) * 100).toFixed(1)}% repayment rate`}
-              icon={<CheckCircle size={20} />}
-              index={1}
-            />
+                <KPICard
+                  title="Loans Repaid"
+                  value={metrics.totalRepaid}
+                  description={`${((metrics.totalRepaid / metrics.totalLoans) * 100).toFixed(1)}% repayment rate`}
+                  icon={<CheckCircle size={20} />}
+                  index={1}
+                />
             
-            <KPICard
-              title="Loans Defaulted"
-              value={metrics.totalDefaulted}
-              description={`${((metrics.totalDefaulted / metrics.totalLoans) * 100).toFixed(1)}% default rate`}
-              icon={<Activity size={20} />}
-              index={2}
-            />
+                <KPICard
+                  title="Loans Defaulted"
+                  value={metrics.totalDefaulted}
+                  description={`${((metrics.totalDefaulted / metrics.totalLoans) * 100).toFixed(1)}% default rate`}
+                  icon={<Activity size={20} />}
+                  index={2}
+                />
             
-            <KPICard
-              title="Loans In Progress"
-              value={metrics.totalInProgress}
-              description="Active loans with future due dates"
-              icon={<Clock size={20} />}
-              index={3}
-            />
-          </motion.div>
+                <KPICard
+                  title="Loans In Progress"
+                  value={metrics.totalInProgress}
+                  description="Active loans with future due dates"
+                  icon={<Clock size={20} />}
+                  index={3}
+                />
+              </motion.div>
           
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
-            <LoanCharts
-              statusData={statusChartData}
-              amountData={amountChartData}
-            />
+              <PortfolioAtRisk current={summary.par} trends={summary.parTrend} />
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+                <LoanCharts
+                  statusData={statusChartData}
+                  amountData={amountChartData}
+                />
             
-            <LoanBreakdown metrics={metrics} />
-          </div>
+                <LoanBreakdown metrics={metrics} />
+              </div>
+
+              <div className="mb-8">
+                <LoanTimeSeriesChart series={summary.timeSeries} />
+              </div>
+
+              <div className="mb-8">
+                <VintageAnalysis cohorts={summary.vintage} />
+              </div>
           
-          <div className="mb-8">
-            <UpcomingLoans 
-              dueDateGroups={dueDateGroups} 
-              loans={data} 
-            />
-          </div>
+              <div className="mb-8">
+                <UpcomingLoans
+                  dueDateGroups={summary.dueDateGroups}
+                  filters={filters}
+                />
+              </div>
+
+              <div className="mb-8">
+                <DelinquencyAging
+                  buckets={summary.agingBuckets}
+                  filters={filters}
+                />
+              </div>
+            </>
+          )}
         </motion.div>
       )}
     </AnimatePresence>
@@ -0,0 +1,59 @@
+
+import { useState } from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import DrillDownLoanTable from './DrillDownLoanTable';
+import { AgingBucket, LoanFilters } from '@/utils/types';
+import { formatCurrency } from '@/utils/loanCalculations';
+
+interface DelinquencyAgingProps {
+  buckets: AgingBucket[];
+  filters: LoanFilters;
+}
+
+const DelinquencyAging = ({ buckets, filters }: DelinquencyAgingProps) => {
+  const [activeTab, setActiveTab] = useState(buckets[0].key);
+
+  const totalCount = buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  const totalPrincipal = buckets.reduce((sum, bucket) => sum + bucket.principal, 0);
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-medium">Delinquency Aging</h2>
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <AlertCircle size={16} />
+          <span className="text-sm">
+            {totalCount.toLocaleString()} past due, {formatCurrency(totalPrincipal)} principal
+          </span>
+        </div>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList className="grid grid-cols-5 h-auto mb-6">
+          {buckets.map(bucket => (
+            <TabsTrigger key={bucket.key} value={bucket.key} className="flex flex-col py-2">
+              <span>{bucket.label}</span>
+              <span className="text-xs text-muted-foreground">
+                {bucket.count.toLocaleString()} · {formatCurrency(bucket.principal)}
+              </span>
+            </TabsTrigger>
+          ))}
+        </TabsList>
+
+        {buckets.map(bucket => (
+          <TabsContent key={bucket.key} value={bucket.key}>
+            <DrillDownLoanTable
+              filters={filters}
+              drillDown={{ type: 'pastDue', minDays: bucket.minDays, maxDays: bucket.maxDays }}
+              emptyMessage="No loans are this far past due"
+              exportName={`loans-past-due-${bucket.key}`}
+            />
+          </TabsContent>
+        ))}
+      </Tabs>
+    </div>
+  );
+};
+
+export default DelinquencyAging;
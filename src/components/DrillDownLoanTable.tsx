@@ -0,0 +1,39 @@
+
+import { Loader2, AlertCircle } from 'lucide-react';
+import LoanTable from './LoanTable';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LoanDrillDown, LoanFilters } from '@/utils/types';
+import { useDrillDownLoans } from '@/hooks/use-loan-queries';
+
+interface DrillDownLoanTableProps {
+  filters: LoanFilters;
+  drillDown: LoanDrillDown;
+  emptyMessage?: string;
+  exportName?: string;
+}
+
+// Loads the loans behind a dashboard bucket when its table is first shown
+const DrillDownLoanTable = ({ filters, drillDown, emptyMessage, exportName }: DrillDownLoanTableProps) => {
+  const { data: loans = [], isPending: isLoading, isError } = useDrillDownLoans(filters, drillDown);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="w-6 h-6 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>Failed to load these loans. Please try again later.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return <LoanTable loans={loans} emptyMessage={emptyMessage} exportName={exportName} />;
+};
+
+export default DrillDownLoanTable;
@@ -0,0 +1,77 @@
+import { Check, ChevronDown, Database, HardDrive } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  SUPABASE_ENVIRONMENTS,
+  SupabaseEnvironmentId,
+  activeSupabaseEnvironment,
+  switchSupabaseEnvironment
+} from '@/integrations/supabase/environments';
+import { getLoanRepository } from '@/utils/loanRepository';
+
+// Anything but production stands out, so test data is never mistaken for the
+// real loan book
+const BADGE_STYLES: Record<SupabaseEnvironmentId, string> = {
+  prod: 'border-emerald-300 bg-emerald-50 text-emerald-800',
+  staging: 'border-amber-300 bg-amber-50 text-amber-800',
+  local: 'border-sky-300 bg-sky-50 text-sky-800'
+};
+
+const badgeClassName = 'inline-flex items-center gap-1.5 rounded-full border px-2.5 py-0.5 text-xs font-semibold';
+
+const EnvironmentSwitcher = () => {
+  if (getLoanRepository().isLocal) {
+    return (
+      <span className={`${badgeClassName} border-violet-300 bg-violet-50 text-violet-800`}>
+        <HardDrive size={12} />
+        Browser data
+      </span>
+    );
+  }
+
+  if (!activeSupabaseEnvironment) return null;
+
+  const badge = (
+    <>
+      <Database size={12} />
+      {activeSupabaseEnvironment.label}
+    </>
+  );
+
+  if (SUPABASE_ENVIRONMENTS.length < 2) {
+    return <span className={`${badgeClassName} ${BADGE_STYLES[activeSupabaseEnvironment.id]}`}>{badge}</span>;
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger
+        className={`${badgeClassName} ${BADGE_STYLES[activeSupabaseEnvironment.id]} hover:opacity-80 transition-opacity`}
+        aria-label="Switch environment"
+      >
+        {badge}
+        <ChevronDown size={12} />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Environment</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {SUPABASE_ENVIRONMENTS.map(environment => (
+          <DropdownMenuItem key={environment.id} onClick={() => switchSupabaseEnvironment(environment.id)}>
+            <Check
+              className={`mr-2 h-4 w-4 ${environment.id === activeSupabaseEnvironment?.id ? 'opacity-100' : 'opacity-0'}`}
+            />
+            <span className="flex-1">{environment.label}</span>
+            <span className="ml-4 max-w-48 truncate text-xs text-muted-foreground">{environment.url.replace(/^https?:\/\//, '')}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default EnvironmentSwitcher;
@@ -0,0 +1,56 @@
+
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { usePermission } from '@/hooks/use-auth';
+import { EXPORT_FORMATS, ExportColumn, ExportFormat, exportTable } from '@/utils/tableExport';
+
+interface ExportMenuProps<T> {
+  // File name without date or extension
+  name: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+// Exports exactly the rows it is given, callers pass them filtered and sorted.
+// Hidden from viewers, exporting needs the analyst role.
+const ExportMenu = <T,>({ name, columns, rows }: ExportMenuProps<T>) => {
+  const canExport = usePermission('export');
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      exportTable(name, columns, rows, format);
+    } catch (error) {
+      console.error("Error exporting table:", error);
+      toast.error("Failed to export this view");
+    }
+  };
+
+  if (!canExport) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={rows.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {EXPORT_FORMATS.map(format => (
+          <DropdownMenuItem key={format.value} onSelect={() => handleExport(format.value)}>
+            {format.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ExportMenu;
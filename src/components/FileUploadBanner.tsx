@@ -1,26 +1,16 @@
 
-import { useState, useEffect } from 'react';
 import { format } from 'date-fns';
 import { FileText, Clock } from 'lucide-react';
 import { motion } from 'framer-motion';
-import { FileUpload } from '@/utils/types';
-import { fetchLatestFileUpload } from '@/utils/csvParser';
+import { Link } from 'react-router-dom';
+import { useLatestUpload } from '@/hooks/use-upload-queries';
 
 interface FileUploadBannerProps {
   className?: string;
 }
 
 const FileUploadBanner = ({ className = '' }: FileUploadBannerProps) => {
-  const [fileUpload, setFileUpload] = useState<FileUpload | null>(null);
-  
-  useEffect(() => {
-    const getLatestFileUpload = async () => {
-      const upload = await fetchLatestFileUpload();
-      setFileUpload(upload);
-    };
-    
-    getLatestFileUpload();
-  }, []);
+  const { data: fileUpload } = useLatestUpload();
   
   if (!fileUpload) return null;
   
@@ -45,6 +35,10 @@ const FileUploadBanner = ({ className = '' }: FileUploadBannerProps) => {
           <Clock className="w-4 h-4" />
           <span>Uploaded on {formattedDate}</span>
         </div>
+        
+        <Link to="/uploads" className="ml-auto text-primary hover:text-primary/80 underline transition-colors duration-200">
+          Upload history
+        </Link>
       </div>
     </motion.div>
   );
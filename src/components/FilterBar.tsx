@@ -0,0 +1,194 @@
+
+import { useMemo } from 'react';
+import { ChevronDown, Filter, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { LoanFilterOptions, LoanFilters, LoanStatus } from '@/utils/types';
+import { EMPTY_LOAN_FILTERS, countActiveFilters } from '@/utils/loanFilters';
+import { LOAN_STATUS_LABELS, formatCurrency } from '@/utils/loanCalculations';
+import { useUploadSummaries } from '@/hooks/use-upload-queries';
+import SavedViewsMenu from './SavedViewsMenu';
+
+interface FilterOption<T> {
+  value: T;
+  label: string;
+}
+
+interface MultiSelectFilterProps<T> {
+  label: string;
+  options: FilterOption<T>[];
+  selected: T[];
+  onChange: (selected: T[]) => void;
+}
+
+const MultiSelectFilter = <T extends string | number>({ label, options, selected, onChange }: MultiSelectFilterProps<T>) => {
+  const toggle = (value: T) => {
+    onChange(selected.includes(value)
+      ? selected.filter(item => item !== value)
+      : [...selected, value]
+    );
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant={selected.length > 0 ? 'secondary' : 'outline'} size="sm">
+          {label}
+          {selected.length > 0 && ` (${selected.length})`}
+          <ChevronDown className="w-4 h-4 ml-1" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 p-2" align="start">
+        {options.length === 0 ? (
+          <p className="text-sm text-muted-foreground p-2">No values in the data</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {options.map(option => (
+              <label
+                key={String(option.value)}
+                className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm cursor-pointer hover:bg-muted"
+              >
+                <Checkbox
+                  checked={selected.includes(option.value)}
+                  onCheckedChange={() => toggle(option.value)}
+                />
+                <span className="truncate">{option.label}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+interface DateRangeFilterProps {
+  label: string;
+  from: string | null;
+  to: string | null;
+  onChange: (from: string | null, to: string | null) => void;
+}
+
+const DateRangeFilter = ({ label, from, to, onChange }: DateRangeFilterProps) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <Button variant={from || to ? 'secondary' : 'outline'} size="sm">
+        {label}
+        {(from || to) && `: ${from ?? '…'} – ${to ?? '…'}`}
+        <ChevronDown className="w-4 h-4 ml-1" />
+      </Button>
+    </PopoverTrigger>
+    <PopoverContent className="w-64 space-y-3" align="start">
+      <div className="space-y-1">
+        <Label className="text-xs">From</Label>
+        <Input
+          type="date"
+          value={from ?? ''}
+          max={to ?? undefined}
+          onChange={event => onChange(event.target.value || null, to)}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label className="text-xs">To</Label>
+        <Input
+          type="date"
+          value={to ?? ''}
+          min={from ?? undefined}
+          onChange={event => onChange(from, event.target.value || null)}
+        />
+      </div>
+    </PopoverContent>
+  </Popover>
+);
+
+interface FilterBarProps {
+  // Values that occur among all loans, so only those are offered
+  filterOptions: LoanFilterOptions;
+  totalCount: number;
+  filters: LoanFilters;
+  onChange: (filters: LoanFilters) => void;
+  matchingCount: number;
+}
+
+const FilterBar = ({ filterOptions, totalCount, filters, onChange, matchingCount }: FilterBarProps) => {
+  const { data: uploads } = useUploadSummaries();
+  const uploadNames = useMemo(
+    () => new Map((uploads ?? []).map(upload => [upload.id, upload.file_name])),
+    [uploads]
+  );
+
+  const options = useMemo(() => ({
+    versions: [...filterOptions.versions].sort().map(value => ({ value, label: value })),
+    amounts: [...filterOptions.amounts].sort((a, b) => a - b).map(value => ({ value, label: formatCurrency(value) })),
+    uploadIds: filterOptions.uploadIds.map(value => ({ value, label: uploadNames.get(value) ?? value.slice(0, 8) }))
+  }), [filterOptions, uploadNames]);
+
+  const statusOptions = (Object.keys(LOAN_STATUS_LABELS) as LoanStatus[]).map(value => ({
+    value,
+    label: LOAN_STATUS_LABELS[value]
+  }));
+
+  const activeCount = countActiveFilters(filters);
+
+  return (
+    <div className="glass-card rounded-xl p-4 mb-6 flex flex-wrap items-center gap-2">
+      <Filter className="w-4 h-4 text-muted-foreground mr-1" />
+
+      <SavedViewsMenu filters={filters} onApply={onChange} />
+
+      <DateRangeFilter
+        label="Originated"
+        from={filters.startedFrom}
+        to={filters.startedTo}
+        onChange={(startedFrom, startedTo) => onChange({ ...filters, startedFrom, startedTo })}
+      />
+      <DateRangeFilter
+        label="Due"
+        from={filters.dueFrom}
+        to={filters.dueTo}
+        onChange={(dueFrom, dueTo) => onChange({ ...filters, dueFrom, dueTo })}
+      />
+      <MultiSelectFilter
+        label="Amount"
+        options={options.amounts}
+        selected={filters.amounts}
+        onChange={amounts => onChange({ ...filters, amounts })}
+      />
+      <MultiSelectFilter
+        label="Version"
+        options={options.versions}
+        selected={filters.versions}
+        onChange={versions => onChange({ ...filters, versions })}
+      />
+      <MultiSelectFilter
+        label="Status"
+        options={statusOptions}
+        selected={filters.statuses}
+        onChange={statuses => onChange({ ...filters, statuses })}
+      />
+      <MultiSelectFilter
+        label="Upload"
+        options={options.uploadIds}
+        selected={filters.uploadIds}
+        onChange={uploadIds => onChange({ ...filters, uploadIds })}
+      />
+
+      {activeCount > 0 && (
+        <>
+          <Button variant="ghost" size="sm" onClick={() => onChange(EMPTY_LOAN_FILTERS)}>
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </Button>
+          <span className="ml-auto text-sm text-muted-foreground">
+            {matchingCount.toLocaleString()} of {totalCount.toLocaleString()} loans
+          </span>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
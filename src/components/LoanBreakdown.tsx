@@ -1,42 +1,55 @@
 
 import { motion } from "framer-motion";
-import { LoanMetrics } from "@/utils/types";
+import ExportMenu from "./ExportMenu";
+import { LoanMetrics, ProductTierMetrics } from "@/utils/types";
+import { ExportColumn } from "@/utils/tableExport";
 import { formatCurrency } from "@/utils/loanCalculations";
+import { getExpectedRepayment } from "@/utils/loanProducts";
+
+const EXPORT_COLUMNS: ExportColumn<ProductTierMetrics>[] = [
+  { header: 'Tier', value: tier => tier.name },
+  { header: 'Principal', value: tier => tier.principal },
+  { header: 'Loans', value: tier => tier.total },
+  { header: 'Repaid', value: tier => tier.repaid },
+  { header: 'In Progress', value: tier => tier.inProgress },
+  { header: 'Defaulted', value: tier => tier.defaulted },
+  { header: 'Default Rate', value: tier => tier.total > 0 ? tier.defaulted / tier.total : null },
+  { header: 'Expected Repayment', value: tier => tier.product ? getExpectedRepayment(tier.product) : null },
+  { header: 'Term Days', value: tier => tier.product?.term_days ?? null },
+];
 
 interface LoanBreakdownProps {
   metrics: LoanMetrics;
 }
 
 const LoanBreakdown = ({ metrics }: LoanBreakdownProps) => {
-  const categories = [
-    {
-      title: "$1 Loans",
-      data: metrics.oneDollarLoans,
-      total: metrics.oneDollarLoans.total,
-      repaidAmount: 1.025,
-      defaultRate: metrics.oneDollarLoans.total > 0 
-        ? ((metrics.oneDollarLoans.defaulted / metrics.oneDollarLoans.total) * 100).toFixed(1)
-        : "0.0"
-    },
-    {
-      title: "$10 Loans",
-      data: metrics.tenDollarLoans,
-      total: metrics.tenDollarLoans.total,
-      repaidAmount: 10.15,
-      defaultRate: metrics.tenDollarLoans.total > 0 
-        ? ((metrics.tenDollarLoans.defaulted / metrics.tenDollarLoans.total) * 100).toFixed(1)
-        : "0.0"
-    }
-  ];
+  const categories = metrics.tiers.map(tier => ({
+    key: tier.key,
+    title: tier.name,
+    data: tier,
+    total: tier.total,
+    // Unknown for amounts that match no configured product
+    repaidAmount: tier.product ? getExpectedRepayment(tier.product) : null,
+    termDays: tier.product?.term_days ?? null,
+    defaultRate: tier.total > 0
+      ? ((tier.defaulted / tier.total) * 100).toFixed(1)
+      : "0.0"
+  }));
 
   return (
     <div className="glass-card rounded-xl p-6">
-      <h2 className="text-lg font-medium mb-4">Loan Breakdown</h2>
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium">Loan Breakdown</h2>
+        <ExportMenu name="loan-breakdown" columns={EXPORT_COLUMNS} rows={metrics.tiers} />
+      </div>
       
       <div className="space-y-6">
+        {categories.length === 0 && (
+          <p className="text-sm text-muted-foreground">No loans to break down</p>
+        )}
         {categories.map((category, index) => (
           <motion.div 
-            key={category.title}
+            key={category.key}
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.3, delay: 0.2 + index * 0.1 }}
@@ -46,6 +59,7 @@ const LoanBreakdown = ({ metrics }: LoanBreakdownProps) => {
               <h3 className="text-base font-medium">{category.title}</h3>
               <span className="text-sm text-muted-foreground">
                 {category.total} loans
+                {category.termDays && ` · ${category.termDays} day term`}
               </span>
             </div>
             
@@ -90,9 +104,11 @@ const LoanBreakdown = ({ metrics }: LoanBreakdownProps) => {
                   <span className="text-muted-foreground">Repaid</span>
                 </div>
                 <p className="font-medium">{category.data.repaid}</p>
-                <p className="text-xs text-muted-foreground">
-                  {formatCurrency(category.repaidAmount)} or more
-                </p>
+                {category.repaidAmount !== null && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(category.repaidAmount)} or more
+                  </p>
+                )}
               </div>
               
               <div className="space-y-1">
@@ -4,7 +4,7 @@ import { motion } from 'framer-motion';
 import { BarChart, Bar, PieChart, Pie, Cell, ResponsiveContainer, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from 'recharts';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { BarChart3, PieChart as PieChartIcon } from 'lucide-react';
-import { ChartData } from '@/utils/types';
+import { ChartData, TierChartData } from '@/utils/types';
 
 interface RechartsBarData {
   name: string;
@@ -13,10 +13,7 @@ interface RechartsBarData {
 
 interface LoanChartsProps {
   statusData: ChartData[];
-  amountData: {
-    oneDollar: ChartData[];
-    tenDollar: ChartData[];
-  };
+  amountData: TierChartData[];
 }
 
 const LoanCharts = ({ statusData, amountData }: LoanChartsProps) => {
@@ -66,44 +63,35 @@ const LoanCharts = ({ statusData, amountData }: LoanChartsProps) => {
         </TabsContent>
         
         <TabsContent value="amount">
-          <Tabs defaultValue="one">
-            <TabsList className="mb-4">
-              <TabsTrigger value="one">$1 Loans</TabsTrigger>
-              <TabsTrigger value="ten">$10 Loans</TabsTrigger>
-            </TabsList>
-            
-            <TabsContent value="one">
-              <motion.div
-                key={`one-${chartType}`}
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ duration: 0.3 }}
-                className="h-[300px] w-full"
-              >
-                {chartType === 'bar' ? (
-                  <AmountBarChart data={amountData.oneDollar} title="$1 Loans" />
-                ) : (
-                  <AmountPieChart data={amountData.oneDollar} title="$1 Loans" />
-                )}
-              </motion.div>
-            </TabsContent>
-            
-            <TabsContent value="ten">
-              <motion.div
-                key={`ten-${chartType}`}
-                initial={{ opacity: 0 }}
-                animate={{ opacity: 1 }}
-                transition={{ duration: 0.3 }}
-                className="h-[300px] w-full"
-              >
-                {chartType === 'bar' ? (
-                  <AmountBarChart data={amountData.tenDollar} title="$10 Loans" />
-                ) : (
-                  <AmountPieChart data={amountData.tenDollar} title="$10 Loans" />
-                )}
-              </motion.div>
-            </TabsContent>
-          </Tabs>
+          {amountData.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-10">No loans to chart</p>
+          ) : (
+            <Tabs defaultValue={amountData[0].key}>
+              <TabsList className="mb-4 flex-wrap h-auto">
+                {amountData.map(tier => (
+                  <TabsTrigger key={tier.key} value={tier.key}>{tier.title}</TabsTrigger>
+                ))}
+              </TabsList>
+
+              {amountData.map(tier => (
+                <TabsContent key={tier.key} value={tier.key}>
+                  <motion.div
+                    key={`${tier.key}-${chartType}`}
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    transition={{ duration: 0.3 }}
+                    className="h-[300px] w-full"
+                  >
+                    {chartType === 'bar' ? (
+                      <AmountBarChart data={tier.data} title={tier.title} />
+                    ) : (
+                      <AmountPieChart data={tier.data} title={tier.title} />
+                    )}
+                  </motion.div>
+                </TabsContent>
+              ))}
+            </Tabs>
+          )}
         </TabsContent>
       </Tabs>
     </div>
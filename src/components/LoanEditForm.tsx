@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { format, isValid } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoanData, LoanEdit } from '@/utils/types';
+import { getLoanRepository } from '@/utils/loanRepository';
+import { useInvalidateLoanData } from '@/hooks/use-loan-queries';
+
+interface LoanEditFormProps {
+  loan: LoanData;
+  onSaved: (loan: LoanData) => void;
+  onCancel: () => void;
+}
+
+type TimestampField = 'time_loan_started' | 'time_loan_ended' | 'default_loan_date';
+
+const TIMESTAMP_FIELDS: { field: TimestampField; label: string; required: boolean }[] = [
+  { field: 'time_loan_started', label: 'Started', required: true },
+  { field: 'time_loan_ended', label: 'Ended', required: false },
+  { field: 'default_loan_date', label: 'Default date', required: false },
+];
+
+// datetime-local inputs work in the browser's time zone, stored timestamps are UTC
+const toInputValue = (value: string | null | undefined): string => {
+  const date = value ? new Date(value) : null;
+  return date && isValid(date) ? format(date, "yyyy-MM-dd'T'HH:mm") : '';
+};
+
+const fromInputValue = (value: string): string | null => value ? new Date(value).toISOString() : null;
+
+const readForm = (loan: LoanData) => ({
+  loan_repaid_amount: loan.loan_repaid_amount === null || loan.loan_repaid_amount === undefined
+    ? ''
+    : String(loan.loan_repaid_amount),
+  loan_term: String(loan.loan_term),
+  time_loan_started: toInputValue(loan.time_loan_started),
+  time_loan_ended: toInputValue(loan.time_loan_ended),
+  default_loan_date: toInputValue(loan.default_loan_date),
+  is_defaulted: loan.is_defaulted,
+});
+
+// Corrects the fields an upload would otherwise set. Only the fields that
+// were changed are sent, the database records each one in the loan's history.
+const LoanEditForm = ({ loan, onSaved, onCancel }: LoanEditFormProps) => {
+  const invalidateLoanData = useInvalidateLoanData();
+  const [initial] = useState(() => readForm(loan));
+  const [values, setValues] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const repaid = values.loan_repaid_amount.trim() === '' ? null : Number(values.loan_repaid_amount);
+  const term = Number(values.loan_term);
+  const error =
+    repaid !== null && (isNaN(repaid) || repaid < 0) ? "The repaid amount must be zero or more." :
+    !Number.isInteger(term) || term <= 0 ? "The loan term must be a whole number of days." :
+    !values.time_loan_started ? "The start date is required." :
+    null;
+
+  const handleSubmit = async () => {
+    if (error || !loan.id) return;
+
+    const changes: LoanEdit = {};
+    if (values.loan_repaid_amount !== initial.loan_repaid_amount) changes.loan_repaid_amount = repaid;
+    if (values.loan_term !== initial.loan_term) changes.loan_term = term;
+    TIMESTAMP_FIELDS.forEach(({ field }) => {
+      if (values[field] !== initial[field]) changes[field] = fromInputValue(values[field]);
+    });
+    if (values.is_defaulted !== initial.is_defaulted) changes.is_defaulted = values.is_defaulted;
+
+    if (Object.keys(changes).length === 0) {
+      onCancel();
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const updated = await getLoanRepository().updateLoan(loan.id, changes);
+      toast.success("Loan updated");
+      invalidateLoanData();
+      onSaved(updated);
+    } catch (error) {
+      console.error("Error updating loan:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update the loan");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      className="space-y-4"
+      onSubmit={event => {
+        event.preventDefault();
+        handleSubmit();
+      }}
+    >
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="loan-repaid-amount">Repaid amount</Label>
+          <Input
+            id="loan-repaid-amount"
+            type="number"
+            min={0}
+            step="any"
+            value={values.loan_repaid_amount}
+            onChange={event => setValues({ ...values, loan_repaid_amount: event.target.value })}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="loan-term">Loan term (days)</Label>
+          <Input
+            id="loan-term"
+            type="number"
+            min={1}
+            step={1}
+            value={values.loan_term}
+            onChange={event => setValues({ ...values, loan_term: event.target.value })}
+          />
+        </div>
+      </div>
+
+      {TIMESTAMP_FIELDS.map(({ field, label, required }) => (
+        <div key={field} className="space-y-1">
+          <Label htmlFor={`loan-${field}`}>{label}</Label>
+          <Input
+            id={`loan-${field}`}
+            type="datetime-local"
+            required={required}
+            value={values[field]}
+            onChange={event => setValues({ ...values, [field]: event.target.value })}
+          />
+        </div>
+      ))}
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <Checkbox
+          checked={values.is_defaulted}
+          onCheckedChange={checked => setValues({ ...values, is_defaulted: checked === true })}
+        />
+        Defaulted
+      </label>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving || !!error}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save changes
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default LoanEditForm;
@@ -0,0 +1,194 @@
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import LoanTimeline from '@/components/LoanTimeline';
+import WalletLink from '@/components/WalletLink';
+import ExportMenu from '@/components/ExportMenu';
+import { LoanData } from '@/utils/types';
+import { ExportColumn, toISODate } from '@/utils/tableExport';
+import { 
+  formatCurrency, 
+  formatDate, 
+  getDaysRemaining 
+} from '@/utils/loanCalculations';
+
+// Mirrors the rendered columns
+const EXPORT_COLUMNS: ExportColumn<LoanData>[] = [
+  { header: 'Wallet', value: loan => loan.user_wallet },
+  { header: 'Amount', value: loan => loan.loan_amount },
+  { header: 'Repaid', value: loan => loan.loan_repaid_amount ?? null },
+  { header: 'Due Date', value: loan => toISODate(loan.loan_due_date) },
+  { header: 'Days Left', value: loan => getDaysRemaining(loan.loan_due_date) },
+];
+
+interface LoanTableProps {
+  loans: LoanData[];
+  emptyMessage?: string;
+  exportName?: string;
+}
+
+const LoanTable = ({ loans, emptyMessage = 'No loans due in this timeframe', exportName = 'loans' }: LoanTableProps) => {
+  const [selectedLoan, setSelectedLoan] = useState<LoanData | null>(null);
+  const [sortConfig, setSortConfig] = useState<{
+    key: keyof LoanData | 'daysRemaining';
+    direction: 'asc' | 'desc';
+  }>({
+    key: 'loan_due_date',
+    direction: 'asc',
+  });
+
+  const requestSort = (key: keyof LoanData | 'daysRemaining') => {
+    let direction: 'asc' | 'desc' = 'asc';
+    if (sortConfig.key === key && sortConfig.direction === 'asc') {
+      direction = 'desc';
+    }
+    setSortConfig({ key, direction });
+  };
+
+  const sortedLoans = [...loans].sort((a, b) => {
+    if (sortConfig.key === 'daysRemaining') {
+      const daysA = getDaysRemaining(a.loan_due_date);
+      const daysB = getDaysRemaining(b.loan_due_date);
+      return sortConfig.direction === 'asc' ? daysA - daysB : daysB - daysA;
+    }
+    
+    if (sortConfig.key === 'loan_amount' || sortConfig.key === 'loan_repaid_amount') {
+      return sortConfig.direction === 'asc'
+        ? a[sortConfig.key] - b[sortConfig.key]
+        : b[sortConfig.key] - a[sortConfig.key];
+    }
+    
+    if (sortConfig.key === 'loan_due_date') {
+      return sortConfig.direction === 'asc'
+        ? new Date(a[sortConfig.key]).getTime() - new Date(b[sortConfig.key]).getTime()
+        : new Date(b[sortConfig.key]).getTime() - new Date(a[sortConfig.key]).getTime();
+    }
+    
+    return 0;
+  });
+
+  const getSortIcon = (key: keyof LoanData | 'daysRemaining') => {
+    if (sortConfig.key !== key) return null;
+    return sortConfig.direction === 'asc' ? <ChevronUp size={14} /> : <ChevronDown size={14} />;
+  };
+
+  if (loans.length === 0) {
+    return (
+      <div className="text-center py-10">
+        <p className="text-muted-foreground">{emptyMessage}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto -mx-6 px-6">
+      <div className="flex justify-end mb-2">
+        <ExportMenu name={exportName} columns={EXPORT_COLUMNS} rows={sortedLoans} />
+      </div>
+
+      <motion.table
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.3 }}
+        className="w-full loans-table"
+      >
+        <thead>
+          <tr>
+            <th
+              className="text-left cursor-pointer"
+              onClick={() => requestSort('user_wallet')}
+            >
+              <div className="flex items-center gap-1">
+                Wallet
+                {getSortIcon('user_wallet')}
+              </div>
+            </th>
+            <th
+              className="text-right cursor-pointer"
+              onClick={() => requestSort('loan_amount')}
+            >
+              <div className="flex items-center justify-end gap-1">
+                Amount
+                {getSortIcon('loan_amount')}
+              </div>
+            </th>
+            <th
+              className="text-right cursor-pointer"
+              onClick={() => requestSort('loan_repaid_amount')}
+            >
+              <div className="flex items-center justify-end gap-1">
+                Repaid
+                {getSortIcon('loan_repaid_amount')}
+              </div>
+            </th>
+            <th
+              className="text-center cursor-pointer"
+              onClick={() => requestSort('loan_due_date')}
+            >
+              <div className="flex items-center justify-center gap-1">
+                Due Date
+                {getSortIcon('loan_due_date')}
+              </div>
+            </th>
+            <th
+              className="text-center cursor-pointer"
+              onClick={() => requestSort('daysRemaining')}
+            >
+              <div className="flex items-center justify-center gap-1">
+                Days Left
+                {getSortIcon('daysRemaining')}
+              </div>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {sortedLoans.map((loan, index) => {
+            const daysRemaining = getDaysRemaining(loan.loan_due_date);
+            const isUrgent = daysRemaining <= 3;
+            
+            return (
+              <motion.tr
+                key={`${loan.user_wallet}_${index}`}
+                initial={{ opacity: 0, y: 5 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.2, delay: index * 0.03 }}
+                className="cursor-pointer"
+                onClick={() => setSelectedLoan(loan)}
+              >
+                <td className="text-left">
+                  <div className="flex items-center">
+                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center mr-2">
+                      {loan.user_wallet.substring(0, 2)}
+                    </div>
+                    <WalletLink wallet={loan.user_wallet} className="block text-sm truncate max-w-[120px]" />
+                  </div>
+                </td>
+                <td className="text-right">
+                  {formatCurrency(loan.loan_amount)}
+                </td>
+                <td className="text-right">
+                  {formatCurrency(loan.loan_repaid_amount)}
+                </td>
+                <td className="text-center">
+                  {formatDate(loan.loan_due_date)}
+                </td>
+                <td className="text-center">
+                  <span className={`inline-flex items-center justify-center px-2 py-1 rounded-full text-xs font-medium ${
+                    isUrgent ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'
+                  }`}>
+                    {daysRemaining} {daysRemaining === 1 ? 'day' : 'days'}
+                  </span>
+                </td>
+              </motion.tr>
+            );
+          })}
+        </tbody>
+      </motion.table>
+
+      <LoanTimeline loan={selectedLoan} onClose={() => setSelectedLoan(null)} />
+    </div>
+  );
+};
+
+export default LoanTable;
@@ -0,0 +1,134 @@
+
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import {
+  Bar,
+  Brush,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import ToggleButtons from '@/components/ToggleButtons';
+import ExportMenu from '@/components/ExportMenu';
+import { TimeGranularity, TimeSeriesPoint } from '@/utils/types';
+import { ExportColumn } from '@/utils/tableExport';
+import { formatCurrency } from '@/utils/loanCalculations';
+
+type SeriesMeasure = 'count' | 'volume';
+
+const GRANULARITIES: { value: TimeGranularity; label: string }[] = [
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' }
+];
+
+const MEASURES: { value: SeriesMeasure; label: string }[] = [
+  { value: 'count', label: 'Count' },
+  { value: 'volume', label: 'Volume' }
+];
+
+const SERIES = [
+  { name: 'Originations', count: 'originations', volume: 'originationVolume', color: '#3B82F6' },
+  { name: 'Repayments', count: 'repayments', volume: 'repaymentVolume', color: '#22C55E' },
+  { name: 'Defaults', count: 'defaults', volume: 'defaultVolume', color: '#EF4444' }
+] as const;
+
+interface LoanTimeSeriesChartProps {
+  series: Record<TimeGranularity, TimeSeriesPoint[]>;
+}
+
+const LoanTimeSeriesChart = ({ series: seriesByGranularity }: LoanTimeSeriesChartProps) => {
+  const [granularity, setGranularity] = useState<TimeGranularity>('week');
+  const [measure, setMeasure] = useState<SeriesMeasure>('count');
+
+  const series = seriesByGranularity[granularity];
+
+  const exportColumns = useMemo<ExportColumn<TimeSeriesPoint>[]>(() => [
+    { header: 'Period', value: point => point.period },
+    ...SERIES.map(item => ({
+      header: measure === 'volume' ? `${item.name} Volume` : item.name,
+      value: (point: TimeSeriesPoint) => point[item[measure]]
+    })),
+    { header: 'Outstanding Principal', value: point => point.outstandingPrincipal }
+  ], [measure]);
+
+  const formatValue = (value: number) => measure === 'volume' ? formatCurrency(value) : value.toLocaleString();
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-medium">Activity Over Time</h2>
+
+        <div className="flex flex-wrap gap-4">
+          <ToggleButtons<TimeGranularity> options={GRANULARITIES} value={granularity} onChange={setGranularity} />
+          <ToggleButtons<SeriesMeasure> options={MEASURES} value={measure} onChange={setMeasure} />
+          <ExportMenu name={`activity-${granularity}`} columns={exportColumns} rows={series} />
+        </div>
+      </div>
+
+      {series.length === 0 ? (
+        <div className="text-center py-10">
+          <p className="text-muted-foreground">No dated loan activity to chart</p>
+        </div>
+      ) : (
+        <motion.div
+          key={`${granularity}-${measure}`}
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          transition={{ duration: 0.3 }}
+          className="h-[400px] w-full"
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={series} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.05)" />
+              <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+              <YAxis yAxisId="activity" tick={{ fontSize: 12 }} tickFormatter={formatValue} />
+              <YAxis
+                yAxisId="outstanding"
+                orientation="right"
+                tick={{ fontSize: 12 }}
+                tickFormatter={value => formatCurrency(value)}
+              />
+              <Tooltip
+                formatter={(value: number, name: string) =>
+                  name === 'Outstanding principal' ? formatCurrency(value) : formatValue(value)
+                }
+              />
+              <Legend />
+
+              {SERIES.map(item => (
+                <Bar
+                  key={item.name}
+                  yAxisId="activity"
+                  dataKey={item[measure]}
+                  name={item.name}
+                  fill={item.color}
+                  radius={[4, 4, 0, 0]}
+                />
+              ))}
+
+              <Line
+                yAxisId="outstanding"
+                type="monotone"
+                dataKey="outstandingPrincipal"
+                name="Outstanding principal"
+                stroke="#8B5CF6"
+                strokeWidth={2}
+                dot={false}
+              />
+
+              <Brush dataKey="label" height={24} stroke="#3B82F6" travellerWidth={8} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </motion.div>
+      )}
+    </div>
+  );
+};
+
+export default LoanTimeSeriesChart;
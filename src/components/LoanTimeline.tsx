@@ -0,0 +1,164 @@
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Loader2, AlertCircle, Pencil } from 'lucide-react';
+import LoanEditForm from '@/components/LoanEditForm';
+import WalletLink from '@/components/WalletLink';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { LoanData, LoanEvent } from '@/utils/types';
+import { formatCurrency, formatDate } from '@/utils/loanCalculations';
+import { useLoanEvents } from '@/hooks/use-loan-queries';
+import { usePermission } from '@/hooks/use-auth';
+import { getLoanRepository } from '@/utils/loanRepository';
+
+const FIELD_LABELS: Record<string, string> = {
+  loan_repaid_amount: 'Repaid amount',
+  loan_term: 'Loan term',
+  time_loan_started: 'Started',
+  time_loan_ended: 'Ended',
+  default_loan_date: 'Default date',
+  is_defaulted: 'Defaulted',
+  version: 'Version',
+};
+
+const formatFieldValue = (field: string | null, value: unknown): string => {
+  if (value === null || value === undefined) return 'empty';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field === 'loan_repaid_amount' && typeof value === 'number') return formatCurrency(value);
+  if (field && (field.startsWith('time_') || field.endsWith('_date')) && typeof value === 'string') {
+    return formatDate(value);
+  }
+  return String(value);
+};
+
+const describeEvent = (event: LoanEvent): string => {
+  if (event.event_type === 'created') {
+    return event.source === 'rollback' ? 'Loan restored' : 'Loan created';
+  }
+  if (event.event_type === 'deleted') {
+    return event.source === 'rollback' ? 'Loan removed by rollback' : 'Loan deleted';
+  }
+  const label = event.field ? FIELD_LABELS[event.field] ?? event.field : 'Field';
+  return `${label}: ${formatFieldValue(event.field, event.old_value)} → ${formatFieldValue(event.field, event.new_value)}`;
+};
+
+interface LoanTimelineProps {
+  loan: LoanData | null;
+  onClose: () => void;
+}
+
+// Operators can correct the loan from here. Loans built from an upload that
+// is not stored yet have no id and cannot be edited.
+const LoanTimeline = ({ loan, onClose }: LoanTimelineProps) => {
+  const { data: events = [], isLoading, isError } = useLoanEvents(loan);
+  const loadError = isError ? "Failed to load the history of this loan." : null;
+  const canEdit = usePermission('editLoans');
+  const [isEditing, setIsEditing] = useState(false);
+  // The caller still holds the loan as it was before an edit
+  const [edited, setEdited] = useState<LoanData | null>(null);
+  const current = edited && loan && edited.id === loan.id ? edited : loan;
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    setIsEditing(false);
+    setEdited(null);
+    onClose();
+  };
+
+  return (
+    <Sheet open={loan !== null} onOpenChange={handleOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{isEditing ? 'Edit Loan' : 'Loan History'}</SheetTitle>
+          {current && (
+            <SheetDescription className="break-all">
+              {formatCurrency(current.loan_amount)} to <WalletLink wallet={current.user_wallet} />, due {formatDate(current.loan_due_date)}
+            </SheetDescription>
+          )}
+          {canEdit && current?.id && !isEditing && (
+            <div>
+              <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit loan
+              </Button>
+            </div>
+          )}
+        </SheetHeader>
+
+        <div className="mt-6">
+          {isEditing && current ? (
+            <LoanEditForm
+              key={current.id}
+              loan={current}
+              onSaved={updated => {
+                setEdited(updated);
+                setIsEditing(false);
+              }}
+              onCancel={() => setIsEditing(false)}
+            />
+          ) : getLoanRepository().isLocal ? (
+            <p className="text-sm text-muted-foreground text-center py-10">
+              Loan history is only recorded in the database
+            </p>
+          ) : isLoading ? (
+            <div className="flex flex-col items-center justify-center h-32">
+              <Loader2 className="w-8 h-8 text-primary animate-spin mb-2" />
+              <p className="text-sm text-muted-foreground">Loading history...</p>
+            </div>
+          ) : loadError ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{loadError}</AlertDescription>
+            </Alert>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-10">
+              No recorded changes for this loan
+            </p>
+          ) : (
+            <ol className="relative border-l border-border ml-2 space-y-6">
+              {events.map(event => (
+                <li key={event.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary" />
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(event.created_at), 'MMM d, yyyy - h:mm a')}
+                    {event.actor && ` by ${event.actor}`}
+                  </p>
+                  <p className="text-sm font-medium mt-1">{describeEvent(event)}</p>
+                  {event.source === 'edit' && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      <Badge variant="secondary">Edited</Badge>
+                    </p>
+                  )}
+                  {event.file_upload_id && (
+                    <p className="text-xs text-muted-foreground mt-1 flex items-center gap-2">
+                      {event.source === 'rollback' && <Badge variant="secondary">Rollback</Badge>}
+                      {event.file_name ? (
+                        <Link to={`/uploads/${event.file_upload_id}`} className="text-primary hover:text-primary/80">
+                          {event.file_name}
+                        </Link>
+                      ) : (
+                        <span>Deleted upload</span>
+                      )}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default LoanTimeline;
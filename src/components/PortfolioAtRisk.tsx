@@ -0,0 +1,116 @@
+
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { AlertTriangle } from 'lucide-react';
+import KPICard from './KPICard';
+import ToggleButtons from './ToggleButtons';
+import ExportMenu from './ExportMenu';
+import { CohortGranularity, PARRatio, PARSnapshot } from '@/utils/types';
+import { ExportColumn } from '@/utils/tableExport';
+import { PAR_THRESHOLDS } from '@/utils/delinquency';
+import { formatCurrency } from '@/utils/loanCalculations';
+
+const GRANULARITIES: { value: CohortGranularity; label: string }[] = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' }
+];
+
+const PAR_COLORS: Record<string, string> = {
+  par1: '#FACC15',
+  par7: '#F59E0B',
+  par30: '#F97316',
+  par60: '#EF4444',
+  par90: '#991B1B'
+};
+
+const EXPORT_COLUMNS: ExportColumn<PARSnapshot>[] = [
+  { header: 'Period', value: snapshot => snapshot.period },
+  { header: 'Outstanding Principal', value: snapshot => snapshot.outstandingPrincipal },
+  ...PAR_THRESHOLDS.map(threshold => ({
+    header: threshold.label,
+    value: (snapshot: PARSnapshot) => snapshot.ratios[threshold.key] ?? null
+  }))
+];
+
+const formatRatio = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+interface PortfolioAtRiskProps {
+  current: { outstandingPrincipal: number; ratios: PARRatio[] };
+  trends: Record<CohortGranularity, PARSnapshot[]>;
+}
+
+const PortfolioAtRisk = ({ current, trends }: PortfolioAtRiskProps) => {
+  const [granularity, setGranularity] = useState<CohortGranularity>('week');
+  const trend = trends[granularity];
+
+  // LineChart wants flat rows, ratios as percentages
+  const chartData = useMemo(() => trend.map(snapshot => ({
+    label: snapshot.label,
+    ...Object.fromEntries(Object.entries(snapshot.ratios).map(([key, ratio]) => [key, ratio * 100]))
+  })), [trend]);
+
+  return (
+    <>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-6 mb-8">
+        {current.ratios.map((ratio, index) => (
+          <KPICard
+            key={ratio.key}
+            title={ratio.label}
+            value={formatRatio(ratio.ratio)}
+            description={`${formatCurrency(ratio.principal)} of ${formatCurrency(current.outstandingPrincipal)} outstanding`}
+            icon={index === 0 ? <AlertTriangle size={20} /> : undefined}
+            index={index}
+          />
+        ))}
+      </div>
+
+      <div className="glass-card rounded-xl p-6 mb-8">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+          <h2 className="text-lg font-medium">Portfolio at Risk Over Time</h2>
+          <div className="flex flex-wrap gap-4">
+            <ToggleButtons<CohortGranularity> options={GRANULARITIES} value={granularity} onChange={setGranularity} />
+            <ExportMenu name={`portfolio-at-risk-${granularity}`} columns={EXPORT_COLUMNS} rows={trend} />
+          </div>
+        </div>
+
+        {chartData.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-muted-foreground">No dated loans to measure</p>
+          </div>
+        ) : (
+          <motion.div
+            key={granularity}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.3 }}
+            className="h-[300px] w-full"
+          >
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.05)" />
+                <XAxis dataKey="label" tick={{ fontSize: 12 }} minTickGap={24} />
+                <YAxis tick={{ fontSize: 12 }} tickFormatter={value => `${value}%`} />
+                <Tooltip formatter={(value: number) => `${value.toFixed(1)}%`} />
+                <Legend />
+                {PAR_THRESHOLDS.map(threshold => (
+                  <Line
+                    key={threshold.key}
+                    type="monotone"
+                    dataKey={threshold.key}
+                    name={threshold.label}
+                    stroke={PAR_COLORS[threshold.key]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </motion.div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default PortfolioAtRisk;
@@ -0,0 +1,203 @@
+
+import { format } from 'date-fns';
+import { Bar, BarChart, CartesianGrid, Cell, Legend, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import { PortfolioReport, ReportHeaderConfig } from '@/utils/types';
+import { formatCurrency, formatDate } from '@/utils/loanCalculations';
+import { getDaysPastDue } from '@/utils/delinquency';
+import { formatReportPeriod } from '@/utils/portfolioReport';
+
+// Fixed sizes so charts lay out the same on screen and on A4 paper
+const CHART_WIDTH = 680;
+const CHART_HEIGHT = 240;
+// Past this the list stops being useful on paper
+const MAX_EXPIRED_ROWS = 1000;
+
+const formatRate = (part: number, total: number) => total > 0 ? `${((part / total) * 100).toFixed(1)}%` : '-';
+
+interface ReportSectionProps {
+  title: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const ReportSection = ({ title, className = '', children }: ReportSectionProps) => (
+  <section className={`mb-8 break-inside-avoid ${className}`}>
+    <h2 className="text-lg font-semibold border-b border-gray-300 pb-1 mb-3">{title}</h2>
+    {children}
+  </section>
+);
+
+interface PortfolioReportViewProps {
+  report: PortfolioReport;
+  header: ReportHeaderConfig;
+}
+
+const PortfolioReportView = ({ report, header }: PortfolioReportViewProps) => {
+  const { metrics, par } = report;
+  const par30 = par.ratios.find(ratio => ratio.key === 'par30');
+  const expiredRows = report.expiredLoans.slice(0, MAX_EXPIRED_ROWS);
+
+  const kpis = [
+    { label: 'Loans Originated', value: metrics.totalLoans.toLocaleString(), note: formatCurrency(metrics.totalPrincipal) },
+    { label: 'Repaid', value: metrics.totalRepaid.toLocaleString(), note: `${formatRate(metrics.totalRepaid, metrics.totalLoans)} repayment rate` },
+    { label: 'Defaulted', value: metrics.totalDefaulted.toLocaleString(), note: `${formatRate(metrics.totalDefaulted, metrics.totalLoans)} default rate` },
+    { label: 'In Progress', value: metrics.totalInProgress.toLocaleString(), note: `${formatCurrency(par.outstandingPrincipal)} outstanding` },
+    { label: 'PAR 30', value: par30 ? `${(par30.ratio * 100).toFixed(1)}%` : '-', note: par30 ? `${formatCurrency(par30.principal)} at risk` : '' },
+    { label: 'Past Due', value: report.expiredLoans.length.toLocaleString(), note: 'Neither repaid nor defaulted' },
+  ];
+
+  return (
+    <article className="mx-auto w-full max-w-[794px] bg-white text-gray-900 p-10 shadow-lg print:max-w-none print:p-0 print:shadow-none">
+      <header className="flex items-center justify-between gap-6 border-b-2 border-gray-900 pb-4 mb-6">
+        {header.logoDataUrl ? (
+          <img src={header.logoDataUrl} alt="" className="h-14 max-w-[200px] object-contain" />
+        ) : <div />}
+        <div className="text-right">
+          <h1 className="text-2xl font-bold">{header.title || 'Portfolio Report'}</h1>
+          <p className="text-sm">{header.periodLabel || formatReportPeriod(report.from, report.to)}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            Loans originated {formatReportPeriod(report.from, report.to)}, delinquency as of {format(report.asOf, 'MMM d, yyyy')}.
+            Generated {format(new Date(), 'MMM d, yyyy - h:mm a')}.
+          </p>
+        </div>
+      </header>
+
+      {report.loanCount === 0 ? (
+        <p className="text-center text-gray-500 py-10">No loans were originated in this period.</p>
+      ) : (
+        <>
+          <ReportSection title="Summary">
+            <div className="grid grid-cols-3 gap-3">
+              {kpis.map(kpi => (
+                <div key={kpi.label} className="border border-gray-300 rounded-md p-3">
+                  <p className="text-xs text-gray-500">{kpi.label}</p>
+                  <p className="text-xl font-semibold">{kpi.value}</p>
+                  <p className="text-xs text-gray-500">{kpi.note}</p>
+                </div>
+              ))}
+            </div>
+          </ReportSection>
+
+          <ReportSection title="Tier Breakdown">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-300 text-left text-gray-500">
+                  <th className="py-1">Tier</th>
+                  <th className="py-1 text-right">Loans</th>
+                  <th className="py-1 text-right">Repaid</th>
+                  <th className="py-1 text-right">In Progress</th>
+                  <th className="py-1 text-right">Defaulted</th>
+                  <th className="py-1 text-right">Default Rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {metrics.tiers.map(tier => (
+                  <tr key={tier.key} className="border-b border-gray-200">
+                    <td className="py-1">{tier.name}</td>
+                    <td className="py-1 text-right">{tier.total.toLocaleString()}</td>
+                    <td className="py-1 text-right">{tier.repaid.toLocaleString()}</td>
+                    <td className="py-1 text-right">{tier.inProgress.toLocaleString()}</td>
+                    <td className="py-1 text-right">{tier.defaulted.toLocaleString()}</td>
+                    <td className="py-1 text-right">{formatRate(tier.defaulted, tier.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ReportSection>
+
+          <ReportSection title="Loan Status">
+            <PieChart width={CHART_WIDTH} height={CHART_HEIGHT}>
+              <Pie
+                data={report.statusChart}
+                dataKey="value"
+                nameKey="name"
+                cx="50%"
+                cy="50%"
+                outerRadius={90}
+                isAnimationActive={false}
+                label={({ name, value }) => `${name}: ${value.toLocaleString()}`}
+              >
+                {report.statusChart.map(entry => (
+                  <Cell key={entry.name} fill={entry.color} />
+                ))}
+              </Pie>
+            </PieChart>
+          </ReportSection>
+
+          <ReportSection title="Activity">
+            <BarChart width={CHART_WIDTH} height={CHART_HEIGHT} data={report.activity}>
+              <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.1)" />
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} minTickGap={16} />
+              <YAxis tick={{ fontSize: 10 }} />
+              <Legend />
+              <Bar dataKey="originations" name="Originations" fill="#3B82F6" isAnimationActive={false} />
+              <Bar dataKey="repayments" name="Repayments" fill="#22C55E" isAnimationActive={false} />
+              <Bar dataKey="defaults" name="Defaults" fill="#EF4444" isAnimationActive={false} />
+            </BarChart>
+          </ReportSection>
+
+          <ReportSection title="Delinquency Aging">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-300 text-left text-gray-500">
+                  <th className="py-1">Days Past Due</th>
+                  <th className="py-1 text-right">Loans</th>
+                  <th className="py-1 text-right">Principal</th>
+                  <th className="py-1 text-right">Share of Outstanding</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.agingBuckets.map(bucket => (
+                  <tr key={bucket.key} className="border-b border-gray-200">
+                    <td className="py-1">{bucket.label}</td>
+                    <td className="py-1 text-right">{bucket.count.toLocaleString()}</td>
+                    <td className="py-1 text-right">{formatCurrency(bucket.principal)}</td>
+                    <td className="py-1 text-right">{formatRate(bucket.principal, par.outstandingPrincipal)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ReportSection>
+
+          <section className="break-before-page">
+            <h2 className="text-lg font-semibold border-b border-gray-300 pb-1 mb-3">
+              Expired Loans
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                {report.expiredLoans.length.toLocaleString()} loans
+                {report.expiredLoans.length > MAX_EXPIRED_ROWS && `, showing the ${MAX_EXPIRED_ROWS} most overdue`}
+              </span>
+            </h2>
+            {expiredRows.length === 0 ? (
+              <p className="text-sm text-gray-500">No loans are past due.</p>
+            ) : (
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-gray-300 text-left text-gray-500">
+                    <th className="py-1">Wallet</th>
+                    <th className="py-1 text-right">Amount</th>
+                    <th className="py-1 text-right">Repaid</th>
+                    <th className="py-1 text-center">Due Date</th>
+                    <th className="py-1 text-right">Days Past Due</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {expiredRows.map((loan, index) => (
+                    <tr key={`${loan.user_wallet}_${index}`} className="border-b border-gray-200 break-inside-avoid">
+                      <td className="py-1 font-mono break-all">{loan.user_wallet}</td>
+                      <td className="py-1 text-right">{formatCurrency(loan.loan_amount)}</td>
+                      <td className="py-1 text-right">{formatCurrency(loan.loan_repaid_amount)}</td>
+                      <td className="py-1 text-center">{formatDate(loan.loan_due_date)}</td>
+                      <td className="py-1 text-right">{getDaysPastDue(loan, report.asOf)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </section>
+        </>
+      )}
+    </article>
+  );
+};
+
+export default PortfolioReportView;
@@ -0,0 +1,29 @@
+import { Loader2 } from 'lucide-react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { useSession } from '@/hooks/use-auth';
+import { getLoanRepository } from '@/utils/loanRepository';
+
+// Wraps every route that shows loan data. Signed-out users are sent to the
+// sign-in page, which brings them back here afterwards.
+const ProtectedRoute = () => {
+  const { session, isLoading } = useSession();
+  const location = useLocation();
+
+  if (getLoanRepository().isLocal) return <Outlet />;
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-10 h-10 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+};
+
+export default ProtectedRoute;
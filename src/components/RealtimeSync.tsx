@@ -0,0 +1,13 @@
+import { useRealtimeSync } from '@/hooks/use-realtime-sync';
+import { useSession } from '@/hooks/use-auth';
+
+// Keeps cached loans and uploads in step with the database, mounted once for
+// the whole app. Row-level security hides every change from signed-out users,
+// the channel is opened per signed-in user.
+const RealtimeSync = () => {
+  const { session } = useSession();
+  useRealtimeSync(session?.user.id);
+  return null;
+};
+
+export default RealtimeSync;
@@ -0,0 +1,87 @@
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RollRateFromState, RollRateMatrix, RollRateToState } from '@/utils/types';
+import {
+  ROLL_RATE_FROM_STATES,
+  ROLL_RATE_STATE_LABELS,
+  ROLL_RATE_TO_STATES
+} from '@/utils/rollRates';
+import { formatCurrency } from '@/utils/loanCalculations';
+
+export interface RollRateSelection {
+  from: RollRateFromState;
+  to: RollRateToState;
+}
+
+interface RollRateMatrixViewProps {
+  matrix: RollRateMatrix;
+  fromLabel: string;
+  toLabel: string;
+  selected: RollRateSelection | null;
+  onSelect: (selection: RollRateSelection) => void;
+}
+
+const RollRateMatrixView = ({ matrix, fromLabel, toLabel, selected, onSelect }: RollRateMatrixViewProps) => (
+  <div className="overflow-x-auto -mx-6 px-6">
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="whitespace-nowrap">{fromLabel} ↓ / {toLabel} →</TableHead>
+          {ROLL_RATE_TO_STATES.map(to => (
+            <TableHead key={to} className="text-center">{ROLL_RATE_STATE_LABELS[to]}</TableHead>
+          ))}
+          <TableHead className="text-right">Total</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {ROLL_RATE_FROM_STATES.map(from => {
+          const total = matrix.fromTotals[from];
+
+          return (
+            <TableRow key={from}>
+              <TableCell className="font-medium">{ROLL_RATE_STATE_LABELS[from]}</TableCell>
+              {ROLL_RATE_TO_STATES.map(to => {
+                const cell = matrix.cells[from][to];
+                const share = total.count > 0 ? cell.count / total.count : 0;
+                const isSelected = selected?.from === from && selected?.to === to;
+
+                return (
+                  <TableCell key={to} className="p-1">
+                    <button
+                      onClick={() => onSelect({ from, to })}
+                      disabled={cell.count === 0}
+                      className={`w-full rounded-md px-2 py-1 text-center transition-colors ${
+                        isSelected ? 'ring-2 ring-primary' : ''
+                      } ${cell.count === 0 ? 'text-muted-foreground cursor-default' : 'hover:bg-muted'}`}
+                      style={cell.count > 0 ? { backgroundColor: `rgba(59, 130, 246, ${0.05 + share * 0.4})` } : undefined}
+                    >
+                      <div className="font-medium">{cell.count.toLocaleString()}</div>
+                      {cell.count > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {(share * 100).toFixed(1)}% · {formatCurrency(cell.principal)}
+                        </div>
+                      )}
+                    </button>
+                  </TableCell>
+                );
+              })}
+              <TableCell className="text-right">
+                <div className="font-medium">{total.count.toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">{formatCurrency(total.principal)}</div>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  </div>
+);
+
+export default RollRateMatrixView;
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { Bookmark, ChevronDown, Save, Trash2 } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { LoanFilters, SavedView } from '@/utils/types';
+import { getLoanRepository } from '@/utils/loanRepository';
+import { queryKeys } from '@/utils/queryKeys';
+import { usePermission, useSession } from '@/hooks/use-auth';
+import { useSavedViews } from '@/hooks/use-saved-views';
+
+interface SavedViewsMenuProps {
+  filters: LoanFilters;
+  onApply: (filters: LoanFilters) => void;
+}
+
+// Anyone can apply a saved view, analysts save the current filters and
+// delete the views they saved. Hidden when there is nothing to do.
+const SavedViewsMenu = ({ filters, onApply }: SavedViewsMenuProps) => {
+  const queryClient = useQueryClient();
+  const canSave = usePermission('saveViews');
+  const { session } = useSession();
+  const { data: views = [] } = useSavedViews();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Local views have no owner, whoever is at the browser manages them all
+  const canDelete = (view: SavedView) =>
+    canSave && (view.created_by === null || view.created_by === session?.user.id);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    try {
+      setIsSaving(true);
+      await getLoanRepository().saveView(trimmed, filters);
+      await queryClient.invalidateQueries({ queryKey: queryKeys.savedViews });
+      toast.success(`Saved view "${trimmed}"`);
+      setIsSaveOpen(false);
+      setName('');
+    } catch (error) {
+      console.error("Error saving view:", error);
+      toast.error("Failed to save the view");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (view: SavedView) => {
+    try {
+      await getLoanRepository().deleteSavedView(view.id);
+      await queryClient.invalidateQueries({ queryKey: queryKeys.savedViews });
+      toast.success(`Deleted view "${view.name}"`);
+    } catch (error) {
+      console.error("Error deleting saved view:", error);
+      toast.error("Failed to delete the view");
+    }
+  };
+
+  if (views.length === 0 && !canSave) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="w-4 h-4 mr-1" />
+            Views
+            <ChevronDown className="w-4 h-4 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          {views.length === 0 ? (
+            <DropdownMenuLabel className="font-normal text-muted-foreground">No saved views yet</DropdownMenuLabel>
+          ) : (
+            views.map(view => (
+              <DropdownMenuItem key={view.id} onSelect={() => onApply(view.filters)}>
+                <span className="truncate">{view.name}</span>
+                {canDelete(view) && (
+                  <button
+                    type="button"
+                    aria-label={`Delete view ${view.name}`}
+                    className="ml-auto text-muted-foreground hover:text-destructive"
+                    onClick={event => {
+                      // Deleting should not also apply the view
+                      event.stopPropagation();
+                      event.preventDefault();
+                      handleDelete(view);
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </DropdownMenuItem>
+            ))
+          )}
+          {canSave && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => setIsSaveOpen(true)}>
+                <Save className="w-4 h-4 mr-2" />
+                Save current view...
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Save view</DialogTitle>
+            <DialogDescription>
+              Saves the current filters. Saving under the name of one of your views replaces it.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={event => {
+              event.preventDefault();
+              handleSave();
+            }}
+          >
+            <div className="space-y-1">
+              <Label htmlFor="saved-view-name">Name</Label>
+              <Input
+                id="saved-view-name"
+                value={name}
+                onChange={event => setName(event.target.value)}
+                placeholder="e.g. Defaults this quarter"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving || !name.trim()}>
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default SavedViewsMenu;
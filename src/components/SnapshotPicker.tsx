@@ -0,0 +1,81 @@
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import ToggleButtons from './ToggleButtons';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FileUploadSummary, LoanSnapshotSource } from '@/utils/types';
+
+type SourceType = LoanSnapshotSource['type'];
+
+const SOURCE_TYPES: { value: SourceType; label: string }[] = [
+  { value: 'upload', label: 'Upload' },
+  { value: 'date', label: 'Date' }
+];
+
+interface SnapshotPickerProps {
+  label: string;
+  uploads: FileUploadSummary[];
+  value: LoanSnapshotSource | null;
+  onChange: (value: LoanSnapshotSource | null) => void;
+}
+
+const SnapshotPicker = ({ label, uploads, value, onChange }: SnapshotPickerProps) => {
+  const [type, setType] = useState<SourceType>(value?.type ?? 'upload');
+
+  useEffect(() => {
+    if (value) setType(value.type);
+  }, [value]);
+
+  const handleTypeChange = (nextType: SourceType) => {
+    if (nextType === type) return;
+    setType(nextType);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <ToggleButtons<SourceType>
+          options={SOURCE_TYPES}
+          value={type}
+          onChange={handleTypeChange}
+        />
+      </div>
+
+      {type === 'upload' ? (
+        <Select
+          value={value?.type === 'upload' ? value.fileUploadId : undefined}
+          onValueChange={fileUploadId => onChange({ type: 'upload', fileUploadId })}
+        >
+          <SelectTrigger>
+            <SelectValue placeholder="Select an upload" />
+          </SelectTrigger>
+          <SelectContent>
+            {uploads.map(upload => (
+              <SelectItem key={upload.id} value={upload.id}>
+                {upload.file_name} · {format(new Date(upload.upload_date), 'MMM d, yyyy - h:mm a')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input
+          type="date"
+          value={value?.type === 'date' ? value.date : ''}
+          onChange={event => onChange(event.target.value ? { type: 'date', date: event.target.value } : null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default SnapshotPicker;
@@ -0,0 +1,28 @@
+
+export interface ToggleOption<T> {
+  value: T;
+  label: string;
+}
+
+interface ToggleButtonsProps<T> {
+  options: ToggleOption<T>[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+// Compact segmented control used by the dashboard charts
+const ToggleButtons = <T extends string>({ options, value, onChange }: ToggleButtonsProps<T>) => (
+  <div className="flex space-x-1">
+    {options.map(option => (
+      <button
+        key={option.value}
+        className={`px-3 py-1 rounded-md text-sm ${value === option.value ? 'bg-primary text-white' : 'text-muted-foreground hover:bg-muted'}`}
+        onClick={() => onChange(option.value)}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ToggleButtons;
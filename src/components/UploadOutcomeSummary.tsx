@@ -0,0 +1,88 @@
+
+import { motion } from 'framer-motion';
+import { ArrowRight, X } from 'lucide-react';
+import { UploadOutcome } from '@/utils/types';
+import { LOAN_STATUS_LABELS } from '@/utils/loanCalculations';
+
+interface UploadOutcomeSummaryProps {
+  outcome: UploadOutcome;
+  title?: string;
+  onDismiss?: () => void;
+}
+
+const UploadOutcomeSummary = ({ outcome, title = 'Upload Summary', onDismiss }: UploadOutcomeSummaryProps) => {
+  const counts = [
+    { label: 'New loans', value: outcome.inserted, className: 'text-green-600' },
+    { label: 'Changed', value: outcome.updated, className: 'text-blue-600' },
+    { label: 'Unchanged', value: outcome.unchanged, className: 'text-muted-foreground' },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="glass-card rounded-xl p-6 mb-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-medium">{title}</h2>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="p-1 rounded-md text-muted-foreground hover:bg-muted"
+            aria-label="Dismiss upload summary"
+          >
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        {counts.map(item => (
+          <div key={item.label}>
+            <p className="text-sm text-muted-foreground">{item.label}</p>
+            <p className={`text-2xl font-semibold ${item.className}`}>{item.value.toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 text-sm">
+        <div>
+          <h3 className="font-medium mb-2">Status changes</h3>
+          {outcome.status_transitions.length === 0 ? (
+            <p className="text-muted-foreground">No loan changed status</p>
+          ) : (
+            <ul className="space-y-1">
+              {outcome.status_transitions.map(transition => (
+                <li key={`${transition.from}_${transition.to}`} className="flex items-center gap-2">
+                  <span>{LOAN_STATUS_LABELS[transition.from] ?? transition.from}</span>
+                  <ArrowRight size={14} className="text-muted-foreground" />
+                  <span>{LOAN_STATUS_LABELS[transition.to] ?? transition.to}</span>
+                  <span className="ml-auto font-medium">{transition.count.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <h3 className="font-medium mb-2">Fields changed</h3>
+          {outcome.field_changes.length === 0 ? (
+            <p className="text-muted-foreground">No field values changed</p>
+          ) : (
+            <ul className="space-y-1">
+              {outcome.field_changes.map(change => (
+                <li key={change.field} className="flex items-center gap-2">
+                  <span className="font-mono text-xs">{change.field}</span>
+                  <span className="ml-auto font-medium">{change.count.toLocaleString()}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </motion.div>
+  );
+};
+
+export default UploadOutcomeSummary;
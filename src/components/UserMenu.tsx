@@ -0,0 +1,58 @@
+import { useQueryClient } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { LogOut, User } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useRole, useSession } from '@/hooks/use-auth';
+import { signOut } from '@/utils/auth';
+import { ROLE_LABELS } from '@/utils/permissions';
+
+const UserMenu = () => {
+  const { session } = useSession();
+  const { data: role } = useRole();
+  const queryClient = useQueryClient();
+  const navigate = useNavigate();
+
+  if (!session) return null;
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+      // Nothing read under this user may show for the next one
+      queryClient.clear();
+      navigate('/login', { replace: true });
+    } catch (error) {
+      console.error("Error signing out:", error);
+      toast.error("Failed to sign out");
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger className="flex items-center gap-1 text-muted-foreground hover:text-primary transition-colors duration-200">
+        <User size={14} />
+        {session.user.email}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="font-normal">
+          <p className="text-sm font-medium">{session.user.email}</p>
+          <p className="text-xs text-muted-foreground">{role ? ROLE_LABELS[role] : 'No role assigned'}</p>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleSignOut}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Sign out
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default UserMenu;
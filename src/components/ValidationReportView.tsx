@@ -0,0 +1,186 @@
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle, ChevronLeft, ChevronRight, Download, FileSearch, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { RowValidationResult, ValidationReport } from '@/utils/types';
+import { downloadFile, toCSV } from '@/utils/csvExport';
+
+const PAGE_SIZE = 25;
+
+type SeverityFilter = 'all' | 'error' | 'warning';
+
+interface ValidationReportViewProps {
+  report: ValidationReport;
+  onCommit: () => void;
+  onCancel: () => void;
+}
+
+const hasErrors = (row: RowValidationResult) => row.issues.some(issue => issue.severity === 'error');
+
+const ValidationReportView = ({ report, onCommit, onCancel }: ValidationReportViewProps) => {
+  const [filter, setFilter] = useState<SeverityFilter>('all');
+  const [page, setPage] = useState(0);
+
+  const filteredRows = report.rows.filter(row => {
+    if (filter === 'error') return hasErrors(row);
+    if (filter === 'warning') return !hasErrors(row);
+    return true;
+  });
+
+  const pageCount = Math.max(1, Math.ceil(filteredRows.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = filteredRows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+
+  const handleFilterChange = (value: string) => {
+    setFilter(value as SeverityFilter);
+    setPage(0);
+  };
+
+  const handleDownload = () => {
+    const csv = toCSV(
+      ['row_number', 'severity', 'field', 'user_wallet', 'message'],
+      report.rows.flatMap(row =>
+        row.issues.map(issue => [row.rowNumber, issue.severity, issue.field, row.user_wallet, issue.message])
+      )
+    );
+    downloadFile(csv, `${report.fileName.replace(/\.[^.]+$/, '')}-validation-report.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const summary = [
+    { label: 'Rows', value: report.totalRows, icon: <FileSearch className="w-4 h-4 text-primary" /> },
+    { label: 'Valid', value: report.validRows, icon: <CheckCircle className="w-4 h-4 text-green-500" /> },
+    { label: 'With warnings', value: report.warningRows, icon: <AlertTriangle className="w-4 h-4 text-amber-500" /> },
+    { label: 'Skipped (errors)', value: report.invalidRows, icon: <XCircle className="w-4 h-4 text-red-500" /> },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="glass-card rounded-xl p-6 text-left"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium">Dry Run Report</h3>
+          <p className="text-sm text-muted-foreground">
+            {report.fileName} was validated, nothing has been written yet.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleDownload} disabled={report.rows.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Download report
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {summary.map(item => (
+          <div key={item.label} className="rounded-lg border border-border p-3">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {item.icon}
+              {item.label}
+            </div>
+            <p className="text-xl font-semibold mt-1">{item.value.toLocaleString()}</p>
+          </div>
+        ))}
+      </div>
+
+      {report.rows.length === 0 ? (
+        <div className="text-center py-10">
+          <p className="text-muted-foreground">No issues found, every row is ready to be stored.</p>
+        </div>
+      ) : (
+        <>
+          <Tabs value={filter} onValueChange={handleFilterChange} className="mb-4">
+            <TabsList>
+              <TabsTrigger value="all">All issues</TabsTrigger>
+              <TabsTrigger value="error">Errors</TabsTrigger>
+              <TabsTrigger value="warning">Warnings only</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-[80px]">Row</TableHead>
+                <TableHead>Wallet</TableHead>
+                <TableHead>Issues</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {pageRows.map(row => (
+                <TableRow key={row.rowNumber}>
+                  <TableCell className="font-mono text-xs">{row.rowNumber}</TableCell>
+                  <TableCell>
+                    <div className="text-sm truncate max-w-[160px]">
+                      {row.user_wallet || <span className="text-muted-foreground">(missing)</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <ul className="space-y-1">
+                      {row.issues.map((issue, index) => (
+                        <li key={index} className="flex items-start gap-2 text-xs">
+                          <span className={`inline-flex px-2 py-0.5 rounded-full font-medium ${
+                            issue.severity === 'error' ? 'bg-red-100 text-red-800' : 'bg-amber-100 text-amber-800'
+                          }`}>
+                            {issue.severity}
+                          </span>
+                          <span>{issue.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+            <span>
+              {filteredRows.length.toLocaleString()} rows, page {currentPage + 1} of {pageCount}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(currentPage - 1)}
+                disabled={currentPage === 0}
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage(currentPage + 1)}
+                disabled={currentPage >= pageCount - 1}
+              >
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="mt-6 flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button onClick={onCommit} disabled={report.validRows === 0}>
+          Commit upload ({report.validRows.toLocaleString()} loans)
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default ValidationReportView;
@@ -0,0 +1,175 @@
+
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import ToggleButtons from '@/components/ToggleButtons';
+import ExportMenu from '@/components/ExportMenu';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { CohortGranularity, VintageCohort, VintagePoint } from '@/utils/types';
+import { ExportColumn } from '@/utils/tableExport';
+import { VINTAGE_CHECKPOINTS } from '@/utils/vintageAnalysis';
+import { formatCurrency } from '@/utils/loanCalculations';
+
+type VintageMetric = 'repaid' | 'defaulted';
+
+// Older cohorts stay in the table, the chart only overlays the newest ones
+const MAX_CHART_COHORTS = 12;
+
+const GRANULARITIES: { value: CohortGranularity; label: string }[] = [
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' }
+];
+
+const METRICS: { value: VintageMetric; label: string }[] = [
+  { value: 'repaid', label: 'Repayment' },
+  { value: 'defaulted', label: 'Default' }
+];
+
+const getRate = (point: VintagePoint, metric: VintageMetric) =>
+  metric === 'repaid' ? point.repaidRate : point.defaultedRate;
+
+const cohortColor = (index: number, total: number) =>
+  `hsl(${Math.round(220 - (index / Math.max(1, total - 1)) * 180)}, 70%, 50%)`;
+
+interface VintageAnalysisProps {
+  cohorts: Record<CohortGranularity, VintageCohort[]>;
+}
+
+const VintageAnalysis = ({ cohorts: cohortsByGranularity }: VintageAnalysisProps) => {
+  const [granularity, setGranularity] = useState<CohortGranularity>('month');
+  const [metric, setMetric] = useState<VintageMetric>('repaid');
+
+  const cohorts = cohortsByGranularity[granularity];
+
+  const chartCohorts = useMemo(
+    () => cohorts.filter(cohort => cohort.points[0].repaidRate !== null).slice(0, MAX_CHART_COHORTS),
+    [cohorts]
+  );
+
+  // One row per checkpoint with a column per cohort, as LineChart expects
+  const chartData = useMemo(() => VINTAGE_CHECKPOINTS.map((day, index) => {
+    const row: Record<string, number | null> = { day };
+    chartCohorts.forEach(cohort => {
+      const rate = getRate(cohort.points[index], metric);
+      row[cohort.period] = rate === null ? null : rate * 100;
+    });
+    return row;
+  }), [chartCohorts, metric]);
+
+  // Same layout as the triangle table, rates as fractions
+  const exportColumns = useMemo<ExportColumn<VintageCohort>[]>(() => [
+    { header: 'Cohort', value: cohort => cohort.period },
+    { header: 'Loans', value: cohort => cohort.loanCount },
+    { header: 'Principal', value: cohort => cohort.principal },
+    ...VINTAGE_CHECKPOINTS.map((day, index) => ({
+      header: `${day}d`,
+      value: (cohort: VintageCohort) => getRate(cohort.points[index], metric)
+    }))
+  ], [metric]);
+
+  const cellColor = metric === 'repaid' ? '34, 197, 94' : '239, 68, 68';
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+        <h2 className="text-lg font-medium">Vintage Analysis</h2>
+
+        <div className="flex flex-wrap gap-4">
+          <ToggleButtons<CohortGranularity> options={GRANULARITIES} value={granularity} onChange={setGranularity} />
+          <ToggleButtons<VintageMetric> options={METRICS} value={metric} onChange={setMetric} />
+          <ExportMenu name={`vintage-${metric}-${granularity}`} columns={exportColumns} rows={cohorts} />
+        </div>
+      </div>
+
+      {cohorts.length === 0 ? (
+        <div className="text-center py-10">
+          <p className="text-muted-foreground">No loans with an origination date to group into cohorts</p>
+        </div>
+      ) : (
+        <>
+          <motion.div
+            key={`${granularity}-${metric}`}
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ duration: 0.3 }}
+            className="h-[300px] w-full mb-6"
+          >
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.05)" />
+                <XAxis
+                  dataKey="day"
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={day => `${day}d`}
+                />
+                <YAxis tick={{ fontSize: 12 }} tickFormatter={value => `${value}%`} domain={[0, 100]} />
+                <Tooltip
+                  labelFormatter={day => `${day} days since origination`}
+                  formatter={(value: number) => `${value.toFixed(1)}%`}
+                />
+                <Legend />
+                {chartCohorts.map((cohort, index) => (
+                  <Line
+                    key={cohort.period}
+                    type="monotone"
+                    dataKey={cohort.period}
+                    name={cohort.label}
+                    stroke={cohortColor(index, chartCohorts.length)}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </motion.div>
+
+          <div className="overflow-x-auto -mx-6 px-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Cohort</TableHead>
+                  <TableHead className="text-right">Loans</TableHead>
+                  <TableHead className="text-right">Principal</TableHead>
+                  {VINTAGE_CHECKPOINTS.map(day => (
+                    <TableHead key={day} className="text-center">{day}d</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cohorts.map(cohort => (
+                  <TableRow key={cohort.period}>
+                    <TableCell className="font-medium whitespace-nowrap">{cohort.label}</TableCell>
+                    <TableCell className="text-right">{cohort.loanCount.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(cohort.principal)}</TableCell>
+                    {cohort.points.map(point => {
+                      const rate = getRate(point, metric);
+                      return (
+                        <TableCell
+                          key={point.day}
+                          className="text-center text-xs"
+                          style={rate === null ? undefined : { backgroundColor: `rgba(${cellColor}, ${0.1 + rate * 0.6})` }}
+                        >
+                          {rate === null ? '' : `${(rate * 100).toFixed(1)}%`}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VintageAnalysis;
@@ -0,0 +1,22 @@
+
+import { Link } from 'react-router-dom';
+import { borrowerPath } from '@/utils/borrowers';
+
+interface WalletLinkProps {
+  wallet: string;
+  className?: string;
+}
+
+// Stops the click so rows that open something themselves stay closed
+const WalletLink = ({ wallet, className = '' }: WalletLinkProps) => (
+  <Link
+    to={borrowerPath(wallet)}
+    onClick={event => event.stopPropagation()}
+    className={`text-primary hover:text-primary/80 hover:underline ${className}`}
+    title={wallet}
+  >
+    {wallet}
+  </Link>
+);
+
+export default WalletLink;
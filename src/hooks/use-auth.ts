@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react"
+import { useQuery } from "@tanstack/react-query"
+import { Session } from "@supabase/supabase-js"
+import { supabase } from "@/integrations/supabase/client"
+import { Permission } from "@/utils/types"
+import { queryKeys } from "@/utils/queryKeys"
+import { fetchCurrentRole } from "@/utils/auth"
+import { hasPermission } from "@/utils/permissions"
+import { getLoanRepository } from "@/utils/loanRepository"
+
+export interface AuthState {
+  session: Session | null
+  // Until the stored session has been read
+  isLoading: boolean
+}
+
+let authState: AuthState = { session: null, isLoading: true }
+const authListeners = new Set<(state: AuthState) => void>()
+let isSubscribed = false
+
+// One subscription for the whole app, started by the first hook that needs
+// it. It reports the stored session first, then every sign-in, sign-out and
+// token refresh.
+function subscribeToAuth() {
+  if (isSubscribed) return
+  isSubscribed = true
+
+  supabase.auth.onAuthStateChange((_event, session) => {
+    authState = { session, isLoading: false }
+    authListeners.forEach(listener => listener(authState))
+  })
+}
+
+export function useSession() {
+  const [state, setState] = useState(authState)
+
+  useEffect(() => {
+    subscribeToAuth()
+    authListeners.add(setState)
+    setState(authState)
+    return () => {
+      authListeners.delete(setState)
+    }
+  }, [])
+
+  return state
+}
+
+export function useRole() {
+  const { session } = useSession()
+  const userId = session?.user.id
+
+  return useQuery({
+    queryKey: queryKeys.role(userId),
+    queryFn: fetchCurrentRole,
+    enabled: !!userId,
+  })
+}
+
+// Whether the signed-in user may take an action, for hiding what they cannot
+// do. Local data belongs to whoever is at the browser, everything is allowed.
+export function usePermission(permission: Permission) {
+  const { data: role } = useRole()
+  return getLoanRepository().isLocal || hasPermission(role, permission)
+}
@@ -0,0 +1,60 @@
+import { useEffect, useId, useRef, useState } from "react"
+import { LoanData } from "@/utils/types"
+
+export interface PaletteCommand {
+  id: string
+  label: string
+  run: () => void
+}
+
+// What the current page offers the palette: the loans it has loaded for
+// wallet search, and actions that only make sense on that page
+export interface PaletteSource {
+  loans?: LoanData[]
+  commands?: PaletteCommand[]
+}
+
+const sources = new Map<string, { current: PaletteSource }>()
+
+let isOpen = false
+const openListeners = new Set<(open: boolean) => void>()
+
+export function setCommandPaletteOpen(open: boolean) {
+  isOpen = open
+  openListeners.forEach(listener => listener(open))
+}
+
+export function useCommandPaletteOpen() {
+  const [open, setOpen] = useState(isOpen)
+
+  useEffect(() => {
+    openListeners.add(setOpen)
+    return () => {
+      openListeners.delete(setOpen)
+    }
+  }, [])
+
+  return open
+}
+
+// Read when the palette renders, so sources always reflect the latest page state
+export function getPaletteSources(): PaletteSource[] {
+  return [...sources.values()].map(source => source.current)
+}
+
+// Registers the calling page with the palette for as long as it is mounted
+export function usePaletteSource(source: PaletteSource) {
+  const id = useId()
+  const sourceRef = useRef(source)
+
+  useEffect(() => {
+    sourceRef.current = source
+  })
+
+  useEffect(() => {
+    sources.set(id, sourceRef)
+    return () => {
+      sources.delete(id)
+    }
+  }, [id])
+}
@@ -0,0 +1,17 @@
+import { useCallback, useMemo } from "react"
+import { useSearchParams } from "react-router-dom"
+import { LoanFilters } from "@/utils/types"
+import { parseLoanFilters, writeLoanFilters } from "@/utils/loanFilters"
+
+// Dashboard filters kept in the query string so a filtered view can be shared
+export function useLoanFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+
+  const filters = useMemo(() => parseLoanFilters(searchParams), [searchParams])
+
+  const setFilters = useCallback((next: LoanFilters) => {
+    setSearchParams(current => writeLoanFilters(next, current), { replace: true })
+  }, [setSearchParams])
+
+  return { filters, setFilters }
+}
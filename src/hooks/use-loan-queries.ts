@@ -0,0 +1,117 @@
+import { useCallback, useMemo } from "react"
+import { InvalidateOptions, keepPreviousData, useQuery, useQueryClient } from "@tanstack/react-query"
+import { LoanBook, LoanData, LoanDrillDown, LoanFilters, LoanSnapshotSource } from "@/utils/types"
+import { queryKeys } from "@/utils/queryKeys"
+import { readCachedLoanBook, readWithCacheFallback, syncLoanBook } from "@/utils/loanCache"
+import { aggregateLoans, selectDrillDownLoans } from "@/utils/localAggregates"
+import { fetchLoanEvents } from "@/utils/loanEvents"
+import { fetchLoanSnapshot } from "@/utils/loanSnapshots"
+import { getLoanRepository } from "@/utils/loanRepository"
+
+// How often the small summary queries are refetched while they are on screen.
+// The full loan list is too large to poll, it refreshes on invalidation.
+export const BACKGROUND_REFETCH_INTERVAL = 60_000
+
+export function useLoanCount() {
+  return useQuery({
+    queryKey: queryKeys.loans.count(),
+    queryFn: () => readWithCacheFallback(() => getLoanRepository().countLoans(), book => book.loans.length),
+    refetchInterval: BACKGROUND_REFETCH_INTERVAL,
+  })
+}
+
+// Every loan, kept in IndexedDB between visits. The cached copy is shown
+// while it syncs, and on its own when the database cannot be reached.
+// Progress is only reported to the component whose mount started the sync.
+export function useLoans(onProgress?: (percent: number, message: string) => void) {
+  const { data: cached } = useQuery({
+    queryKey: queryKeys.loanBookCache,
+    queryFn: readCachedLoanBook,
+    staleTime: Infinity,
+  })
+  const placeholder = useMemo<LoanBook | undefined>(
+    () => cached ? { loans: cached.loans, syncedAt: cached.syncedAt, isOffline: false } : undefined,
+    [cached]
+  )
+
+  return useQuery({
+    queryKey: queryKeys.loans.list(),
+    queryFn: () => syncLoanBook(onProgress),
+    placeholderData: placeholder,
+  })
+}
+
+// Portfolio aggregates for the filters. The previous filters' figures stay on
+// screen while the new ones load.
+export function useMetrics(filters: LoanFilters) {
+  return useQuery({
+    queryKey: queryKeys.loans.metrics(filters),
+    queryFn: () => readWithCacheFallback(
+      () => getLoanRepository().fetchPortfolioAggregates(filters),
+      book => ({ ...aggregateLoans(book.loans, filters), cached_at: book.syncedAt })
+    ),
+    placeholderData: keepPreviousData,
+    refetchInterval: BACKGROUND_REFETCH_INTERVAL,
+  })
+}
+
+export function useDrillDownLoans(filters: LoanFilters, drillDown: LoanDrillDown) {
+  return useQuery({
+    queryKey: queryKeys.loans.drillDown(filters, drillDown),
+    queryFn: () => readWithCacheFallback(
+      () => getLoanRepository().fetchDrillDownLoans(filters, drillDown),
+      book => selectDrillDownLoans(book.loans, filters, drillDown)
+    ),
+  })
+}
+
+export function useWalletLoans(wallet: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.loans.wallet(wallet ?? ""),
+    queryFn: () => getLoanRepository().fetchLoansForWallet(wallet!),
+    enabled: !!wallet,
+  })
+}
+
+export function useWalletSearch(query: string, enabled: boolean) {
+  return useQuery({
+    queryKey: queryKeys.loans.search(query),
+    queryFn: () => getLoanRepository().searchWallets(query),
+    enabled,
+  })
+}
+
+// Loan events are recorded by the database, local data keeps no history
+export function useLoanEvents(loan: LoanData | null) {
+  return useQuery({
+    queryKey: queryKeys.loans.events(loan),
+    queryFn: () => fetchLoanEvents(loan!),
+    enabled: loan !== null && !getLoanRepository().isLocal,
+  })
+}
+
+export function useLoanSnapshot(source: LoanSnapshotSource | null) {
+  return useQuery({
+    queryKey: queryKeys.loans.snapshot(source),
+    queryFn: () => fetchLoanSnapshot(source!),
+    enabled: source !== null,
+  })
+}
+
+export function useLoanProducts() {
+  return useQuery({
+    queryKey: queryKeys.products,
+    queryFn: () => getLoanRepository().fetchLoanProducts(),
+  })
+}
+
+// Marks everything read from loans or uploads stale, so every widget on screen
+// refetches together after an upload, rollback or manual refresh
+export function useInvalidateLoanData() {
+  const queryClient = useQueryClient()
+
+  return useCallback((options?: InvalidateOptions) => Promise.all([
+    queryClient.invalidateQueries({ queryKey: queryKeys.loans.all }, options),
+    queryClient.invalidateQueries({ queryKey: queryKeys.uploads.all }, options),
+  ]), [queryClient])
+}
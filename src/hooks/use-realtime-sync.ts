@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react"
+import { QueryClient, useQueryClient } from "@tanstack/react-query"
+import { supabase } from "@/integrations/supabase/client"
+import { LoanBook, LoanChange, LoanData } from "@/utils/types"
+import { queryKeys } from "@/utils/queryKeys"
+import { getLoanRepository } from "@/utils/loanRepository"
+import { fetchLoanChangeCursor, fetchLoanChangesSince } from "@/utils/loanCache"
+import { applyLoanChanges } from "@/utils/loanChanges"
+
+// An upload writes its row when it starts and again when it is finalized,
+// events arriving together are applied once
+const FLUSH_DELAY = 1000
+
+let lastChangeAt = 0
+const changeListeners = new Set<(at: number) => void>()
+
+// When another user's changes to loans or uploads last arrived from the
+// database, 0 before the first. Data fetched after that moment already includes them.
+export function useLastDataChange() {
+  const [at, setAt] = useState(lastChangeAt)
+
+  useEffect(() => {
+    changeListeners.add(setAt)
+    return () => {
+      changeListeners.delete(setAt)
+    }
+  }, [])
+
+  return at
+}
+
+// An upload or rollback changes loans in bulk, so only the upload row is
+// streamed and the loans it wrote are read from the loan change feed. They are
+// merged into the loan book and the wallet lists on screen, nothing is
+// downloaded again. Everything the database computes from loans is marked
+// stale, it refetches on its next use or background interval.
+const mergeLoanChanges = (queryClient: QueryClient, changes: LoanChange[]) => {
+  queryClient.setQueryData<LoanBook>(queryKeys.loans.list(), book => book && {
+    ...book,
+    loans: applyLoanChanges(book.loans, changes, "loan_due_date"),
+  })
+
+  // A loan moved to another wallet leaves this one's list
+  queryClient.getQueriesData<LoanData[]>({ queryKey: queryKeys.loans.wallets() }).forEach(([queryKey, loans]) => {
+    if (!loans) return
+    const wallet = queryKey[2]
+    const walletChanges = changes.map(change =>
+      change.type === "upsert" && change.loan.user_wallet !== wallet
+        ? { type: "delete" as const, id: change.loan.id! }
+        : change
+    )
+    queryClient.setQueryData(queryKey, applyLoanChanges(loans, walletChanges, "time_loan_started"))
+  })
+
+  markComputedLoanDataStale(queryClient)
+}
+
+const markComputedLoanDataStale = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({
+    queryKey: queryKeys.loans.all,
+    refetchType: "none",
+    predicate: query => query.queryKey[1] !== "list" && query.queryKey[1] !== "wallet",
+  })
+}
+
+// When the change feed cannot be read, the loan book and wallet lists refetch
+const markLoanDataChanged = (queryClient: QueryClient) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.loans.list() })
+  queryClient.invalidateQueries({ queryKey: queryKeys.loans.wallets() })
+  markComputedLoanDataStale(queryClient)
+}
+
+// Subscribes to file_uploads for as long as the app is open, so uploads and
+// rollbacks made by anyone reach every open view. The user's own uploads are
+// merged too, but do not announce new data, the page that made them already
+// shows it. Local data only changes in this tab, there is nothing to
+// subscribe to.
+export function useRealtimeSync(userId: string | undefined) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (getLoanRepository().isLocal || !userId) return
+
+    let receivedAt = 0
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let closed = false
+    // Each batch reads the changes from the cursor read by the one before,
+    // one batch at a time. Without a cursor the loan data is refetched.
+    let cursor: Promise<number | null> = fetchLoanChangeCursor().catch(() => null)
+
+    const sync = async (from: number | null): Promise<number | null> => {
+      try {
+        const next = await fetchLoanChangeCursor()
+        if (!closed) {
+          if (from === null) markLoanDataChanged(queryClient)
+          else mergeLoanChanges(queryClient, await fetchLoanChangesSince(from))
+        }
+        return next
+      } catch (error) {
+        console.error("Error fetching loan changes, refetching loan data:", error)
+        if (!closed) markLoanDataChanged(queryClient)
+        return null
+      }
+    }
+
+    const flush = () => {
+      timer = undefined
+      cursor = cursor.then(sync)
+      queryClient.invalidateQueries({ queryKey: queryKeys.uploads.all })
+
+      if (receivedAt > lastChangeAt) {
+        lastChangeAt = receivedAt
+        changeListeners.forEach(listener => listener(lastChangeAt))
+      }
+    }
+
+    const channel = supabase
+      .channel("loan-data")
+      .on("postgres_changes", { event: "*", schema: "public", table: "file_uploads" }, payload => {
+        const upload = (payload.eventType === "DELETE" ? payload.old : payload.new) as { uploaded_by_id?: string | null }
+        if (upload.uploaded_by_id !== userId) receivedAt = Date.now()
+        timer ??= setTimeout(flush, FLUSH_DELAY)
+      })
+      .subscribe()
+
+    return () => {
+      closed = true
+      clearTimeout(timer)
+      supabase.removeChannel(channel)
+    }
+  }, [queryClient, userId])
+}
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query"
+import { queryKeys } from "@/utils/queryKeys"
+import { getLoanRepository } from "@/utils/loanRepository"
+
+// Everyone's saved dashboard views, fetched the first time the menu renders
+export function useSavedViews() {
+  return useQuery({
+    queryKey: queryKeys.savedViews,
+    queryFn: () => getLoanRepository().fetchSavedViews(),
+  })
+}
@@ -0,0 +1,48 @@
+import { keepPreviousData, useQuery } from "@tanstack/react-query"
+import { queryKeys } from "@/utils/queryKeys"
+import { getLoanRepository } from "@/utils/loanRepository"
+import { BACKGROUND_REFETCH_INTERVAL } from "./use-loan-queries"
+
+export function useLatestUpload() {
+  return useQuery({
+    queryKey: queryKeys.uploads.latest(),
+    queryFn: () => getLoanRepository().fetchLatestUpload(),
+    refetchInterval: BACKGROUND_REFETCH_INTERVAL,
+  })
+}
+
+export function useUploadSummaries(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.uploads.list(),
+    queryFn: () => getLoanRepository().fetchUploads(),
+    refetchInterval: BACKGROUND_REFETCH_INTERVAL,
+    enabled,
+  })
+}
+
+export function useUploadSummary(fileUploadId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.uploads.detail(fileUploadId ?? ""),
+    queryFn: () => getLoanRepository().fetchUploadSummary(fileUploadId!),
+    enabled: !!fileUploadId,
+  })
+}
+
+// One page of an upload's loans, the current page stays on screen while the
+// next one loads
+export function useUploadLoans(fileUploadId: string | undefined, page: number, pageSize: number) {
+  return useQuery({
+    queryKey: queryKeys.uploads.loans(fileUploadId ?? "", page),
+    queryFn: () => getLoanRepository().fetchLoansForUpload(fileUploadId!, page, pageSize),
+    placeholderData: keepPreviousData,
+    enabled: !!fileUploadId,
+  })
+}
+
+export function useUploadOutcome(fileUploadId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.uploads.outcome(fileUploadId ?? ""),
+    queryFn: () => getLoanRepository().fetchUploadOutcome(fileUploadId!),
+    enabled: !!fileUploadId,
+  })
+}
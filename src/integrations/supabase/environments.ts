@@ -0,0 +1,68 @@
+// The Supabase projects the app can connect to, configured through Vite env
+// variables (see .env.example). The choice is remembered per browser.
+
+export type SupabaseEnvironmentId = 'prod' | 'staging' | 'local';
+
+export interface SupabaseEnvironment {
+  id: SupabaseEnvironmentId;
+  label: string;
+  url: string;
+  anonKey: string;
+}
+
+const STORAGE_KEY = 'supabase-environment';
+
+const env = import.meta.env;
+
+// VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY configure a single project and
+// are taken as production
+const CANDIDATES: { id: SupabaseEnvironmentId; label: string; url?: string; anonKey?: string }[] = [
+  {
+    id: 'prod',
+    label: 'Production',
+    url: env.VITE_SUPABASE_PROD_URL || env.VITE_SUPABASE_URL,
+    anonKey: env.VITE_SUPABASE_PROD_ANON_KEY || env.VITE_SUPABASE_ANON_KEY
+  },
+  { id: 'staging', label: 'Staging', url: env.VITE_SUPABASE_STAGING_URL, anonKey: env.VITE_SUPABASE_STAGING_ANON_KEY },
+  { id: 'local', label: 'Local', url: env.VITE_SUPABASE_LOCAL_URL, anonKey: env.VITE_SUPABASE_LOCAL_ANON_KEY }
+];
+
+// Only environments with both a URL and a key are offered
+export const SUPABASE_ENVIRONMENTS: SupabaseEnvironment[] = CANDIDATES.flatMap(({ id, label, url, anonKey }) =>
+  url && anonKey ? [{ id, label, url, anonKey }] : []
+);
+
+const readStoredEnvironmentId = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch (error) {
+    console.error("Error reading the selected Supabase environment:", error);
+    return null;
+  }
+};
+
+const findEnvironment = (id: string | null | undefined) =>
+  SUPABASE_ENVIRONMENTS.find(environment => environment.id === id);
+
+// The stored choice, then VITE_SUPABASE_ENVIRONMENT, then the first one
+// configured. Null when no project is configured at all.
+export const activeSupabaseEnvironment: SupabaseEnvironment | null =
+  findEnvironment(readStoredEnvironmentId()) ??
+  findEnvironment(env.VITE_SUPABASE_ENVIRONMENT) ??
+  SUPABASE_ENVIRONMENTS[0] ??
+  null;
+
+// The client, the realtime channel and every cached query belong to one
+// project, so the page is reloaded to start over on the new one
+export const switchSupabaseEnvironment = (id: SupabaseEnvironmentId) => {
+  if (id === activeSupabaseEnvironment?.id) return;
+
+  try {
+    localStorage.setItem(STORAGE_KEY, id);
+  } catch (error) {
+    console.error("Error saving the selected Supabase environment:", error);
+    return;
+  }
+
+  window.location.reload();
+};
@@ -9,27 +9,217 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      column_mapping_profiles: {
+        Row: {
+          created_at: string
+          header_signature: string
+          id: string
+          mapping: Json
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          header_signature: string
+          id?: string
+          mapping: Json
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          header_signature?: string
+          id?: string
+          mapping?: Json
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       file_uploads: {
         Row: {
           file_name: string
           id: string
+          inserted_count: number | null
           record_count: number
+          rolled_back_at: string | null
+          unchanged_count: number | null
+          updated_count: number | null
           upload_date: string
+          uploaded_by: string | null
+          uploaded_by_id: string | null
         }
         Insert: {
           file_name: string
           id?: string
+          inserted_count?: number | null
           record_count?: number
+          rolled_back_at?: string | null
+          unchanged_count?: number | null
+          updated_count?: number | null
           upload_date?: string
+          uploaded_by?: string | null
+          uploaded_by_id?: string | null
         }
         Update: {
           file_name?: string
           id?: string
+          inserted_count?: number | null
           record_count?: number
+          rolled_back_at?: string | null
+          unchanged_count?: number | null
+          updated_count?: number | null
           upload_date?: string
+          uploaded_by?: string | null
+          uploaded_by_id?: string | null
+        }
+        Relationships: []
+      }
+      loan_changes: {
+        Row: {
+          is_deleted: boolean
+          loan_id: string
+          xact_id: number
+        }
+        Insert: {
+          is_deleted?: boolean
+          loan_id: string
+          xact_id?: number
+        }
+        Update: {
+          is_deleted?: boolean
+          loan_id?: string
+          xact_id?: number
         }
         Relationships: []
       }
+      loan_events: {
+        Row: {
+          actor: string | null
+          created_at: string
+          event_type: string
+          field: string | null
+          file_upload_id: string | null
+          id: number
+          loan_id: string
+          new_value: Json | null
+          old_value: Json | null
+          source: string
+        }
+        Insert: {
+          actor?: string | null
+          created_at?: string
+          event_type: string
+          field?: string | null
+          file_upload_id?: string | null
+          id?: never
+          loan_id: string
+          new_value?: Json | null
+          old_value?: Json | null
+          source: string
+        }
+        Update: {
+          actor?: string | null
+          created_at?: string
+          event_type?: string
+          field?: string | null
+          file_upload_id?: string | null
+          id?: never
+          loan_id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          source?: string
+        }
+        Relationships: []
+      }
+      loan_products: {
+        Row: {
+          created_at: string
+          fee: number
+          id: string
+          name: string
+          principal: number
+          term_days: number | null
+          updated_at: string
+          version: string | null
+        }
+        Insert: {
+          created_at?: string
+          fee?: number
+          id?: string
+          name: string
+          principal: number
+          term_days?: number | null
+          updated_at?: string
+          version?: string | null
+        }
+        Update: {
+          created_at?: string
+          fee?: number
+          id?: string
+          name?: string
+          principal?: number
+          term_days?: number | null
+          updated_at?: string
+          version?: string | null
+        }
+        Relationships: []
+      }
+      loan_upload_changes: {
+        Row: {
+          changes: Json | null
+          created_at: string
+          file_upload_id: string
+          id: number
+          loan_id: string
+          new_status: string | null
+          previous: Json | null
+          previous_status: string | null
+        }
+        Insert: {
+          changes?: Json | null
+          created_at?: string
+          file_upload_id: string
+          id?: never
+          loan_id: string
+          new_status?: string | null
+          previous?: Json | null
+          previous_status?: string | null
+        }
+        Update: {
+          changes?: Json | null
+          created_at?: string
+          file_upload_id?: string
+          id?: never
+          loan_id?: string
+          new_status?: string | null
+          previous?: Json | null
+          previous_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loan_upload_changes_file_upload_id_fkey"
+            columns: ["file_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_uploads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_upload_changes_file_upload_id_fkey"
+            columns: ["file_upload_id"]
+            isOneToOne: false
+            referencedRelation: "file_upload_summaries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loan_upload_changes_loan_id_fkey"
+            columns: ["loan_id"]
+            isOneToOne: false
+            referencedRelation: "loans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       loans: {
         Row: {
           created_at: string
@@ -86,15 +276,164 @@ export type Database = {
           },
         ]
       }
+      saved_views: {
+        Row: {
+          created_at: string
+          created_by: string
+          filters: Json
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          filters: Json
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          filters?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      file_upload_summaries: {
+        Row: {
+          file_name: string | null
+          id: string | null
+          inserted_count: number | null
+          record_count: number | null
+          rolled_back_at: string | null
+          unchanged_count: number | null
+          updated_count: number | null
+          upload_date: string | null
+          uploaded_by: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      changed_loans: {
+        Args: { p_cursor: number }
+        Returns: Database["public"]["Tables"]["loans"]["Row"][]
+      }
+      current_app_role: {
+        Args: Record<PropertyKey, never>
+        Returns: Database["public"]["Enums"]["app_role"]
+      }
+      deleted_loan_ids: {
+        Args: { p_cursor: number }
+        Returns: { id: string }[]
+      }
+      filtered_loans: {
+        Args: { p_filters?: Json; p_time_zone?: string }
+        Returns: Database["public"]["Tables"]["loans"]["Row"][]
+      }
+      finalize_file_upload: {
+        Args: { p_file_upload_id: string; p_record_count: number }
+        Returns: Json
+      }
+      get_upload_outcome: {
+        Args: { p_file_upload_id: string }
+        Returns: Json
+      }
+      has_app_role: {
+        Args: { p_role: Database["public"]["Enums"]["app_role"] }
+        Returns: boolean
+      }
+      loan_change_cursor: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      loan_snapshot: {
+        Args: { p_file_upload_id?: string; p_as_of?: string }
+        Returns: Database["public"]["Tables"]["loans"]["Row"][]
+      }
+      loan_snapshot_cutoff: {
+        Args: { p_file_upload_id?: string; p_as_of?: string }
+        Returns: number
+      }
+      loan_snapshot_page: {
+        Args: { p_cutoff: number; p_after_id?: string; p_limit?: number }
+        Returns: Database["public"]["Tables"]["loans"]["Row"][]
+      }
+      loan_status: {
+        Args: { l: Database["public"]["Tables"]["loans"]["Row"] }
+        Returns: string
+      }
+      past_due_loans: {
+        Args: {
+          p_filters?: Json
+          p_time_zone?: string
+          p_min_days?: number
+          p_max_days?: number
+        }
+        Returns: Database["public"]["Tables"]["loans"]["Row"][]
+      }
+      portfolio_summary: {
+        Args: {
+          p_filters?: Json
+          p_time_zone?: string
+          p_par_days?: number[]
+          p_vintage_days?: number[]
+        }
+        Returns: Json
+      }
+      rollback_file_upload: {
+        Args: { p_file_upload_id: string }
+        Returns: Json
+      }
+      search_wallets: {
+        Args: { p_query: string; p_limit?: number; p_recent?: number }
+        Returns: {
+          wallet: string
+          loan_count: number
+          score: number
+          recent_loans: Json
+        }[]
+      }
+      upcoming_loans: {
+        Args: {
+          p_filters?: Json
+          p_time_zone?: string
+          p_min_days?: number
+          p_max_days?: number
+        }
+        Returns: Database["public"]["Tables"]["loans"]["Row"][]
+      }
+      update_loan: {
+        Args: { p_loan_id: string; p_changes: Json }
+        Returns: Database["public"]["Tables"]["loans"]["Row"]
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "viewer" | "analyst" | "operator"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -209,6 +548,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["viewer", "analyst", "operator"],
+    },
   },
 } as const
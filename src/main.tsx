@@ -1,5 +1,10 @@
 import { createRoot } from 'react-dom/client'
 import App from './App.tsx'
+import ConfigurationError from './pages/ConfigurationError.tsx'
+import { activeSupabaseEnvironment } from './integrations/supabase/environments'
+import { getLoanRepository } from './utils/loanRepository'
 import './index.css'
 
-createRoot(document.getElementById("root")!).render(<App />);
+const isConfigured = activeSupabaseEnvironment !== null || getLoanRepository().isLocal;
+
+createRoot(document.getElementById("root")!).render(isConfigured ? <App /> : <ConfigurationError />);
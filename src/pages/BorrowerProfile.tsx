@@ -0,0 +1,125 @@
+
+import { Fragment, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Loader2, AlertCircle, ArrowLeft, ChevronRight, Wallet } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import LoanTable from '@/components/LoanTable';
+import KPICard from '@/components/KPICard';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LoanData } from '@/utils/types';
+import { summarizeBorrower } from '@/utils/borrowers';
+import { formatCurrency, formatDate } from '@/utils/loanCalculations';
+import { useWalletLoans } from '@/hooks/use-loan-queries';
+
+const EMPTY_LOANS: LoanData[] = [];
+
+const BorrowerProfile = () => {
+  const { wallet = '' } = useParams<{ wallet: string }>();
+  const { data: loans = EMPTY_LOANS, isPending: isLoading, isError } = useWalletLoans(wallet);
+  const loadError = isError ? "Failed to load this borrower. Please try again later." : null;
+
+  const summary = useMemo(() => summarizeBorrower(wallet, loans), [wallet, loans]);
+
+  return (
+    <div className="min-h-screen flex flex-col pb-16">
+      <AppHeader />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <Link to="/borrowers" className="inline-flex items-center gap-1 text-sm text-primary hover:text-primary/80 mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to borrowers
+        </Link>
+
+        <div className="flex items-center gap-2 mb-6">
+          <Wallet className="w-5 h-5 text-primary shrink-0" />
+          <h2 className="text-2xl font-semibold break-all">{wallet}</h2>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center h-64">
+            <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
+            <p className="text-muted-foreground">Loading borrower...</p>
+          </div>
+        ) : loadError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : loans.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-muted-foreground">No loans found for this wallet.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+              <KPICard
+                title="Loans"
+                value={summary.loanCount.toLocaleString()}
+                description={summary.firstLoanDate && summary.lastLoanDate
+                  ? `${formatDate(summary.firstLoanDate)} to ${formatDate(summary.lastLoanDate)}`
+                  : undefined}
+                index={0}
+              />
+              <KPICard
+                title="Lifetime Borrowed"
+                value={formatCurrency(summary.totalBorrowed)}
+                description={`Largest loan ${formatCurrency(summary.highestAmount)}`}
+                index={1}
+              />
+              <KPICard
+                title="Lifetime Repaid"
+                value={formatCurrency(summary.totalRepaid)}
+                description={summary.outstandingAmount > 0
+                  ? `${formatCurrency(summary.outstandingAmount)} outstanding`
+                  : 'Nothing outstanding'}
+                index={2}
+              />
+              <KPICard
+                title="On-Time Rate"
+                value={summary.onTimeRate === null ? '-' : `${(summary.onTimeRate * 100).toFixed(1)}%`}
+                description="Repaid by the due date, of loans that came due"
+                index={3}
+              />
+              <KPICard
+                title="Average Days to Repay"
+                value={summary.averageDaysToRepay === null ? '-' : summary.averageDaysToRepay.toFixed(1)}
+                index={4}
+              />
+              <KPICard
+                title="Defaults"
+                value={summary.defaultCount.toLocaleString()}
+                description={`${((summary.defaultCount / summary.loanCount) * 100).toFixed(1)}% of loans`}
+                index={5}
+              />
+            </div>
+
+            <div className="glass-card rounded-xl p-6 mb-6">
+              <h2 className="text-lg font-medium mb-4">Tier Progression</h2>
+              <div className="flex flex-wrap items-center gap-2">
+                {summary.tierProgression.map((tier, index) => (
+                  <Fragment key={tier.amount}>
+                    {index > 0 && <ChevronRight className="w-4 h-4 text-muted-foreground" />}
+                    <div className="rounded-lg bg-muted px-3 py-2">
+                      <div className="font-medium">{formatCurrency(tier.amount)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {tier.firstTaken ? `from ${formatDate(tier.firstTaken)}` : 'start date unknown'}
+                        {` · ${tier.count.toLocaleString()} ${tier.count === 1 ? 'loan' : 'loans'}`}
+                      </div>
+                    </div>
+                  </Fragment>
+                ))}
+              </div>
+            </div>
+
+            <div className="glass-card rounded-xl p-6">
+              <h2 className="text-lg font-medium mb-6">All Loans</h2>
+              <LoanTable loans={loans} emptyMessage="No loans found for this wallet" exportName={`borrower-${wallet}`} />
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default BorrowerProfile;
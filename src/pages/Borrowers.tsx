@@ -0,0 +1,74 @@
+
+import { useState, useMemo } from 'react';
+import { Loader2, AlertCircle, Users } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import BorrowerAnalyticsSummary from '@/components/BorrowerAnalyticsSummary';
+import BorrowerDirectory from '@/components/BorrowerDirectory';
+import CachedDataNotice from '@/components/CachedDataNotice';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { LoanData } from '@/utils/types';
+import { buildBorrowerAnalytics, buildBorrowerDirectory } from '@/utils/borrowers';
+import { usePaletteSource } from '@/hooks/use-command-palette';
+import { useLoans } from '@/hooks/use-loan-queries';
+
+const EMPTY_LOANS: LoanData[] = [];
+
+const Borrowers = () => {
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [loadStatus, setLoadStatus] = useState('');
+  const { data: book, isPending: isLoading, isError } = useLoans((percent, message) => {
+    setLoadProgress(percent);
+    setLoadStatus(message);
+  });
+  const loans = book?.loans ?? EMPTY_LOANS;
+  const loadError = isError ? "Failed to load borrowers. Please try again later." : null;
+
+  const borrowers = useMemo(() => buildBorrowerDirectory(loans), [loans]);
+  const analytics = useMemo(() => buildBorrowerAnalytics(loans), [loans]);
+
+  usePaletteSource({ loans });
+
+  return (
+    <div className="min-h-screen flex flex-col pb-16">
+      <AppHeader />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="flex items-center gap-2 mb-6">
+          <Users className="w-5 h-5 text-primary" />
+          <h2 className="text-2xl font-semibold">Borrowers</h2>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center h-64">
+            <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
+            <p className="text-muted-foreground mb-4">{loadStatus || "Loading loan data..."}</p>
+            {loadProgress > 0 && (
+              <div className="w-64 mt-2">
+                <Progress value={loadProgress} className="h-2" />
+                <p className="text-xs text-muted-foreground mt-1 text-center">{loadProgress}% complete</p>
+              </div>
+            )}
+          </div>
+        ) : loadError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : borrowers.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-muted-foreground">No loans have been uploaded yet.</p>
+          </div>
+        ) : (
+          <>
+            {book?.isOffline && <CachedDataNotice cachedAt={book.syncedAt} className="mb-6" />}
+            <BorrowerAnalyticsSummary analytics={analytics} />
+            <BorrowerDirectory borrowers={borrowers} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Borrowers;
@@ -0,0 +1,40 @@
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+
+// Shown instead of the app when no Supabase project is configured and the app
+// is not running on browser data, there is nothing to sign in to
+const ConfigurationError = () => (
+  <div className="min-h-screen flex items-center justify-center bg-gradient-to-r from-primary/5 to-primary/10 px-4">
+    <div className="w-full max-w-lg rounded-lg border bg-card p-6 shadow-sm space-y-4">
+      <h1 className="text-2xl font-bold">Loan Analytics</h1>
+
+      <Alert variant="destructive">
+        <AlertCircle className="h-4 w-4" />
+        <AlertTitle>No Supabase project configured</AlertTitle>
+        <AlertDescription>
+          The app needs the URL and anon key of at least one Supabase project.
+        </AlertDescription>
+      </Alert>
+
+      <ol className="list-decimal pl-5 space-y-2 text-sm text-muted-foreground">
+        <li>
+          Copy <code className="font-mono text-foreground">.env.example</code> to{' '}
+          <code className="font-mono text-foreground">.env.local</code>.
+        </li>
+        <li>
+          Fill in <code className="font-mono text-foreground">VITE_SUPABASE_URL</code> and{' '}
+          <code className="font-mono text-foreground">VITE_SUPABASE_ANON_KEY</code>, or the prod, staging and
+          local variables for each project.
+        </li>
+        <li>Restart the dev server or rebuild the app.</li>
+      </ol>
+
+      <p className="text-sm text-muted-foreground">
+        To try the app without a project, set{' '}
+        <code className="font-mono text-foreground">VITE_DATA_SOURCE=local</code> to keep the data in this browser.
+      </p>
+    </div>
+  </div>
+);
+
+export default ConfigurationError;
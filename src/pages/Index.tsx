@@ -1,67 +1,42 @@
 
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Loader2, AlertCircle, RefreshCw } from 'lucide-react';
+import { Loader2, AlertCircle } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
 import CSVUploader from '@/components/CSVUploader';
 import Dashboard from '@/components/Dashboard';
-import { LoanData } from '@/utils/types';
-import { fetchLoansFromDatabase } from '@/utils/csvParser';
+import UploadOutcomeSummary from '@/components/UploadOutcomeSummary';
+import { UploadOutcome, UploadResult } from '@/utils/types';
+import { useInvalidateLoanData, useLoanCount } from '@/hooks/use-loan-queries';
+import { usePermission } from '@/hooks/use-auth';
 import { toast } from 'sonner';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Progress } from '@/components/ui/progress';
 
 const Index = () => {
-  const [loanData, setLoanData] = useState<LoanData[]>([]);
-  const [dataUploaded, setDataUploaded] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [initialLoadComplete, setInitialLoadComplete] = useState(false);
+  const [showUploader, setShowUploader] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [processingStatus, setProcessingStatus] = useState('');
-  const [loadError, setLoadError] = useState<string | null>(null);
-  const [loadProgress, setLoadProgress] = useState(0);
+  const [uploadOutcome, setUploadOutcome] = useState<UploadOutcome | null>(null);
+  const invalidateLoanData = useInvalidateLoanData();
+  const canUpload = usePermission('upload');
 
-  // Fetch loan data from database on component mount
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        setIsLoading(true);
-        setLoadError(null);
-        
-        const progressCallback = (percent: number, message: string) => {
-          setLoadProgress(percent);
-          setProcessingStatus(message);
-        };
-        
-        const data = await fetchLoansFromDatabase(progressCallback);
-        console.log("Initial data fetch complete:", data.length, "loans");
-        setLoanData(data);
-        
-        // Auto-transition to dashboard if we have data
-        if (data.length > 0) {
-          console.log("Setting dataUploaded to true based on existing data");
-          setDataUploaded(true);
-        }
-      } catch (error) {
-        console.error("Error fetching loan data:", error);
-        toast.error("Failed to fetch loan data");
-        setLoadError("Failed to load data from the database. Please try again later.");
-      } finally {
-        setIsLoading(false);
-        setInitialLoadComplete(true);
-      }
-    };
+  // The dashboard loads its own summary, here we only need to know whether
+  // there are loans at all
+  const { data: loanCount, isPending: isLoading, isError } = useLoanCount();
+  const loadError = isError ? "Failed to load data from the database. Please try again later." : null;
+  const dataUploaded = !showUploader && (loanCount ?? 0) > 0;
 
-    fetchData();
-  }, []); // Only run once on mount
-
-  const handleDataLoaded = (data: LoanData[]) => {
-    console.log("Data loaded, transitioning to dashboard", data.length);
-    // Immediately show the dashboard with the new data
-    setLoanData(data);
-    setDataUploaded(true);
+  const handleDataLoaded = async ({ loanCount, outcome }: UploadResult) => {
+    console.log("Data loaded, transitioning to dashboard", loanCount);
+    // Every query on loans or uploads refetches, so the dashboard and banner
+    // pick up the new data together. The uploader stays up until the count
+    // shows there are loans.
+    await invalidateLoanData();
+    setUploadOutcome(outcome);
+    setShowUploader(false);
     setUploadProgress(0);
     setProcessingStatus('');
-    toast.success(`Successfully processed ${data.length} loans`);
+    toast.success(`Successfully processed ${loanCount} loans`);
   };
 
   const handleUploadProgress = (progress: number, status: string) => {
@@ -70,35 +45,19 @@ const Index = () => {
   };
 
   const resetToUploader = () => {
-    setDataUploaded(false);
+    setShowUploader(true);
+    setUploadOutcome(null);
   };
 
   return (
     <div className="min-h-screen flex flex-col pb-16">
-      <header className="w-full bg-gradient-to-r from-primary/5 to-primary/10 backdrop-blur-sm">
-        <div className="container mx-auto py-8 px-4">
-          <motion.h1 
-            initial={{ opacity: 0, y: -20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ duration: 0.5 }}
-            className="text-3xl md:text-4xl font-bold text-center"
-          >
-            Loan Analytics Dashboard
-          </motion.h1>
-        </div>
-      </header>
+      <AppHeader />
 
       <main className="flex-1 container mx-auto px-4 py-8">
         {isLoading ? (
           <div className="flex flex-col items-center justify-center h-64">
             <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
-            <p className="text-muted-foreground mb-4">{processingStatus || "Loading loan data..."}</p>
-            {loadProgress > 0 && (
-              <div className="w-64 mt-2">
-                <Progress value={loadProgress} className="h-2" />
-                <p className="text-xs text-muted-foreground mt-1 text-center">{loadProgress}% complete</p>
-              </div>
-            )}
+            <p className="text-muted-foreground mb-4">Loading loan data...</p>
           </div>
         ) : loadError ? (
           <div className="max-w-3xl mx-auto mt-12">
@@ -106,14 +65,20 @@ const Index = () => {
               <AlertCircle className="h-4 w-4" />
               <AlertDescription>{loadError}</AlertDescription>
             </Alert>
-            <div className="text-center">
-              <CSVUploader 
-                onDataLoaded={handleDataLoaded} 
-                onProgress={handleUploadProgress}
-              />
-            </div>
+            {canUpload && (
+              <div className="text-center">
+                <CSVUploader 
+                  onDataLoaded={handleDataLoaded} 
+                  onProgress={handleUploadProgress}
+                />
+              </div>
+            )}
           </div>
-        ) : !dataUploaded && initialLoadComplete ? (
+        ) : !dataUploaded && !canUpload ? (
+          <div className="max-w-3xl mx-auto mt-12 text-center text-muted-foreground">
+            No loan data has been uploaded yet. Uploading needs the operator role.
+          </div>
+        ) : !dataUploaded ? (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -177,12 +142,20 @@ const Index = () => {
               </p>
             </motion.div>
           </motion.div>
-        ) : dataUploaded ? (
-          <Dashboard data={loanData} />
-        ) : null}
+        ) : (
+          <>
+            {uploadOutcome && (
+              <UploadOutcomeSummary
+                outcome={uploadOutcome}
+                onDismiss={() => setUploadOutcome(null)}
+              />
+            )}
+            <Dashboard />
+          </>
+        )}
       </main>
       
-      {dataUploaded && (
+      {dataUploaded && canUpload && (
         <div className="container mx-auto px-4 py-4 flex justify-center">
           <button
             onClick={resetToUploader}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { Location, Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { AlertCircle, Loader2, LogIn } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import EnvironmentSwitcher from '@/components/EnvironmentSwitcher';
+import { useSession } from '@/hooks/use-auth';
+import { signIn } from '@/utils/auth';
+
+const Login = () => {
+  const { session } = useSession();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Back to the page that sent the user here
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}` : '/';
+
+  if (session) return <Navigate to={returnTo} replace />;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      await signIn(email, password);
+      navigate(returnTo, { replace: true });
+    } catch (signInError) {
+      setError(signInError instanceof Error ? signInError.message : "Failed to sign in");
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-r from-primary/5 to-primary/10 px-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm rounded-lg border bg-card p-6 shadow-sm space-y-4">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Loan Analytics</h1>
+            <p className="text-sm text-muted-foreground">Sign in to view the loan book</p>
+          </div>
+          <EnvironmentSwitcher />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="login-email">Email</Label>
+          <Input
+            id="login-email"
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={event => setEmail(event.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="login-password">Password</Label>
+          <Input
+            id="login-password"
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={event => setPassword(event.target.value)}
+          />
+        </div>
+
+        <Button type="submit" className="w-full" disabled={isSigningIn}>
+          {isSigningIn ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <LogIn className="w-4 h-4 mr-2" />
+          )}
+          Sign in
+        </Button>
+
+        <p className="text-xs text-center text-muted-foreground">
+          Accounts and roles are managed by your administrator.
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
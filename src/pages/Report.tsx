@@ -0,0 +1,186 @@
+
+import { useState, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Loader2, AlertCircle, FileText, Printer, X } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import PortfolioReportView from '@/components/PortfolioReportView';
+import CachedDataNotice from '@/components/CachedDataNotice';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { LoanData, LoanProduct, ReportHeaderConfig } from '@/utils/types';
+import {
+  buildPortfolioReport,
+  defaultReportRange,
+  formatReportPeriod,
+  isValidReportRange,
+  loadReportHeader,
+  saveReportHeader
+} from '@/utils/portfolioReport';
+import { useLoanProducts, useLoans } from '@/hooks/use-loan-queries';
+import { usePermission } from '@/hooks/use-auth';
+
+const EMPTY_LOANS: LoanData[] = [];
+const EMPTY_PRODUCTS: LoanProduct[] = [];
+
+const Report = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [header, setHeader] = useState<ReportHeaderConfig>(loadReportHeader);
+  const [loadProgress, setLoadProgress] = useState(0);
+  const [loadStatus, setLoadStatus] = useState('');
+
+  const loansQuery = useLoans((percent, message) => {
+    setLoadProgress(percent);
+    setLoadStatus(message);
+  });
+  const productsQuery = useLoanProducts();
+  const canExport = usePermission('export');
+  const loans = loansQuery.data?.loans ?? EMPTY_LOANS;
+  const products = productsQuery.data ?? EMPTY_PRODUCTS;
+  const isLoading = loansQuery.isPending || productsQuery.isPending;
+  const loadError = loansQuery.isError || productsQuery.isError
+    ? "Failed to load the report data. Please try again later."
+    : null;
+
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const range = useMemo(
+    () => fromParam && toParam && isValidReportRange(fromParam, toParam)
+      ? { from: fromParam, to: toParam }
+      : defaultReportRange(),
+    [fromParam, toParam]
+  );
+
+  const report = useMemo(
+    () => buildPortfolioReport(loans, products, range.from, range.to),
+    [loans, products, range]
+  );
+
+  const updateHeader = (changes: Partial<ReportHeaderConfig>) => {
+    setHeader(current => {
+      const next = { ...current, ...changes };
+      saveReportHeader(next);
+      return next;
+    });
+  };
+
+  const handleLogoChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => updateHeader({ logoDataUrl: reader.result as string });
+    reader.readAsDataURL(file);
+    event.target.value = '';
+  };
+
+  const setRangeParam = (key: 'from' | 'to', value: string) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      next.set('from', range.from);
+      next.set('to', range.to);
+      if (value) next.set(key, value);
+      return next;
+    }, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col pb-16 print:pb-0">
+      <div className="print:hidden">
+        <AppHeader />
+      </div>
+
+      <main className="flex-1 container mx-auto px-4 py-8 print:p-0 print:max-w-none">
+        <div className="print:hidden">
+          <div className="flex items-center gap-2 mb-6">
+            <FileText className="w-5 h-5 text-primary" />
+            <h2 className="text-2xl font-semibold">Portfolio Report</h2>
+          </div>
+
+          <div className="glass-card rounded-xl p-6 mb-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <Label>Originated between</Label>
+              <div className="flex items-center gap-2">
+                <Input type="date" value={range.from} onChange={event => setRangeParam('from', event.target.value)} />
+                <span className="text-muted-foreground">–</span>
+                <Input type="date" value={range.to} onChange={event => setRangeParam('to', event.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-title">Title</Label>
+              <Input
+                id="report-title"
+                value={header.title}
+                onChange={event => updateHeader({ title: event.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="report-period">Period label</Label>
+              <Input
+                id="report-period"
+                value={header.periodLabel}
+                placeholder={formatReportPeriod(range.from, range.to)}
+                onChange={event => updateHeader({ periodLabel: event.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="report-logo">Logo</Label>
+              <div className="flex items-center gap-2">
+                <Input id="report-logo" type="file" accept="image/*" onChange={handleLogoChange} />
+                {header.logoDataUrl && (
+                  <Button variant="ghost" size="sm" onClick={() => updateHeader({ logoDataUrl: null })}>
+                    <X className="w-4 h-4 mr-1" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-end justify-end">
+              {canExport && (
+                <Button onClick={() => window.print()} disabled={isLoading || !!loadError}>
+                  <Printer className="w-4 h-4 mr-2" />
+                  Print or save as PDF
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center h-64">
+            <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
+            <p className="text-muted-foreground mb-4">{loadStatus || "Loading loan data..."}</p>
+            {loadProgress > 0 && (
+              <div className="w-64 mt-2">
+                <Progress value={loadProgress} className="h-2" />
+                <p className="text-xs text-muted-foreground mt-1 text-center">{loadProgress}% complete</p>
+              </div>
+            )}
+          </div>
+        ) : loadError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            {loansQuery.data?.isOffline && (
+              <CachedDataNotice cachedAt={loansQuery.data.syncedAt} className="mb-6 print:hidden" />
+            )}
+            <div className="overflow-x-auto print:overflow-visible">
+              <PortfolioReportView report={report} header={header} />
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Report;
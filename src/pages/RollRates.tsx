@@ -0,0 +1,188 @@
+
+import { useState, useEffect, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Loader2, AlertCircle, ArrowRightLeft } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import LoanTable from '@/components/LoanTable';
+import SnapshotPicker from '@/components/SnapshotPicker';
+import ExportMenu from '@/components/ExportMenu';
+import RollRateMatrixView, { RollRateSelection } from '@/components/RollRateMatrixView';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FileUploadSummary, LoanSnapshot, LoanSnapshotSource, RollRateFromState, RollRateToState } from '@/utils/types';
+import { formatSnapshotSource, parseSnapshotSource } from '@/utils/loanSnapshots';
+import {
+  ROLL_RATE_FROM_STATES,
+  ROLL_RATE_STATE_LABELS,
+  ROLL_RATE_TO_STATES,
+  buildRollRateMatrix
+} from '@/utils/rollRates';
+import { ExportColumn } from '@/utils/tableExport';
+import { useLoanSnapshot } from '@/hooks/use-loan-queries';
+import { useUploadSummaries } from '@/hooks/use-upload-queries';
+
+const NO_UPLOADS: FileUploadSummary[] = [];
+
+// LoanTable renders every row, very large cells are cut off
+const DRILL_DOWN_LIMIT = 500;
+
+interface TransitionRow {
+  from: RollRateFromState;
+  to: RollRateToState;
+  count: number;
+  principal: number;
+  share: number;
+}
+
+const EXPORT_COLUMNS: ExportColumn<TransitionRow>[] = [
+  { header: 'From', value: row => ROLL_RATE_STATE_LABELS[row.from] },
+  { header: 'To', value: row => ROLL_RATE_STATE_LABELS[row.to] },
+  { header: 'Loans', value: row => row.count },
+  { header: 'Principal', value: row => row.principal },
+  { header: 'Share of From', value: row => row.share },
+];
+
+const RollRates = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selected, setSelected] = useState<RollRateSelection | null>(null);
+
+  const fromParam = searchParams.get('from');
+  const toParam = searchParams.get('to');
+  const fromSource = useMemo(() => parseSnapshotSource(fromParam), [fromParam]);
+  const toSource = useMemo(() => parseSnapshotSource(toParam), [toParam]);
+
+  const uploadsQuery = useUploadSummaries();
+  const fromQuery = useLoanSnapshot(fromSource);
+  const toQuery = useLoanSnapshot(toSource);
+  const uploads = uploadsQuery.data ?? NO_UPLOADS;
+
+  const snapshots = useMemo<[LoanSnapshot, LoanSnapshot] | null>(
+    () => fromSource && toSource && fromQuery.data && toQuery.data ? [fromQuery.data, toQuery.data] : null,
+    [fromSource, toSource, fromQuery.data, toQuery.data]
+  );
+  const isLoading = fromQuery.isLoading || toQuery.isLoading;
+  const loadError = uploadsQuery.isError
+    ? "Failed to load the upload history. Please try again later."
+    : fromQuery.isError || toQuery.isError
+      ? "Failed to rebuild the selected snapshots. Please try again later."
+      : null;
+
+  // A selected cell belongs to the previous pair of snapshots
+  useEffect(() => {
+    setSelected(null);
+  }, [fromSource, toSource]);
+
+  const matrix = useMemo(() => snapshots && buildRollRateMatrix(
+    snapshots[0].loans,
+    snapshots[0].asOf,
+    snapshots[1].loans,
+    snapshots[1].asOf
+  ), [snapshots]);
+
+  // The matrix flattened to one row per cell, in on-screen order
+  const transitionRows = useMemo<TransitionRow[]>(() => matrix ? ROLL_RATE_FROM_STATES.flatMap(from =>
+    ROLL_RATE_TO_STATES.map(to => {
+      const cell = matrix.cells[from][to];
+      const total = matrix.fromTotals[from].count;
+      return { from, to, count: cell.count, principal: cell.principal, share: total > 0 ? cell.count / total : 0 };
+    })
+  ) : [], [matrix]);
+
+  const setSource = (key: 'from' | 'to', source: LoanSnapshotSource | null) => {
+    setSearchParams(current => {
+      const next = new URLSearchParams(current);
+      if (source) {
+        next.set(key, formatSnapshotSource(source));
+      } else {
+        next.delete(key);
+      }
+      return next;
+    }, { replace: true });
+  };
+
+  const selectedCell = matrix && selected ? matrix.cells[selected.from][selected.to] : null;
+
+  return (
+    <div className="min-h-screen flex flex-col pb-16">
+      <AppHeader />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="flex items-center gap-2 mb-6">
+          <ArrowRightLeft className="w-5 h-5 text-primary" />
+          <h2 className="text-2xl font-semibold">Roll Rates</h2>
+        </div>
+
+        <div className="glass-card rounded-xl p-6 mb-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <SnapshotPicker
+            label="From"
+            uploads={uploads}
+            value={fromSource}
+            onChange={source => setSource('from', source)}
+          />
+          <SnapshotPicker
+            label="To"
+            uploads={uploads}
+            value={toSource}
+            onChange={source => setSource('to', source)}
+          />
+        </div>
+
+        {loadError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : isLoading ? (
+          <div className="flex flex-col items-center justify-center h-64">
+            <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
+            <p className="text-muted-foreground">Rebuilding snapshots...</p>
+          </div>
+        ) : !snapshots || !matrix ? (
+          <div className="text-center py-10">
+            <p className="text-muted-foreground">Pick two uploads or dates to see how loans moved between them.</p>
+          </div>
+        ) : (
+          <>
+            <div className="glass-card rounded-xl p-6 mb-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-medium">Status Transitions</h2>
+                <div className="flex items-center gap-4">
+                  <span className="text-sm text-muted-foreground">
+                    {snapshots[0].loans.length.toLocaleString()} → {snapshots[1].loans.length.toLocaleString()} loans
+                  </span>
+                  <ExportMenu name="roll-rates" columns={EXPORT_COLUMNS} rows={transitionRows} />
+                </div>
+              </div>
+
+              <RollRateMatrixView
+                matrix={matrix}
+                fromLabel={snapshots[0].label}
+                toLabel={snapshots[1].label}
+                selected={selected}
+                onSelect={setSelected}
+              />
+            </div>
+
+            {selected && selectedCell && (
+              <div className="glass-card rounded-xl p-6">
+                <h2 className="text-lg font-medium mb-6">
+                  {ROLL_RATE_STATE_LABELS[selected.from]} → {ROLL_RATE_STATE_LABELS[selected.to]}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    {selectedCell.count.toLocaleString()} loans
+                    {selectedCell.count > DRILL_DOWN_LIMIT && `, showing the first ${DRILL_DOWN_LIMIT}`}
+                  </span>
+                </h2>
+                <LoanTable
+                  loans={selectedCell.loans.slice(0, DRILL_DOWN_LIMIT)}
+                  emptyMessage="No loans made this transition"
+                  exportName={`roll-rate-${selected.from}-to-${selected.to}`}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default RollRates;
@@ -0,0 +1,234 @@
+
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+import { Loader2, AlertCircle, ArrowLeft, ChevronLeft, ChevronRight, RotateCcw, Trash2 } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import LoanTable from '@/components/LoanTable';
+import KPICard from '@/components/KPICard';
+import UploadOutcomeSummary from '@/components/UploadOutcomeSummary';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { getLoanRepository } from '@/utils/loanRepository';
+import { useUploadLoans, useUploadOutcome, useUploadSummary } from '@/hooks/use-upload-queries';
+import { useInvalidateLoanData } from '@/hooks/use-loan-queries';
+import { usePermission } from '@/hooks/use-auth';
+
+const PAGE_SIZE = 100;
+
+const UploadDetail = () => {
+  const { uploadId } = useParams<{ uploadId: string }>();
+  const navigate = useNavigate();
+  const [page, setPage] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+  const invalidateLoanData = useInvalidateLoanData();
+  const canRollback = usePermission('rollback');
+
+  const summaryQuery = useUploadSummary(uploadId);
+  const loansQuery = useUploadLoans(uploadId, page, PAGE_SIZE);
+  const outcomeQuery = useUploadOutcome(uploadId);
+
+  const upload = summaryQuery.data ?? null;
+  const outcome = outcomeQuery.data ?? null;
+  const loans = loansQuery.data?.loans ?? [];
+  const loanCount = loansQuery.data?.count ?? 0;
+  const isLoading = summaryQuery.isPending || loansQuery.isPending || outcomeQuery.isPending;
+  const loadError = summaryQuery.isError || loansQuery.isError || outcomeQuery.isError
+    ? "Failed to load this upload. Please try again later."
+    : null;
+
+  const handleRollback = async () => {
+    if (!upload) return;
+
+    try {
+      setIsWorking(true);
+      const result = await getLoanRepository().rollbackUpload(upload.id);
+      toast.success(`Rolled back ${upload.file_name}: ${result.restored} loans restored, ${result.deleted} removed`);
+      setPage(0);
+      await invalidateLoanData();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to roll back upload';
+      toast.error(message);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!upload) return;
+
+    try {
+      setIsWorking(true);
+      await getLoanRepository().deleteUpload(upload.id);
+      toast.success(`Deleted ${upload.file_name} from the upload history`);
+      invalidateLoanData();
+      navigate('/uploads');
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to delete upload';
+      toast.error(message);
+      setIsWorking(false);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(loanCount / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen flex flex-col pb-16">
+      <AppHeader />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <Link to="/uploads" className="inline-flex items-center gap-1 text-sm text-primary hover:text-primary/80 mb-6">
+          <ArrowLeft className="w-4 h-4" />
+          Back to upload history
+        </Link>
+
+        {isLoading && !upload ? (
+          <div className="flex flex-col items-center justify-center h-64">
+            <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
+            <p className="text-muted-foreground">Loading upload...</p>
+          </div>
+        ) : loadError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : !upload ? (
+          <div className="text-center py-10">
+            <p className="text-muted-foreground">This upload does not exist.</p>
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+              <div>
+                <h2 className="text-2xl font-semibold flex items-center gap-3">
+                  {upload.file_name}
+                  {upload.rolled_back_at && <Badge variant="secondary">Rolled back</Badge>}
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  Uploaded on {format(new Date(upload.upload_date), 'MMM d, yyyy - h:mm a')}
+                  {upload.uploaded_by && ` by ${upload.uploaded_by}`}
+                  {upload.rolled_back_at && `, rolled back on ${format(new Date(upload.rolled_back_at), 'MMM d, yyyy - h:mm a')}`}
+                </p>
+              </div>
+
+              {canRollback && (
+                <div className="flex gap-2">
+                  {!upload.rolled_back_at ? (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="outline" disabled={isWorking}>
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                          Roll back this upload
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Roll back {upload.file_name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            {(upload.updated_count + upload.unchanged_count).toLocaleString()} loans will be restored to their values before this upload
+                            and {upload.inserted_count.toLocaleString()} loans it created will be removed.
+                            This happens in a single transaction.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleRollback}>Roll back</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  ) : (
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" disabled={isWorking}>
+                          <Trash2 className="w-4 h-4 mr-2" />
+                          Delete from history
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {upload.file_name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The upload record is removed from the history. Its loans were already rolled back.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+              <KPICard title="Records in File" value={upload.record_count.toLocaleString()} index={0} />
+              <KPICard title="Loans Inserted" value={upload.inserted_count.toLocaleString()} index={1} />
+              <KPICard title="Loans Updated" value={upload.updated_count.toLocaleString()} index={2} />
+              <KPICard title="Loans Unchanged" value={upload.unchanged_count.toLocaleString()} index={3} />
+            </div>
+
+            {outcome && !upload.rolled_back_at && (
+              <UploadOutcomeSummary outcome={outcome} title="Changes Made by This Upload" />
+            )}
+
+            <div className="glass-card rounded-xl p-6">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-lg font-medium">Loans From This Upload</h2>
+                <span className="text-sm text-muted-foreground">
+                  {loanCount.toLocaleString()} loans currently attributed to this upload
+                </span>
+              </div>
+
+              <LoanTable
+                loans={loans}
+                emptyMessage="No loans are attributed to this upload"
+                exportName={`upload-${upload.file_name.replace(/\.[^.]+$/, '')}`}
+              />
+
+              {loanCount > PAGE_SIZE && (
+                <div className="flex items-center justify-between mt-4 text-sm text-muted-foreground">
+                  <span>Page {page + 1} of {pageCount}</span>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page - 1)}
+                      disabled={page === 0 || loansQuery.isFetching}
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setPage(page + 1)}
+                      disabled={page >= pageCount - 1 || loansQuery.isFetching}
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default UploadDetail;
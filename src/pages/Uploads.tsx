@@ -0,0 +1,94 @@
+
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Loader2, AlertCircle, History } from 'lucide-react';
+import AppHeader from '@/components/AppHeader';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useUploadSummaries } from '@/hooks/use-upload-queries';
+
+const Uploads = () => {
+  const navigate = useNavigate();
+  const { data: uploads = [], isPending: isLoading, isError } = useUploadSummaries();
+  const loadError = isError ? "Failed to load upload history. Please try again later." : null;
+
+  return (
+    <div className="min-h-screen flex flex-col pb-16">
+      <AppHeader />
+
+      <main className="flex-1 container mx-auto px-4 py-8">
+        <div className="flex items-center gap-2 mb-6">
+          <History className="w-5 h-5 text-primary" />
+          <h2 className="text-2xl font-semibold">Upload History</h2>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center h-64">
+            <Loader2 className="w-10 h-10 text-primary animate-spin mb-4" />
+            <p className="text-muted-foreground">Loading upload history...</p>
+          </div>
+        ) : loadError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{loadError}</AlertDescription>
+          </Alert>
+        ) : uploads.length === 0 ? (
+          <div className="text-center py-10">
+            <p className="text-muted-foreground">No files have been uploaded yet.</p>
+          </div>
+        ) : (
+          <div className="glass-card rounded-xl p-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>File</TableHead>
+                  <TableHead>Uploaded</TableHead>
+                  <TableHead>Uploaded by</TableHead>
+                  <TableHead className="text-right">Records</TableHead>
+                  <TableHead className="text-right">Inserted</TableHead>
+                  <TableHead className="text-right">Updated</TableHead>
+                  <TableHead className="text-right">Unchanged</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {uploads.map(upload => (
+                  <TableRow
+                    key={upload.id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/uploads/${upload.id}`)}
+                  >
+                    <TableCell className="font-medium">{upload.file_name}</TableCell>
+                    <TableCell>{format(new Date(upload.upload_date), 'MMM d, yyyy - h:mm a')}</TableCell>
+                    <TableCell>{upload.uploaded_by || <span className="text-muted-foreground">Unknown</span>}</TableCell>
+                    <TableCell className="text-right">{upload.record_count.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{upload.inserted_count.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{upload.updated_count.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{upload.unchanged_count.toLocaleString()}</TableCell>
+                    <TableCell>
+                      {upload.rolled_back_at ? (
+                        <Badge variant="secondary">Rolled back</Badge>
+                      ) : (
+                        <Badge variant="outline">Active</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Uploads;
@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AppRole } from "./types";
+import { clearCachedLoanBook } from "./loanCache";
+
+export const signIn = async (email: string, password: string): Promise<void> => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+
+  if (error) {
+    console.error("Error signing in:", error);
+    throw error;
+  }
+};
+
+// The cached loan book holds every borrower wallet, it must not outlive the
+// session on a shared machine
+export const signOut = async (): Promise<void> => {
+  const { error } = await supabase.auth.signOut();
+
+  if (error) {
+    console.error("Error signing out:", error);
+    throw error;
+  }
+
+  await clearCachedLoanBook();
+};
+
+// Null for users without a role row, they can read nothing
+export const fetchCurrentRole = async (): Promise<AppRole | null> => {
+  const { data, error } = await supabase.rpc('current_app_role');
+
+  if (error) {
+    console.error("Error fetching the user's role:", error);
+    throw error;
+  }
+
+  return data ?? null;
+};
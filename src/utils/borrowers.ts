@@ -0,0 +1,203 @@
+import { differenceInCalendarDays, endOfDay } from 'date-fns';
+import { BorrowerAnalytics, BorrowerSummary, LoanData, PriorLoanDefaultRate, TierStep, WalletMatch } from "./types";
+import { getLoanStatus, getOriginationDate, getRepaidDate } from "./loanCalculations";
+
+export const borrowerPath = (wallet: string) => `/borrowers/${encodeURIComponent(wallet)}`;
+
+// Case-insensitive. Contiguous matches rank ahead of scattered ones and
+// earlier positions ahead of later ones; null when the wallet does not match.
+export function scoreWalletMatch(query: string, wallet: string): number | null {
+  const needle = query.trim().toLowerCase();
+  const haystack = wallet.toLowerCase();
+  if (!needle) return null;
+
+  const index = haystack.indexOf(needle);
+  if (index !== -1) return index;
+
+  let first = -1;
+  let position = -1;
+  for (const char of needle) {
+    position = haystack.indexOf(char, position + 1);
+    if (position === -1) return null;
+    if (first === -1) first = position;
+  }
+
+  // Characters spread over most of the address are noise, not a match
+  const span = position - first + 1;
+  return span <= needle.length * 2 ? haystack.length + span : null;
+}
+
+export function searchWallets(loans: LoanData[], query: string, limit = 8): WalletMatch[] {
+  // Wallets that did not match are kept as null so they are scored once
+  const matches = new Map<string, WalletMatch | null>();
+
+  loans.forEach(loan => {
+    const match = matches.get(loan.user_wallet);
+    if (match) {
+      match.loans.push(loan);
+      match.loanCount++;
+    } else if (match === undefined) {
+      const score = scoreWalletMatch(query, loan.user_wallet);
+      matches.set(loan.user_wallet, score === null ? null : { wallet: loan.user_wallet, score, loanCount: 1, loans: [loan] });
+    }
+  });
+
+  return [...matches.values()]
+    .filter((match): match is WalletMatch => match !== null)
+    .sort((a, b) => a.score - b.score || b.loanCount - a.loanCount)
+    .slice(0, limit);
+}
+
+const byOrigination = (a: LoanData, b: LoanData) =>
+  (getOriginationDate(a)?.getTime() ?? 0) - (getOriginationDate(b)?.getTime() ?? 0);
+
+// Lifetime figures for one wallet. Loans are expected to share the wallet.
+export function summarizeBorrower(wallet: string, loans: LoanData[], today: Date = new Date()): BorrowerSummary {
+  const sorted = [...loans].sort(byOrigination);
+  const tiers = new Map<number, TierStep>();
+
+  let totalBorrowed = 0;
+  let totalRepaid = 0;
+  let outstandingAmount = 0;
+  let defaultCount = 0;
+  let dueCount = 0;
+  let onTimeCount = 0;
+  let repaidWithDates = 0;
+  let totalDaysToRepay = 0;
+  let highestAmount = 0;
+
+  sorted.forEach(loan => {
+    const status = getLoanStatus(loan);
+    const dueDate = new Date(loan.loan_due_date);
+    const isDue = !isNaN(dueDate.getTime()) && dueDate < today;
+    const repaidDate = getRepaidDate(loan);
+    const originated = getOriginationDate(loan);
+
+    totalBorrowed += loan.loan_amount;
+    totalRepaid += loan.loan_repaid_amount ?? 0;
+    highestAmount = Math.max(highestAmount, loan.loan_amount);
+
+    if (status === 'defaulted') defaultCount++;
+    if (status === 'in_progress') outstandingAmount += Math.max(0, loan.loan_amount - (loan.loan_repaid_amount ?? 0));
+
+    if (isDue || status === 'repaid') {
+      dueCount++;
+      if (status === 'repaid' && repaidDate && !isNaN(dueDate.getTime()) && repaidDate <= endOfDay(dueDate)) {
+        onTimeCount++;
+      }
+    }
+
+    if (repaidDate && originated) {
+      repaidWithDates++;
+      totalDaysToRepay += Math.max(0, differenceInCalendarDays(repaidDate, originated));
+    }
+
+    const tier = tiers.get(loan.loan_amount);
+    if (tier) {
+      tier.count++;
+    } else {
+      tiers.set(loan.loan_amount, { amount: loan.loan_amount, firstTaken: loan.time_loan_started || null, count: 1 });
+    }
+  });
+
+  return {
+    wallet,
+    loanCount: sorted.length,
+    totalBorrowed,
+    totalRepaid,
+    onTimeRate: dueCount > 0 ? onTimeCount / dueCount : null,
+    averageDaysToRepay: repaidWithDates > 0 ? totalDaysToRepay / repaidWithDates : null,
+    defaultCount,
+    outstandingAmount,
+    firstLoanDate: sorted[0]?.time_loan_started || null,
+    lastLoanDate: sorted[sorted.length - 1]?.time_loan_started || null,
+    highestAmount,
+    tierProgression: [...tiers.values()]
+  };
+}
+
+export function groupLoansByWallet(loans: LoanData[]): Map<string, LoanData[]> {
+  const groups = new Map<string, LoanData[]>();
+
+  loans.forEach(loan => {
+    const group = groups.get(loan.user_wallet);
+    if (group) {
+      group.push(loan);
+    } else {
+      groups.set(loan.user_wallet, [loan]);
+    }
+  });
+
+  return groups;
+}
+
+export function buildBorrowerDirectory(loans: LoanData[], today: Date = new Date()): BorrowerSummary[] {
+  return [...groupLoansByWallet(loans)].map(([wallet, walletLoans]) => summarizeBorrower(wallet, walletLoans, today));
+}
+
+// The last bucket holds every loan with at least this many repaid before it
+const MAX_PRIOR_REPAID = 5;
+
+// Only counts earlier loans that were repaid by the time this one started,
+// when both dates are known
+const countPriorRepaid = (sorted: LoanData[], index: number): number => {
+  const originated = getOriginationDate(sorted[index]);
+
+  return sorted.slice(0, index).filter(loan => {
+    if (getLoanStatus(loan) !== 'repaid') return false;
+    const repaidDate = getRepaidDate(loan);
+    return !repaidDate || !originated || repaidDate <= originated;
+  }).length;
+};
+
+export function buildBorrowerAnalytics(loans: LoanData[], fromAmount = 1, toAmount = 10): BorrowerAnalytics {
+  const buckets: PriorLoanDefaultRate[] = Array.from({ length: MAX_PRIOR_REPAID + 1 }, (_, priorRepaid) => ({
+    label: priorRepaid === MAX_PRIOR_REPAID ? `${priorRepaid}+` : String(priorRepaid),
+    priorRepaid,
+    loanCount: 0,
+    defaultedCount: 0,
+    defaultRate: null
+  }));
+
+  let borrowerCount = 0;
+  let repeatBorrowerCount = 0;
+  let eligible = 0;
+  let graduated = 0;
+
+  groupLoansByWallet(loans).forEach(walletLoans => {
+    const sorted = [...walletLoans].sort(byOrigination);
+
+    borrowerCount++;
+    if (sorted.length > 1) repeatBorrowerCount++;
+
+    const firstStarter = sorted.findIndex(loan => loan.loan_amount === fromAmount);
+    if (firstStarter !== -1) {
+      eligible++;
+      if (sorted.slice(firstStarter + 1).some(loan => loan.loan_amount === toAmount)) graduated++;
+    }
+
+    sorted.forEach((loan, index) => {
+      const bucket = buckets[Math.min(MAX_PRIOR_REPAID, countPriorRepaid(sorted, index))];
+      bucket.loanCount++;
+      if (getLoanStatus(loan) === 'defaulted') bucket.defaultedCount++;
+    });
+  });
+
+  buckets.forEach(bucket => {
+    bucket.defaultRate = bucket.loanCount > 0 ? bucket.defaultedCount / bucket.loanCount : null;
+  });
+
+  return {
+    borrowerCount,
+    repeatBorrowerCount,
+    repeatBorrowerRate: borrowerCount > 0 ? repeatBorrowerCount / borrowerCount : null,
+    graduation: {
+      fromAmount,
+      toAmount,
+      eligible,
+      graduated,
+      rate: eligible > 0 ? graduated / eligible : null
+    },
+    defaultsByPriorLoans: buckets
+  };
+}
@@ -0,0 +1,41 @@
+// Serialization side of the CSV tooling, quoting follows RFC 4180 so files
+// written here read back through createCSVTokenizer unchanged.
+
+import { LoanData } from './types';
+import { COLUMN_MAPPINGS } from './loanRowMapper';
+
+type CSVValue = string | number | boolean | null | undefined;
+
+const escapeCSVValue = (value: CSVValue): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (headers: string[], rows: CSVValue[][]): string => {
+  return [headers, ...rows]
+    .map(row => row.map(escapeCSVValue).join(','))
+    .join('\r\n');
+};
+
+// Same columns as the upload template, so an export can be uploaded again
+const LOAN_COLUMNS = Object.keys(COLUMN_MAPPINGS) as (keyof LoanData)[];
+
+export const loansToCSV = (loans: LoanData[]): string => {
+  return toCSV(LOAN_COLUMNS, loans.map(loan => LOAN_COLUMNS.map(column => loan[column])));
+};
+
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -1,476 +1,300 @@
-import { LoanData, FileUpload } from "./types";
+import {
+  FileUpload,
+  CSVWorkerRequest,
+  CSVWorkerResponse,
+  RowValidationResult,
+  UploadResult,
+  ValidationReport
+} from "./types";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
+import { getLoanRepository } from "./loanRepository";
+import { createCSVTokenizer, CSVDelimiter, detectDelimiter } from "./csvTokenizer";
 
 // Type for progress callback
 type ProgressCallback = (percent: number, message: string) => void;
 
-// Enhanced column name mapping to handle more variations
-const COLUMN_MAPPINGS: Record<string, string[]> = {
-  user_wallet: ['user_wallet', 'wallet', 'user wallet', 'address', 'wallet_address', 'user_address', 'wallet address'],
-  loan_amount: ['loan_amount', 'amount', 'loan amount', 'principal', 'loan_principal', 'loan principal', 'value'],
-  loan_term: ['loan_term', 'term', 'duration', 'period', 'loan_duration', 'loan duration', 'days', 'loan_days'],
-  loan_due_date: ['loan_due_date', 'due_date', 'due date', 'maturity_date', 'maturity date', 'expiry_date', 'expiry date'],
-  loan_repaid_amount: ['loan_repaid_amount', 'repaid_amount', 'repaid amount', 'paid_amount', 'paid amount', 'repayment', 'paid'],
-  time_loan_started: ['time_loan_started', 'date_loan_started', 'loan_started', 'start_date', 'started', 'inception_date', 'inception', 'origination_date'],
-  time_loan_ended: ['time_loan_ended', 'date_loan_ended', 'loan_ended', 'end_date', 'ended', 'termination_date', 'repayment_date', 'completion_date'],
-  default_loan_date: ['default_loan_date', 'date_loan_defaulted', 'defaulted_date', 'default_date', 'loan_defaulted', 'defaulted at', 'default_time'],
-  is_defaulted: ['is_defaulted', 'defaulted', 'is defaulted', 'default', 'loan_defaulted', 'has_defaulted', 'in_default'],
-  version: ['version', 'ver', 'loan_version', 'loan version', 'v']
-};
+export interface CSVParseOptions {
+  // Field separator, detected from the header line when omitted
+  delimiter?: CSVDelimiter;
+  // Column index -> LoanData field, detected from COLUMN_MAPPINGS when omitted
+  headerMap?: Record<number, string>;
+  // Aborting stops the worker and any further database writes
+  signal?: AbortSignal;
+}
 
-// Debug helper to log matching process
-const debugHeaderMatching = (originalHeaders: string[], headerMap: Record<number, string>) => {
-  console.log("CSV Header Debug:");
-  console.log("Original headers:", originalHeaders);
-  console.log("Mapped headers:", headerMap);
-  
-  const unmatchedHeaders = originalHeaders.filter((_, index) => !headerMap[index]);
-  console.log("Unmatched headers:", unmatchedHeaders.length > 0 ? unmatchedHeaders : "None");
-  
-  const matchedFields = Object.values(headerMap);
-  console.log("Required fields found:", 
-    ['user_wallet', 'loan_amount', 'loan_term', 'loan_due_date'].map(field => 
-      `${field}: ${matchedFields.includes(field) ? 'YES' : 'NO'}`
-    )
-  );
-};
+export interface CSVPreview {
+  headers: string[];
+  sampleRows: string[][];
+  delimiter: CSVDelimiter;
+}
 
-// Normalize header name by removing spaces, special chars, and lowercasing
-const normalizeHeaderName = (header: string): string => {
-  return header.toLowerCase()
-    .trim()
-    .replace(/[\s_-]+/g, '_')  // Replace spaces, underscores, hyphens with single underscore
-    .replace(/[^\w]/g, '');    // Remove any non-word characters
-};
+const UPSERT_BATCH_SIZE = 100;
+const PREVIEW_BYTES = 64 * 1024;
+const PREVIEW_ROWS = 5;
 
-// Find the standardized field name based on various possible input names
-const findStandardFieldName = (header: string): string | null => {
-  const normalizedHeader = normalizeHeaderName(header);
-  
-  console.log(`Normalizing header: "${header}" -> "${normalizedHeader}"`);
-  
-  for (const [standardField, variations] of Object.entries(COLUMN_MAPPINGS)) {
-    const normalizedVariations = variations.map(v => normalizeHeaderName(v));
-    if (normalizedVariations.includes(normalizedHeader)) {
-      console.log(`Matched header "${header}" to standard field "${standardField}"`);
-      return standardField;
-    }
-  }
-  
-  console.log(`No match found for header: "${header}"`);
-  return null;
-};
+// Reads only the start of the file to get its headers and a few sample rows
+export const previewCSV = async (
+  file: File,
+  options: Pick<CSVParseOptions, 'delimiter'> = {}
+): Promise<CSVPreview> => {
+  const text = await file.slice(0, PREVIEW_BYTES).text();
+  const delimiter = options.delimiter ?? detectDelimiter(text);
+  const tokenizer = createCSVTokenizer({ delimiter });
 
-// Function to clean and validate timestamp values
-const cleanTimestamp = (value: string | null): string | null => {
-  if (!value) return null;
-  
-  const cleanValue = value.replace(/^["']+|["']+$/g, '').trim();
-  
-  if (!cleanValue || cleanValue === '') return null;
-  
-  try {
-    const date = new Date(cleanValue);
-    if (isNaN(date.getTime())) {
-      console.warn(`Invalid date format: "${cleanValue}"`);
-      return null;
-    }
-    
-    return date.toISOString();
-  } catch (error) {
-    console.warn(`Error parsing date: "${cleanValue}"`, error);
-    return null;
+  // When the file is cut short the trailing partial row is left unflushed
+  const rows = file.size <= PREVIEW_BYTES
+    ? [...tokenizer.push(text), ...tokenizer.flush()]
+    : tokenizer.push(text);
+
+  if (rows.length < 2) {
+    throw new Error("CSV file is empty or has only headers");
   }
+
+  return {
+    headers: rows[0].map(header => header.trim()),
+    sampleRows: rows.slice(1, PREVIEW_ROWS + 1).map(row => row.map(value => value.trim())),
+    delimiter
+  };
 };
 
-export const parseCSV = async (
-  file: File, 
-  progressCallback?: ProgressCallback
-): Promise<LoanData[]> => {
+interface CSVWorkerHandlers<T> {
+  onHeader?: (message: Extract<CSVWorkerResponse, { type: 'header' }>) => Promise<void>;
+  onBatch: (message: Extract<CSVWorkerResponse, { type: 'batch' }>) => Promise<void>;
+  onDone: (message: Extract<CSVWorkerResponse, { type: 'done' }>) => Promise<T>;
+  onProgress: (percent: number) => void;
+  // Runs once the pending work has drained after a failure or cancellation
+  onAbandon?: () => Promise<void>;
+}
+
+// Drives the parsing worker. Handlers run strictly one after another in
+// arrival order, and a batch is acknowledged only once its handler finished,
+// which keeps the worker from racing ahead of slow database writes.
+const runCSVWorker = <T>(
+  file: File,
+  options: CSVParseOptions,
+  handlers: CSVWorkerHandlers<T>
+): Promise<T> => {
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = async (event) => {
-      try {
-        progressCallback?.(10, "Parsing CSV file...");
-        
-        const csvText = event.target?.result as string;
-        if (!csvText) {
-          toast.error("Failed to read file content");
-          reject(new Error("Failed to read file content"));
-          return;
-        }
-        
-        const lines = csvText.split(/\r\n|\n/);
-        if (lines.length < 2) {
-          reject(new Error("CSV file is empty or has only headers"));
-          return;
-        }
-        
-        const headerRow = lines[0];
-        const originalHeaders = headerRow.split(',').map(header => header.trim());
-        
-        console.log("Processing CSV with headers:", originalHeaders);
-        
-        const headerMap: Record<number, string> = {};
-        const missingRequiredHeaders: string[] = [];
-        
-        const requiredFields = ['user_wallet', 'loan_amount', 'loan_term', 'loan_due_date'];
-        const foundRequiredFields = new Set<string>();
-        
-        originalHeaders.forEach((header, index) => {
-          const standardField = findStandardFieldName(header);
-          if (standardField) {
-            headerMap[index] = standardField;
-            if (requiredFields.includes(standardField)) {
-              foundRequiredFields.add(standardField);
-            }
-          } else {
-            console.warn(`Unrecognized header: "${header}"`);
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      reject(new Error("Upload cancelled"));
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/csvParser.worker.ts', import.meta.url), { type: 'module' });
+    let queue: Promise<void> = Promise.resolve();
+    let settled = false;
+
+    const postToWorker = (message: CSVWorkerRequest) => worker.postMessage(message);
+
+    const cleanup = () => {
+      settled = true;
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const fail = (error: unknown) => {
+      if (settled) return;
+      cleanup();
+      queue.catch(() => undefined).then(() => handlers.onAbandon?.()).catch(abandonError => {
+        console.error("Error cleaning up abandoned CSV import:", abandonError);
+      });
+      reject(error);
+    };
+
+    function handleAbort() {
+      postToWorker({ type: 'cancel' });
+      fail(new Error("Upload cancelled"));
+    }
+
+    const enqueue = (task: () => Promise<void>) => {
+      queue = queue.then(() => (settled ? undefined : task()));
+      queue.catch(fail);
+    };
+
+    worker.onmessage = (event: MessageEvent<CSVWorkerResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case 'header':
+          if (message.missingRequiredFields.length > 0) {
+            const warningMsg = `Warning: CSV is missing some required fields: ${message.missingRequiredFields.join(', ')}. Processing will continue with available data.`;
+            console.warn(warningMsg);
+            toast.warning(warningMsg);
           }
-        });
-        
-        debugHeaderMatching(originalHeaders, headerMap);
-        
-        requiredFields.forEach(field => {
-          if (!foundRequiredFields.has(field)) {
-            missingRequiredHeaders.push(field);
+
+          if (handlers.onHeader) {
+            enqueue(() => handlers.onHeader(message));
           }
-        });
-        
-        if (missingRequiredHeaders.length === requiredFields.length) {
-          const errorMsg = `CSV is missing all required fields. Required: ${requiredFields.join(', ')}`;
-          console.error(errorMsg);
-          
-          const foundHeaders = Object.values(headerMap).join(', ');
-          const detailedError = `${errorMsg}\n\nFound fields: ${foundHeaders || 'None'}\n\nPlease ensure your CSV contains the required columns or their variations.`;
-          
-          reject(new Error(detailedError));
-          return;
-        }
-        
-        if (missingRequiredHeaders.length > 0) {
-          const warningMsg = `Warning: CSV is missing some required fields: ${missingRequiredHeaders.join(', ')}. Processing will continue with available data.`;
-          console.warn(warningMsg);
-          toast.warning(warningMsg);
-        }
-        
-        const totalLines = lines.length - 1;
-        let processedLines = 0;
-        let invalidRows = 0;
-        let validRows = 0;
-        
-        const loans: LoanData[] = [];
-        let hasValidationErrors = false;
-        let invalidRowNumbers: number[] = [];
-        
-        progressCallback?.(20, "Validating loan data...");
-        
-        for (let i = 1; i < lines.length; i++) {
-          if (!lines[i].trim()) continue;
-          
-          const values = lines[i].split(',').map(value => value.trim());
-          const loan: Record<string, any> = {};
-          
-          values.forEach((value, index) => {
-            const standardField = headerMap[index];
-            if (!standardField) return;
-            
-            if (standardField === 'loan_amount' || standardField === 'loan_term') {
-              loan[standardField] = parseFloat(value) || 0;
-            } else if (standardField === 'loan_repaid_amount') {
-              loan[standardField] = value ? parseFloat(value) : null;
-            } else if (standardField === 'is_defaulted') {
-              loan[standardField] = value?.toLowerCase() === 'true';
-            } else if (
-              standardField === 'default_loan_date' || 
-              standardField === 'time_loan_ended' ||
-              standardField === 'loan_due_date' ||
-              standardField === 'time_loan_started'
-            ) {
-              loan[standardField] = cleanTimestamp(value);
-            } else {
-              loan[standardField] = value || "";
-            }
+          break;
+
+        case 'progress':
+          handlers.onProgress(message.percent);
+          break;
+
+        case 'batch':
+          enqueue(async () => {
+            await handlers.onBatch(message);
+            postToWorker({ type: 'ack' });
           });
-          
-          requiredFields.forEach(field => {
-            if (!loan[field] && field !== 'user_wallet') {
-              if (field === 'loan_amount' || field === 'loan_term') {
-                loan[field] = 0;
-              } else if (field === 'loan_due_date' && !loan[field]) {
-                loan[field] = new Date(2099, 12, 31).toISOString();
-              }
-            }
+          break;
+
+        case 'done':
+          enqueue(async () => {
+            const result = await handlers.onDone(message);
+            cleanup();
+            resolve(result);
           });
-          
-          if (!loan.user_wallet) {
-            console.error(`Row ${i} is missing required user_wallet field`);
-            hasValidationErrors = true;
-            invalidRowNumbers.push(i);
-            invalidRows++;
-            continue;
-          }
-          
-          if (loan.is_defaulted === undefined) loan.is_defaulted = false;
-          if (!loan.loan_repaid_amount) loan.loan_repaid_amount = null;
-          if (!loan.version) loan.version = "";
-          
-          validRows++;
-          loans.push(loan as LoanData);
-          
-          processedLines++;
-          if (processedLines % Math.max(1, Math.floor(totalLines / 20)) === 0 || 
-              processedLines === totalLines) {
-            const percent = Math.min(20 + Math.floor((processedLines / totalLines) * 30), 50);
-            progressCallback?.(percent, `Processed ${processedLines}/${totalLines} rows (${validRows} valid, ${invalidRows} invalid)...`);
-          }
-        }
-        
-        if (loans.length === 0) {
-          if (hasValidationErrors) {
-            const errorMsg = `No valid loan data found. ${invalidRows} rows had validation errors.`;
-            console.error(errorMsg);
-            if (invalidRowNumbers.length > 0) {
-              console.error(`Invalid rows: ${invalidRowNumbers.slice(0, 10).join(', ')}${
-                invalidRowNumbers.length > 10 ? ` and ${invalidRowNumbers.length - 10} more` : ''
-              }`);
-            }
-            reject(new Error(errorMsg));
-            return;
-          } else {
-            const errorMsg = "No loan data found in CSV file";
-            toast.error(errorMsg);
-            reject(new Error(errorMsg));
-            return;
-          }
-        }
-        
-        if (hasValidationErrors && loans.length > 0) {
-          toast.warning(`${invalidRows} rows had validation errors and were skipped.`);
-        }
-        
-        console.log("Parsed loan data:", loans.length, "loans");
-        progressCallback?.(50, "Storing file information...");
-        
-        const { data: fileUpload, error: fileUploadError } = await storeFileUpload(file.name, loans.length);
-        
-        if (fileUploadError) {
-          console.error("Error storing file upload info:", fileUploadError);
-          toast.error("Error storing file upload information");
-          reject(fileUploadError);
-          return;
-        }
-        
-        progressCallback?.(60, "Uploading loans to database...");
-        
-        const result = await storeLoansInDatabase(loans, fileUpload.id, progressCallback);
-        
-        if (result.error) {
-          console.error("Error storing loans in database:", result.error);
-          toast.error("Error storing loans in database");
-          reject(result.error);
-          return;
-        }
-        
-        progressCallback?.(95, "Finalizing upload...");
-        
-        console.log("Successfully stored", loans.length, "loans in database");
-        
-        const loansWithFileId = loans.map(loan => ({
-          ...loan,
-          file_upload_id: fileUpload.id
-        }));
-        
-        resolve(loansWithFileId);
-      } catch (error) {
-        console.error("Error parsing CSV:", error);
-        toast.error("Error parsing CSV file");
-        reject(error);
+          break;
+
+        case 'error':
+          console.error("Error parsing CSV:", message.message);
+          fail(new Error(message.message));
+          break;
       }
     };
-    
-    reader.onerror = (error) => {
-      console.error("FileReader error:", error);
-      toast.error("Error reading file");
-      reject(error);
+
+    worker.onerror = (event) => {
+      console.error("CSV worker error:", event);
+      toast.error("Error parsing CSV file");
+      fail(new Error(event.message || "Error parsing CSV file"));
     };
-    
-    reader.readAsText(file);
+
+    signal?.addEventListener('abort', handleAbort);
+
+    postToWorker({
+      type: 'start',
+      file,
+      delimiter: options.delimiter,
+      headerMap: options.headerMap,
+      batchSize: UPSERT_BATCH_SIZE
+    });
   });
 };
 
-const storeFileUpload = async (fileName: string, recordCount: number): Promise<{ data: FileUpload, error: any }> => {
-  const { data, error } = await supabase
-    .from('file_uploads')
-    .insert({
-      file_name: fileName,
-      record_count: recordCount
-    })
-    .select()
-    .single();
-  
-  return { data, error };
+const getNoValidRowsMessage = (invalidRows: number) => {
+  return invalidRows > 0
+    ? `No valid loan data found. ${invalidRows} rows had validation errors.`
+    : "No loan data found in CSV file";
 };
 
-const storeLoansInDatabase = async (
-  loans: LoanData[], 
-  fileUploadId: string,
-  progressCallback?: ProgressCallback
-) => {
-  const loansToUpsert = loans.map(loan => {
-    return {
-      user_wallet: loan.user_wallet,
-      loan_amount: loan.loan_amount,
-      loan_repaid_amount: loan.loan_repaid_amount,
-      loan_term: loan.loan_term,
-      time_loan_started: loan.time_loan_started || null,
-      time_loan_ended: loan.time_loan_ended || null,
-      loan_due_date: loan.loan_due_date || null,
-      default_loan_date: loan.default_loan_date || null,
-      is_defaulted: loan.is_defaulted,
-      version: loan.version || null,
-      file_upload_id: fileUploadId
-    };
+// Dry run: parses and validates the whole file without writing anything
+export const validateCSV = async (
+  file: File,
+  progressCallback?: ProgressCallback,
+  options: CSVParseOptions = {}
+): Promise<ValidationReport> => {
+  const rows: RowValidationResult[] = [];
+
+  progressCallback?.(5, "Validating CSV file...");
+
+  return runCSVWorker(file, options, {
+    onProgress: (percent) => {
+      progressCallback?.(
+        Math.min(5 + Math.floor(percent * 0.9), 95),
+        `Validated ${percent}% of file, ${rows.length} rows with issues...`
+      );
+    },
+    onBatch: async (message) => {
+      message.issues.forEach(row => rows.push(row));
+    },
+    onDone: async ({ totalRows, validRows, invalidRows, warningRows }) => {
+      progressCallback?.(100, "Validation complete");
+      return { fileName: file.name, totalRows, validRows, invalidRows, warningRows, rows };
+    }
   });
+};
 
-  const batchSize = 100;
-  const batches = [];
-  
-  for (let i = 0; i < loansToUpsert.length; i += batchSize) {
-    batches.push(loansToUpsert.slice(i, i + batchSize));
-  }
+// Parses the file in a Web Worker and upserts each batch of loans as soon as
+// the worker posts it, so storing overlaps with parsing.
+export const parseCSV = async (
+  file: File, 
+  progressCallback?: ProgressCallback,
+  options: CSVParseOptions = {}
+): Promise<UploadResult> => {
+  // Only counted, keeping every stored row here would hold the whole file in memory
+  let storedCount = 0;
+  const invalidRowNumbers: number[] = [];
+  let fileUpload: FileUpload | null = null;
+  let parsePercent = 0;
+
+  const reportProgress = () => {
+    const percent = Math.min(5 + Math.floor(parsePercent * 0.9), 95);
+    progressCallback?.(percent, `Parsed ${parsePercent}% of file, stored ${storedCount} loans...`);
+  };
 
-  let error = null;
-  let processedCount = 0;
-  const totalCount = loansToUpsert.length;
-
-  for (const [batchIndex, batch] of batches.entries()) {
-    try {
-      const { error: batchError } = await supabase
-        .from('loans')
-        .upsert(batch, {
-          onConflict: 'user_wallet,loan_amount,loan_due_date',
-          ignoreDuplicates: false
-        });
-      
-      if (batchError) {
-        console.error("Error upserting batch:", batchError);
-        error = batchError;
-        break;
+  const repository = getLoanRepository();
+
+  progressCallback?.(5, "Parsing CSV file...");
+
+  return runCSVWorker(file, options, {
+    onProgress: (percent) => {
+      parsePercent = percent;
+      reportProgress();
+    },
+    onHeader: async () => {
+      progressCallback?.(5, "Storing file information...");
+      try {
+        fileUpload = await repository.createUpload(file.name);
+      } catch (error) {
+        console.error("Error storing file upload info:", error);
+        toast.error("Error storing file upload information");
+        throw error;
       }
-      
-      processedCount += batch.length;
-      const percent = 60 + Math.floor((processedCount / totalCount) * 30);
-      progressCallback?.(percent, `Storing loans in database (${processedCount}/${totalCount})...`);
-      
-    } catch (err) {
-      console.error("Error processing batch:", err);
-      error = err;
-      break;
-    }
-  }
+    },
+    onBatch: async (message) => {
+      message.issues
+        .filter(row => row.issues.some(issue => issue.severity === 'error'))
+        .forEach(row => invalidRowNumbers.push(row.rowNumber));
 
-  return { error };
-};
+      if (message.loans.length === 0) return;
 
-export const fetchLoansFromDatabase = async (progressCallback?: ProgressCallback): Promise<LoanData[]> => {
-  try {
-    const pageSize = 1000; // Maximum number of records per page
-    let allLoans: LoanData[] = [];
-    let page = 0;
-    let hasMore = true;
-    
-    // Start loading message
-    progressCallback?.(0, "Loading loan data...");
-    
-    // Get total count first to calculate progress
-    const { count, error: countError } = await supabase
-      .from('loans')
-      .select('*', { count: 'exact', head: true });
-      
-    if (countError) {
-      console.error("Error counting loans:", countError);
-      toast.error("Error counting loans in database");
-      throw countError;
-    }
-    
-    const totalCount = count || 0;
-    console.log(`Found ${totalCount} total loans to fetch`);
-    
-    if (totalCount === 0) {
-      progressCallback?.(100, "No loans found");
-      return [];
-    }
-    
-    while (hasMore) {
-      const from = page * pageSize;
-      const to = from + pageSize - 1;
-      
-      progressCallback?.(
-        Math.round((allLoans.length / totalCount) * 100), 
-        `Loading loans ${from + 1}-${to + 1} of ${totalCount}...`
-      );
-      
-      const { data, error } = await supabase
-        .from('loans')
-        .select('*')
-        .range(from, to)
-        .order('loan_due_date', { ascending: true });
-        
-      if (error) {
-        console.error(`Error fetching loans page ${page}:`, error);
-        toast.error(`Error fetching loans (page ${page + 1})`);
+      try {
+        await repository.upsertLoans(message.loans, fileUpload.id);
+      } catch (error) {
+        console.error("Error storing loans in database:", error);
+        toast.error("Error storing loans in database");
         throw error;
       }
-      
-      if (!data || data.length === 0) {
-        hasMore = false;
-      } else {
-        allLoans = [...allLoans, ...data as LoanData[]];
-        page++;
-        
-        // If we got fewer records than pageSize, we've reached the end
-        if (data.length < pageSize) {
-          hasMore = false;
-        }
+
+      storedCount += message.loans.length;
+      reportProgress();
+    },
+    onDone: async ({ invalidRows }) => {
+      if (storedCount === 0) {
+        throw new Error(getNoValidRowsMessage(invalidRows));
+      }
+
+      if (invalidRows > 0) {
+        console.error(`Invalid rows: ${invalidRowNumbers.slice(0, 10).join(', ')}${
+          invalidRowNumbers.length > 10 ? ` and ${invalidRowNumbers.length - 10} more` : ''
+        }`);
+        toast.warning(`${invalidRows} rows had validation errors and were skipped.`);
       }
-    }
-    
-    progressCallback?.(100, "Loan data loaded successfully");
-    console.log(`Fetched ${allLoans.length} loans from database`);
-    
-    if (allLoans.length === 0) {
-      console.log("No loans found in the database");
-      return [];
-    }
-    
-    return allLoans as LoanData[];
-  } catch (error) {
-    console.error("Error in fetchLoansFromDatabase:", error);
-    toast.error("Failed to fetch loan data");
-    throw error;
-  }
-};
 
-export const fetchLatestFileUpload = async (): Promise<FileUpload | null> => {
-  try {
-    const { data, error } = await supabase
-      .from('file_uploads')
-      .select('*')
-      .order('upload_date', { ascending: false })
-      .limit(1)
-      .maybeSingle();
-    
-    if (error) {
-      console.error("Error fetching latest file upload:", error);
-      return null;
+      progressCallback?.(95, "Finalizing upload...");
+      const outcome = await repository.finalizeUpload(fileUpload.id, storedCount).catch(error => {
+        console.error("Error finalizing file upload:", error);
+        return null;
+      });
+
+      console.log("Successfully stored", storedCount, "loans in database", outcome);
+      return { fileUploadId: fileUpload.id, loanCount: storedCount, outcome };
+    },
+    // Keep file_uploads consistent with what actually reached the database
+    onAbandon: async () => {
+      if (!fileUpload) return;
+
+      try {
+        if (storedCount === 0) {
+          await repository.discardUpload(fileUpload.id);
+        } else {
+          await repository.finalizeUpload(fileUpload.id, storedCount);
+        }
+      } catch (error) {
+        console.error("Error finalizing abandoned upload:", error);
+      }
     }
-    
-    return data as FileUpload;
-  } catch (error) {
-    console.error("Error in fetchLatestFileUpload:", error);
-    return null;
-  }
+  });
 };
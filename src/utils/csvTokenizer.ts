@@ -0,0 +1,150 @@
+// RFC 4180 tokenizer used by the CSV import pipeline.
+// It is incremental: text can be pushed in arbitrary chunks (a quoted field,
+// an escaped quote or a CRLF pair may straddle two chunks) and complete rows
+// are returned as soon as they are known.
+
+export type CSVDelimiter = ',' | ';' | '\t';
+
+export const SUPPORTED_DELIMITERS: CSVDelimiter[] = [',', ';', '\t'];
+
+export interface CSVTokenizerOptions {
+  delimiter?: CSVDelimiter;
+}
+
+export interface CSVTokenizer {
+  // Feed the next piece of text, returns every row completed by it
+  push: (chunk: string) => string[][];
+  // Signal end of input, returns the trailing row if there is one
+  flush: () => string[][];
+}
+
+const QUOTE = '"';
+const BOM = 0xfeff;
+
+export const createCSVTokenizer = ({ delimiter = ',' }: CSVTokenizerOptions = {}): CSVTokenizer => {
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quote was seen inside a quoted field; the next char decides whether it
+  // was an escaped quote ("") or the closing quote
+  let quotePending = false;
+  // Last char was a CR ending a row, so a following LF belongs to it
+  let skipLineFeed = false;
+  let bomChecked = false;
+  let rowStarted = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = (rows: string[][]) => {
+    endField();
+    // Blank lines carry no data, skip them instead of emitting [""]
+    if (row.length > 1 || row[0] !== '' || rowStarted) {
+      rows.push(row);
+    }
+    row = [];
+    rowStarted = false;
+  };
+
+  const push = (chunk: string): string[][] => {
+    const rows: string[][] = [];
+    let start = 0;
+
+    if (!bomChecked && chunk.length > 0) {
+      bomChecked = true;
+      if (chunk.charCodeAt(0) === BOM) start = 1;
+    }
+
+    for (let i = start; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === QUOTE) {
+          field += QUOTE;
+          continue;
+        }
+        // Closing quote, handle the current char as unquoted content
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === QUOTE) {
+          quotePending = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === QUOTE && field === '') {
+        inQuotes = true;
+        rowStarted = true;
+      } else if (char === delimiter) {
+        endField();
+      } else if (char === '\n') {
+        endRow(rows);
+      } else if (char === '\r') {
+        endRow(rows);
+        skipLineFeed = true;
+      } else {
+        // Stray quotes in the middle of an unquoted field are kept as-is
+        field += char;
+      }
+    }
+
+    return rows;
+  };
+
+  const flush = (): string[][] => {
+    const rows: string[][] = [];
+
+    if (quotePending) {
+      quotePending = false;
+      inQuotes = false;
+    }
+
+    if (inQuotes) {
+      console.warn("CSV input ended inside a quoted field, keeping the partial value");
+      inQuotes = false;
+    }
+
+    if (field !== '' || row.length > 0 || rowStarted) {
+      endRow(rows);
+    }
+
+    return rows;
+  };
+
+  return { push, flush };
+};
+
+// Guess the delimiter from the header line by counting candidates that appear
+// outside of quoted sections. Falls back to a comma.
+export const detectDelimiter = (text: string): CSVDelimiter => {
+  const counts: Record<CSVDelimiter, number> = { ',': 0, ';': 0, '\t': 0 };
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === QUOTE) {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      break;
+    } else if (!inQuotes && char in counts) {
+      counts[char as CSVDelimiter]++;
+    }
+  }
+
+  return SUPPORTED_DELIMITERS.reduce((best, candidate) =>
+    counts[candidate] > counts[best] ? candidate : best
+  , ',' as CSVDelimiter);
+};
@@ -0,0 +1,163 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import {
+  AgingBucket,
+  AggregatedPARPoint,
+  ArrearsCount,
+  LoanData,
+  PARRatio,
+  PARSnapshot,
+  CohortGranularity
+} from './types';
+import { getClosedByDate, getLoanStatus, getOriginationDate } from './loanCalculations';
+import { formatPeriod } from './timeSeries';
+
+export const AGING_BUCKETS: Pick<AgingBucket, 'key' | 'label' | 'minDays' | 'maxDays'>[] = [
+  { key: '1-7', label: '1–7 days', minDays: 1, maxDays: 7 },
+  { key: '8-30', label: '8–30 days', minDays: 8, maxDays: 30 },
+  { key: '31-60', label: '31–60 days', minDays: 31, maxDays: 60 },
+  { key: '61-90', label: '61–90 days', minDays: 61, maxDays: 90 },
+  { key: '90+', label: '90+ days', minDays: 91, maxDays: null }
+];
+
+// PAR n is the share of outstanding principal more than n days past due,
+// PAR 1 counts any arrears at all
+export const PAR_THRESHOLDS: Pick<PARRatio, 'key' | 'label' | 'minDays'>[] = [
+  { key: 'par1', label: 'PAR 1', minDays: 1 },
+  { key: 'par7', label: 'PAR 7', minDays: 8 },
+  { key: 'par30', label: 'PAR 30', minDays: 31 },
+  { key: 'par60', label: 'PAR 60', minDays: 61 },
+  { key: 'par90', label: 'PAR 90', minDays: 91 }
+];
+
+// The dates that decide whether a loan is outstanding, portfolio_summary
+// derives the same ones in SQL
+interface LoanExposure {
+  loan: LoanData;
+  originatedAt: number;
+  // Infinity while open, -Infinity when closed without any known date
+  closedAt: number;
+  dueAt: Date | null;
+}
+
+// Closed loans without a close date count as closed by now
+const toExposure = (loan: LoanData, now: Date = new Date()): LoanExposure => {
+  const closedBy = getClosedByDate(loan, now);
+  const dueAt = new Date(loan.loan_due_date);
+
+  return {
+    loan,
+    originatedAt: getOriginationDate(loan)?.getTime() ?? -Infinity,
+    closedAt: getLoanStatus(loan) === 'in_progress' ? Infinity : closedBy ? closedBy.getTime() : -Infinity,
+    dueAt: isNaN(dueAt.getTime()) ? null : dueAt
+  };
+};
+
+// Originated and neither repaid nor defaulted on that day
+const isOutstandingOn = (exposure: LoanExposure, asOf: Date): boolean =>
+  exposure.originatedAt <= asOf.getTime() && exposure.closedAt > asOf.getTime();
+
+const daysPastDue = (exposure: LoanExposure, asOf: Date): number =>
+  exposure.dueAt ? Math.max(0, differenceInCalendarDays(asOf, exposure.dueAt)) : 0;
+
+// Days past loan_due_date, 0 for loans not yet due
+export const getDaysPastDue = (loan: LoanData, asOf: Date = new Date()): number =>
+  daysPastDue(toExposure(loan), asOf);
+
+// Past-due loans that are neither repaid nor marked defaulted, by days late.
+// Principal is the full loan amount, as repayment timing is not recorded.
+// now is when the data was read, asOf may be earlier
+export function buildAgingBuckets(loans: LoanData[], asOf: Date = new Date(), now: Date = asOf): AgingBucket[] {
+  const buckets: AgingBucket[] = AGING_BUCKETS.map(bucket => ({ ...bucket, count: 0, principal: 0, loans: [] }));
+
+  loans.map(loan => toExposure(loan, now)).forEach(exposure => {
+    if (!isOutstandingOn(exposure, asOf)) return;
+
+    const days = daysPastDue(exposure, asOf);
+    const bucket = buckets.find(b => days >= b.minDays && (b.maxDays === null || days <= b.maxDays));
+    if (!bucket) return;
+
+    const { loan } = exposure;
+    bucket.count++;
+    bucket.principal += loan.loan_amount;
+    bucket.loans.push(loan);
+  });
+
+  buckets.forEach(bucket => {
+    bucket.loans.sort((a, b) =>
+      new Date(a.loan_due_date).getTime() - new Date(b.loan_due_date).getTime()
+    );
+  });
+
+  return buckets;
+}
+
+// atRisk holds the principal at risk for each PAR_THRESHOLDS entry
+const toPARRatios = (outstandingPrincipal: number, atRisk: number[]): PARRatio[] =>
+  PAR_THRESHOLDS.map((threshold, index) => ({
+    ...threshold,
+    principal: atRisk[index] ?? 0,
+    ratio: outstandingPrincipal > 0 ? (atRisk[index] ?? 0) / outstandingPrincipal : 0
+  }));
+
+const measurePAR = (exposures: LoanExposure[], asOf: Date): { outstandingPrincipal: number; ratios: PARRatio[] } => {
+  let outstandingPrincipal = 0;
+  const atRisk = PAR_THRESHOLDS.map(() => 0);
+
+  exposures.forEach(exposure => {
+    if (!isOutstandingOn(exposure, asOf)) return;
+
+    const amount = exposure.loan.loan_amount;
+    const days = daysPastDue(exposure, asOf);
+    outstandingPrincipal += amount;
+    PAR_THRESHOLDS.forEach((threshold, index) => {
+      if (days >= threshold.minDays) atRisk[index] += amount;
+    });
+  });
+
+  return { outstandingPrincipal, ratios: toPARRatios(outstandingPrincipal, atRisk) };
+};
+
+export function calculatePAR(
+  loans: LoanData[],
+  asOf: Date = new Date(),
+  now: Date = asOf
+): { outstandingPrincipal: number; ratios: PARRatio[] } {
+  return measurePAR(loans.map(loan => toExposure(loan, now)), asOf);
+}
+
+// Aging buckets from the arrears histogram portfolio_summary returns
+export function buildAgingBucketsFromArrears(arrears: ArrearsCount[]): AgingBucket[] {
+  const buckets: AgingBucket[] = AGING_BUCKETS.map(bucket => ({ ...bucket, count: 0, principal: 0, loans: [] }));
+
+  arrears.forEach(({ days, count, principal }) => {
+    const bucket = buckets.find(b => days >= b.minDays && (b.maxDays === null || days <= b.maxDays));
+    if (!bucket) return;
+
+    bucket.count += count;
+    bucket.principal += principal;
+  });
+
+  return buckets;
+}
+
+export function measurePARFromArrears(arrears: ArrearsCount[]): { outstandingPrincipal: number; ratios: PARRatio[] } {
+  const outstandingPrincipal = arrears.reduce((sum, entry) => sum + entry.principal, 0);
+  const atRisk = PAR_THRESHOLDS.map(threshold =>
+    arrears.reduce((sum, entry) => entry.days >= threshold.minDays ? sum + entry.principal : sum, 0)
+  );
+
+  return { outstandingPrincipal, ratios: toPARRatios(outstandingPrincipal, atRisk) };
+}
+
+// PAR at the end of every week or month since the first origination, as
+// measured by portfolio_summary
+export function buildPARTrend(points: AggregatedPARPoint[], granularity: CohortGranularity): PARSnapshot[] {
+  return points.map(point => ({
+    period: point.period,
+    label: formatPeriod(parseISO(point.period), granularity),
+    outstandingPrincipal: point.outstanding_principal,
+    ratios: Object.fromEntries(
+      toPARRatios(point.outstanding_principal, point.at_risk).map(ratio => [ratio.key, ratio.ratio])
+    )
+  }));
+}
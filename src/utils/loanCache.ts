@@ -0,0 +1,208 @@
+import { supabase } from "@/integrations/supabase/client";
+import { activeSupabaseEnvironment } from "@/integrations/supabase/environments";
+import { CachedLoanBook, LoanBook, LoanChange, LoanData } from "./types";
+import { getLoanRepository } from "./loanRepository";
+import { applyLoanChanges } from "./loanChanges";
+import { openDatabase, requestResult, transactionDone } from "./indexedDb";
+
+// One cache per Supabase project, switching never shows another project's loans
+const DB_NAME = `loan-analytics-${activeSupabaseEnvironment?.id ?? 'default'}`;
+// One record per loan, so a sync only writes the loans that changed
+const LOANS_STORE = 'loans';
+// The cursor and time of the last sync, under SYNC_KEY
+const META_STORE = 'meta';
+const SYNC_KEY = 'sync';
+const PAGE_SIZE = 1000;
+
+type SyncState = Pick<CachedLoanBook, 'cursor' | 'syncedAt'>;
+
+// Version 1 kept the whole book in one record, it is dropped and synced again
+const openCacheDatabase = () => openDatabase(DB_NAME, 2, (db, oldVersion) => {
+  if (oldVersion === 1) db.deleteObjectStore('loan-book');
+  if (oldVersion < 2) {
+    db.createObjectStore(LOANS_STORE, { keyPath: 'id' });
+    db.createObjectStore(META_STORE);
+  }
+});
+
+const writeCache = async (write: (loans: IDBObjectStore, meta: IDBObjectStore) => void): Promise<void> => {
+  const db = await openCacheDatabase();
+  try {
+    const transaction = db.transaction([LOANS_STORE, META_STORE], 'readwrite');
+    write(transaction.objectStore(LOANS_STORE), transaction.objectStore(META_STORE));
+    await transactionDone(transaction);
+  } finally {
+    db.close();
+  }
+};
+
+const byDueDate = (a: LoanData, b: LoanData) =>
+  new Date(a.loan_due_date).getTime() - new Date(b.loan_due_date).getTime();
+
+// Private windows and some embedded browsers have no IndexedDB, the app then
+// works without the cache
+export const readCachedLoanBook = async (): Promise<CachedLoanBook | null> => {
+  try {
+    const db = await openCacheDatabase();
+    try {
+      const transaction = db.transaction([LOANS_STORE, META_STORE], 'readonly');
+      const [sync, loans] = await Promise.all([
+        requestResult(transaction.objectStore(META_STORE).get(SYNC_KEY) as IDBRequest<SyncState | undefined>),
+        requestResult(transaction.objectStore(LOANS_STORE).getAll() as IDBRequest<LoanData[]>)
+      ]);
+      return sync ? { ...sync, loans: loans.sort(byDueDate) } : null;
+    } finally {
+      db.close();
+    }
+  } catch (error) {
+    console.error("Error reading the cached loan book:", error);
+    return null;
+  }
+};
+
+const replaceCachedLoanBook = async (loans: LoanData[], sync: SyncState): Promise<void> => {
+  try {
+    await writeCache((loanStore, metaStore) => {
+      loanStore.clear();
+      loans.forEach(loan => loanStore.put(loan));
+      metaStore.put(sync, SYNC_KEY);
+    });
+  } catch (error) {
+    console.error("Error writing the cached loan book:", error);
+  }
+};
+
+// The changes and the cursor they were fetched up to are written together,
+// a failed write leaves the cache at its previous cursor
+const writeCachedLoanChanges = async (changes: LoanChange[], sync: SyncState): Promise<void> => {
+  try {
+    await writeCache((loanStore, metaStore) => {
+      changes.forEach(change => {
+        if (change.type === 'upsert') loanStore.put(change.loan);
+        else loanStore.delete(change.id);
+      });
+      metaStore.put(sync, SYNC_KEY);
+    });
+  } catch (error) {
+    console.error("Error writing changes to the cached loan book:", error);
+  }
+};
+
+export const clearCachedLoanBook = async (): Promise<void> => {
+  try {
+    await writeCache((loanStore, metaStore) => {
+      loanStore.clear();
+      metaStore.clear();
+    });
+  } catch (error) {
+    console.error("Error clearing the cached loan book:", error);
+  }
+};
+
+export const fetchLoanChangeCursor = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('loan_change_cursor');
+
+  if (error) {
+    console.error("Error fetching the loan change cursor:", error);
+    throw error;
+  }
+
+  return data ?? 0;
+};
+
+// Every loan written from the cursor on, as its current row or as a delete
+export const fetchLoanChangesSince = async (cursor: number): Promise<LoanChange[]> => {
+  const changes: LoanChange[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('changed_loans', { p_cursor: cursor })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching changed loans:", error);
+      throw error;
+    }
+
+    changes.push(...(data || []).map(loan => ({ type: 'upsert' as const, loan: loan as LoanData })));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('deleted_loan_ids', { p_cursor: cursor })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching deleted loans:", error);
+      throw error;
+    }
+
+    changes.push(...(data || []).map(row => ({ type: 'delete' as const, id: row.id })));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return changes;
+};
+
+// Brings the cached loan book up to date, downloading every loan only when
+// there is no cache yet. When the database cannot be reached the cached loans
+// are returned as they are. The local repository is read directly.
+export const syncLoanBook = async (
+  progressCallback?: (percent: number, message: string) => void
+): Promise<LoanBook> => {
+  const repository = getLoanRepository();
+
+  if (repository.isLocal) {
+    return { loans: await repository.fetchLoans(progressCallback), syncedAt: new Date().toISOString(), isOffline: false };
+  }
+
+  const cached = await readCachedLoanBook();
+
+  try {
+    // Read before the loans, changes made while they download are fetched
+    // again on the next sync
+    const cursor = await fetchLoanChangeCursor();
+    const sync: SyncState = { cursor, syncedAt: new Date().toISOString() };
+    let loans: LoanData[];
+
+    // A lower cursor means the database was replaced, the cache cannot be
+    // caught up from it
+    if (!cached || cursor < cached.cursor) {
+      loans = await repository.fetchLoans(progressCallback);
+      await replaceCachedLoanBook(loans, sync);
+    } else {
+      progressCallback?.(0, "Loading changes since the last visit...");
+      const changes = await fetchLoanChangesSince(cached.cursor);
+      loans = applyLoanChanges(cached.loans, changes, 'loan_due_date');
+      await writeCachedLoanChanges(changes, sync);
+    }
+
+    return { loans, syncedAt: sync.syncedAt, isOffline: false };
+  } catch (error) {
+    if (!cached) throw error;
+
+    console.error("Database unreachable, using the cached loan book:", error);
+    return { loans: cached.loans, syncedAt: cached.syncedAt, isOffline: true };
+  }
+};
+
+// Runs a database read and, when it fails, computes the answer from the
+// cached loan book instead, as of the last visit to a page that reads the
+// book. Without a cache the error is rethrown.
+export const readWithCacheFallback = async <T>(
+  read: () => Promise<T>,
+  fallback: (book: CachedLoanBook) => T
+): Promise<T> => {
+  try {
+    return await read();
+  } catch (error) {
+    const cached = await readCachedLoanBook();
+    if (!cached) throw error;
+
+    console.error("Database unreachable, falling back to the cached loan book:", error);
+    return fallback(cached);
+  }
+};
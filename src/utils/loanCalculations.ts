@@ -1,10 +1,20 @@
-import { LoanData, DueDateGroup, LoanMetrics, ChartData } from './types';
-
-export function groupLoansByDueDate(loans: LoanData[]): DueDateGroup[] {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  // Define our due date groups (without "more than 30 days")
+import {
+  LoanData,
+  DueDateGroup,
+  DueDaysCount,
+  LoanMetrics,
+  ChartData,
+  LoanProduct,
+  LoanStatus,
+  LoanStatusCount,
+  ProductTierMetrics,
+  TierChartData
+} from './types';
+import { findLoanProduct } from './loanProducts';
+
+// In-progress loans by days until due, cumulative up to 30 days with the
+// rest in a group of its own
+export function buildDueDateGroups(dueDays: DueDaysCount[]): DueDateGroup[] {
   const dueGroups: DueDateGroup[] = [
     { label: "Due in 1 day", days: 1, count: 0, loans: [] },
     { label: "Due in 5 days", days: 5, count: 0, loans: [] },
@@ -12,168 +22,134 @@ export function groupLoansByDueDate(loans: LoanData[]): DueDateGroup[] {
     { label: "Due in 10 days", days: 10, count: 0, loans: [] },
     { label: "Due in 14 days", days: 14, count: 0, loans: [] },
     { label: "Due in 30 days", days: 30, count: 0, loans: [] },
-    // New group for >30 days
     { label: "Due in >30 days", days: Infinity, count: 0, loans: [] },
   ];
 
-  // Only process non-defaulted and not fully repaid loans that are due in the future
-  const activeLoans = loans.filter(loan => {
-    if (loan.is_defaulted || loan.default_loan_date) return false;
-
-    const dueDate = new Date(loan.loan_due_date);
-    const isDueDateInFuture = !isNaN(dueDate.getTime()) && dueDate > today;
-    const isMissingRepaidAmount = loan.loan_repaid_amount === undefined || loan.loan_repaid_amount === null;
-
-    return isDueDateInFuture && (isMissingRepaidAmount || loan.loan_repaid_amount < loan.loan_amount);
-  });
-
-  activeLoans.forEach(loan => {
-    const dueDate = new Date(loan.loan_due_date);
-
-    // Skip invalid dates
-    if (isNaN(dueDate.getTime())) return;
-
-    // Calculate days until due
-    const diffTime = dueDate.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+  dueDays.forEach(({ days, count }) => {
+    if (days > 30) {
+      dueGroups[dueGroups.length - 1].count += count;
+      return;
+    }
 
-    let addedToAnyGroup = false;
-    // For groups except the last "Due in >30 days"
     dueGroups.slice(0, -1).forEach(group => {
-      if (diffDays <= group.days) {
-        group.count++;
-        group.loans.push(loan);
-        addedToAnyGroup = true;
-      }
+      if (days <= group.days) group.count += count;
     });
-    // Add to "Due in >30 days" if not present in any of the previous groups
-    if (!addedToAnyGroup && diffDays > 30) {
-      dueGroups[dueGroups.length - 1].count++;
-      dueGroups[dueGroups.length - 1].loans.push(loan);
-    }
-  });
-
-  // Sort loans by due date within each group
-  dueGroups.forEach(group => {
-    group.loans.sort((a, b) =>
-      new Date(a.loan_due_date).getTime() - new Date(b.loan_due_date).getTime()
-    );
   });
 
   return dueGroups;
 }
 
-export function getExpiredLoans(loans: LoanData[]): LoanData[] {
-  if (!loans || !Array.isArray(loans)) {
-    console.warn("getExpiredLoans received invalid loans data:", loans);
-    return [];
+export const LOAN_STATUS_LABELS: Record<LoanStatus, string> = {
+  in_progress: 'In Progress',
+  repaid: 'Repaid',
+  defaulted: 'Defaulted',
+};
+
+// Mirrors the loan_status database function
+export function getLoanStatus(loan: LoanData): LoanStatus {
+  if (loan.is_defaulted || loan.default_loan_date) return 'defaulted';
+  if (loan.loan_repaid_amount !== null && loan.loan_repaid_amount !== undefined && loan.loan_repaid_amount >= loan.loan_amount) {
+    return 'repaid';
   }
+  return 'in_progress';
+}
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  console.log("Total loans to check for expiration:", loans.length);
-
-  // Filter for loans where:
-  // 1. The due date is in the past (before today)
-  // 2. The loan is not marked as defaulted
-  // 3. The loan is not fully repaid
-  const expiredLoans = loans.filter(loan => {
-    if (!loan || loan.is_defaulted || loan.default_loan_date) return false;
+const parseLoanDate = (value: string | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
 
-    const dueDate = new Date(loan.loan_due_date);
+export function getOriginationDate(loan: LoanData): Date | null {
+  return parseLoanDate(loan.time_loan_started);
+}
 
-    // Check if due date is valid and in the past
-    const isDueDateInPast = !isNaN(dueDate.getTime()) && dueDate < today;
+// When a repaid loan was repaid, taken from the time the loan ended
+export function getRepaidDate(loan: LoanData): Date | null {
+  return getLoanStatus(loan) === 'repaid' ? parseLoanDate(loan.time_loan_ended) : null;
+}
 
-    // Check if loan is not fully repaid
-    const notFullyRepaid = loan.loan_repaid_amount === undefined ||
-                           loan.loan_repaid_amount === null ||
-                           loan.loan_repaid_amount < loan.loan_amount;
+// Loans flagged as defaulted without a default date count from their due date
+export function getDefaultedDate(loan: LoanData): Date | null {
+  if (getLoanStatus(loan) !== 'defaulted') return null;
+  return parseLoanDate(loan.default_loan_date) ?? parseLoanDate(loan.loan_due_date);
+}
 
-    const isExpired = isDueDateInPast && notFullyRepaid;
+// When a closed loan stopped being outstanding: its repaid or default date, or
+// without one the last date known about it, never later than now. Null for
+// loans in progress and for closed loans without any date.
+export function getClosedByDate(loan: LoanData, now: Date = new Date()): Date | null {
+  const status = getLoanStatus(loan);
+  if (status === 'in_progress') return null;
 
-    if (isDueDateInPast) {
-      console.log("Found expired loan:", {
-        dueDate: loan.loan_due_date,
-        amount: loan.loan_amount,
-        repaid: loan.loan_repaid_amount,
-        isPast: isDueDateInPast,
-        isNotFullyRepaid: notFullyRepaid,
-        isExpired: isExpired
-      });
-    }
+  const closedAt = status === 'repaid' ? getRepaidDate(loan) : getDefaultedDate(loan);
+  if (closedAt) return closedAt;
 
-    return isExpired;
-  });
-
-  console.log("Total expired loans found:", expiredLoans.length);
+  const known = [getOriginationDate(loan), parseLoanDate(loan.loan_due_date)].flatMap(date => date ? [date.getTime()] : []);
+  return known.length > 0 ? new Date(Math.min(Math.max(...known), now.getTime())) : null;
+}
 
-  // Sort expired loans by due date (oldest first)
-  return expiredLoans.sort((a, b) =>
-    new Date(a.loan_due_date).getTime() - new Date(b.loan_due_date).getTime()
+export function calculateLoanMetrics(loans: LoanData[], products: LoanProduct[] = []): LoanMetrics {
+  return buildLoanMetrics(
+    loans.map(loan => ({ loan_amount: loan.loan_amount, version: loan.version, status: getLoanStatus(loan), count: 1 })),
+    products
   );
 }
 
-export function calculateLoanMetrics(loans: LoanData[]): LoanMetrics {
+export function buildLoanMetrics(counts: LoanStatusCount[], products: LoanProduct[] = []): LoanMetrics {
   const metrics: LoanMetrics = {
     totalLoans: 0,
     totalDefaulted: 0,
     totalInProgress: 0,
-
-    oneDollarLoans: {
-      defaulted: 0,
-      repaid: 0,
-      inProgress: 0,
-      total: 0
-    },
-
-    tenDollarLoans: {
-      defaulted: 0,
-      repaid: 0,
-      inProgress: 0,
-      total: 0
-    }
+    totalRepaid: 0,
+    totalPrincipal: 0,
+    tiers: []
   };
 
-  if (!loans || loans.length === 0) return metrics;
+  const tiers = new Map<string, ProductTierMetrics>();
+
+  counts.forEach(({ loan_amount, version, status, count }) => {
+    metrics.totalLoans += count;
+    metrics.totalPrincipal += loan_amount * count;
+
+    // Amounts without a configured product still get a tier of their own
+    const product = findLoanProduct({ loan_amount, version }, products);
+    const key = product ? product.id : `amount:${loan_amount}`;
+
+    let tier = tiers.get(key);
+    if (!tier) {
+      tier = {
+        key,
+        name: product ? product.name : `$${loan_amount} Loans`,
+        principal: loan_amount,
+        product,
+        defaulted: 0,
+        repaid: 0,
+        inProgress: 0,
+        total: 0
+      };
+      tiers.set(key, tier);
+    }
 
-  metrics.totalLoans = loans.length;
+    tier.total += count;
 
-  loans.forEach(loan => {
     // Count by loan status
-    if (loan.is_defaulted || loan.default_loan_date) {
-      metrics.totalDefaulted++;
-    } else if (loan.loan_repaid_amount !== null && loan.loan_repaid_amount >= loan.loan_amount) {
-      // Fully repaid loans
+    if (status === 'defaulted') {
+      metrics.totalDefaulted += count;
+      tier.defaulted += count;
+    } else if (status === 'repaid') {
+      metrics.totalRepaid += count;
+      tier.repaid += count;
     } else {
-      metrics.totalInProgress++;
-    }
-
-    // Categorize by loan amount
-    if (loan.loan_amount === 1) {
-      metrics.oneDollarLoans.total++;
-
-      if (loan.is_defaulted || loan.default_loan_date) {
-        metrics.oneDollarLoans.defaulted++;
-      } else if (loan.loan_repaid_amount !== null && loan.loan_repaid_amount >= loan.loan_amount) {
-        metrics.oneDollarLoans.repaid++;
-      } else {
-        metrics.oneDollarLoans.inProgress++;
-      }
-    } else if (loan.loan_amount === 10) {
-      metrics.tenDollarLoans.total++;
-
-      if (loan.is_defaulted || loan.default_loan_date) {
-        metrics.tenDollarLoans.defaulted++;
-      } else if (loan.loan_repaid_amount !== null && loan.loan_repaid_amount >= loan.loan_amount) {
-        metrics.tenDollarLoans.repaid++;
-      } else {
-        metrics.tenDollarLoans.inProgress++;
-      }
+      metrics.totalInProgress += count;
+      tier.inProgress += count;
     }
   });
 
+  metrics.tiers = [...tiers.values()].sort((a, b) =>
+    a.principal - b.principal || a.name.localeCompare(b.name)
+  );
+
   return metrics;
 }
 
@@ -181,7 +157,7 @@ export function generateStatusChartData(metrics: LoanMetrics): ChartData[] {
   return [
     { 
       name: "Repaid", 
-      value: metrics.oneDollarLoans.repaid + metrics.tenDollarLoans.repaid, 
+      value: metrics.totalRepaid, 
       color: "#22C55E" // green-500
     },
     { 
@@ -197,22 +173,16 @@ export function generateStatusChartData(metrics: LoanMetrics): ChartData[] {
   ];
 }
 
-export function generateAmountChartData(metrics: LoanMetrics): {
-  oneDollar: ChartData[];
-  tenDollar: ChartData[];
-} {
-  return {
-    oneDollar: [
-      { name: "Repaid", value: metrics.oneDollarLoans.repaid, color: "#22C55E" },
-      { name: "In Progress", value: metrics.oneDollarLoans.inProgress, color: "#3B82F6" },
-      { name: "Defaulted", value: metrics.oneDollarLoans.defaulted, color: "#EF4444" }
-    ],
-    tenDollar: [
-      { name: "Repaid", value: metrics.tenDollarLoans.repaid, color: "#22C55E" },
-      { name: "In Progress", value: metrics.tenDollarLoans.inProgress, color: "#3B82F6" },
-      { name: "Defaulted", value: metrics.tenDollarLoans.defaulted, color: "#EF4444" }
+export function generateAmountChartData(metrics: LoanMetrics): TierChartData[] {
+  return metrics.tiers.map(tier => ({
+    key: tier.key,
+    title: tier.name,
+    data: [
+      { name: "Repaid", value: tier.repaid, color: "#22C55E" },
+      { name: "In Progress", value: tier.inProgress, color: "#3B82F6" },
+      { name: "Defaulted", value: tier.defaulted, color: "#EF4444" }
     ]
-  };
+  }));
 }
 
 export function formatCurrency(value: number | null | undefined): string {
@@ -0,0 +1,35 @@
+import { LoanChange, LoanData } from "./types";
+
+// Applies loan changes to a cached list of loans. Rows already in the list
+// are replaced in place, new rows are added and the list re-sorted on the date
+// field it was fetched in order of. Later changes to the same loan win.
+export const applyLoanChanges = (
+  loans: LoanData[],
+  changes: LoanChange[],
+  orderBy: 'loan_due_date' | 'time_loan_started'
+): LoanData[] => {
+  const latest = new Map<string, LoanChange>();
+  changes.forEach(change => latest.set(change.type === 'delete' ? change.id : change.loan.id!, change));
+
+  const merged: LoanData[] = [];
+  loans.forEach(loan => {
+    const change = loan.id ? latest.get(loan.id) : undefined;
+    if (!change) {
+      merged.push(loan);
+      return;
+    }
+
+    latest.delete(loan.id!);
+    if (change.type === 'upsert') merged.push(change.loan);
+  });
+
+  const added = [...latest.values()].flatMap(change => change.type === 'upsert' ? [change.loan] : []);
+  if (added.length === 0) return merged;
+
+  // Timestamps are compared as dates, the realtime feed formats them
+  // differently from the REST API
+  return [...merged, ...added]
+    .map(loan => ({ loan, time: new Date(loan[orderBy]).getTime() }))
+    .sort((a, b) => a.time - b.time)
+    .map(({ loan }) => loan);
+};
@@ -0,0 +1,62 @@
+import { supabase } from "@/integrations/supabase/client";
+import { LoanData, LoanEvent } from "./types";
+
+// Loans built from an upload have no id yet, they are found by the same
+// natural key the upsert uses
+const resolveLoanId = async (loan: LoanData): Promise<string | null> => {
+  if (loan.id) return loan.id;
+
+  const { data, error } = await supabase
+    .from('loans')
+    .select('id')
+    .eq('user_wallet', loan.user_wallet)
+    .eq('loan_amount', loan.loan_amount)
+    .eq('loan_due_date', loan.loan_due_date)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error resolving loan id:", error);
+    throw error;
+  }
+
+  return data?.id ?? null;
+};
+
+// Oldest first, with the name of the file behind each event when it still exists
+export const fetchLoanEvents = async (loan: LoanData): Promise<LoanEvent[]> => {
+  const loanId = await resolveLoanId(loan);
+  if (!loanId) return [];
+
+  const { data, error } = await supabase
+    .from('loan_events')
+    .select('*')
+    .eq('loan_id', loanId)
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching loan events:", error);
+    throw error;
+  }
+
+  const events = (data || []) as LoanEvent[];
+  const uploadIds = [...new Set(events.map(event => event.file_upload_id).filter(Boolean))] as string[];
+
+  if (uploadIds.length === 0) return events;
+
+  const { data: uploads, error: uploadsError } = await supabase
+    .from('file_uploads')
+    .select('id, file_name')
+    .in('id', uploadIds);
+
+  if (uploadsError) {
+    console.error("Error fetching upload names for loan events:", uploadsError);
+    return events;
+  }
+
+  const fileNames = new Map((uploads || []).map(upload => [upload.id, upload.file_name]));
+
+  return events.map(event => ({
+    ...event,
+    file_name: event.file_upload_id ? fileNames.get(event.file_upload_id) ?? null : null
+  }));
+};
@@ -0,0 +1,94 @@
+import { endOfDay, isValid, parseISO, startOfDay } from 'date-fns';
+import { LoanData, LoanFilters, LoanStatus } from './types';
+import { getLoanStatus } from './loanCalculations';
+
+export const EMPTY_LOAN_FILTERS: LoanFilters = {
+  startedFrom: null,
+  startedTo: null,
+  dueFrom: null,
+  dueTo: null,
+  versions: [],
+  amounts: [],
+  statuses: [],
+  uploadIds: []
+};
+
+const LOAN_STATUSES: LoanStatus[] = ['in_progress', 'repaid', 'defaulted'];
+
+// Query string keys, lists repeat the key (?version=V1&version=V2)
+const PARAMS = {
+  startedFrom: 'started_from',
+  startedTo: 'started_to',
+  dueFrom: 'due_from',
+  dueTo: 'due_to',
+  versions: 'version',
+  amounts: 'amount',
+  statuses: 'status',
+  uploadIds: 'upload'
+} as const;
+
+const parseDateParam = (value: string | null): string | null =>
+  value && isValid(parseISO(value)) ? value : null;
+
+export const parseLoanFilters = (params: URLSearchParams): LoanFilters => ({
+  startedFrom: parseDateParam(params.get(PARAMS.startedFrom)),
+  startedTo: parseDateParam(params.get(PARAMS.startedTo)),
+  dueFrom: parseDateParam(params.get(PARAMS.dueFrom)),
+  dueTo: parseDateParam(params.get(PARAMS.dueTo)),
+  versions: params.getAll(PARAMS.versions),
+  amounts: params.getAll(PARAMS.amounts).map(Number).filter(amount => !isNaN(amount)),
+  statuses: params.getAll(PARAMS.statuses).filter((status): status is LoanStatus =>
+    LOAN_STATUSES.includes(status as LoanStatus)
+  ),
+  uploadIds: params.getAll(PARAMS.uploadIds)
+});
+
+// Writes the filters over an existing query string, leaving unrelated keys alone
+export const writeLoanFilters = (filters: LoanFilters, params: URLSearchParams): URLSearchParams => {
+  const next = new URLSearchParams(params);
+
+  (Object.keys(PARAMS) as (keyof LoanFilters)[]).forEach(key => {
+    const name = PARAMS[key];
+    const value = filters[key];
+    next.delete(name);
+
+    if (Array.isArray(value)) {
+      value.forEach(item => next.append(name, String(item)));
+    } else if (value) {
+      next.set(name, value);
+    }
+  });
+
+  return next;
+};
+
+export const countActiveFilters = (filters: LoanFilters): number =>
+  (Object.keys(PARAMS) as (keyof LoanFilters)[]).filter(key => {
+    const value = filters[key];
+    return Array.isArray(value) ? value.length > 0 : value !== null;
+  }).length;
+
+const isWithinRange = (value: string | null, from: string | null, to: string | null): boolean => {
+  if (!from && !to) return true;
+  if (!value) return false;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return false;
+  if (from && date < startOfDay(parseISO(from))) return false;
+  if (to && date > endOfDay(parseISO(to))) return false;
+
+  return true;
+};
+
+export const applyLoanFilters = (loans: LoanData[], filters: LoanFilters): LoanData[] => {
+  if (countActiveFilters(filters) === 0) return loans;
+
+  return loans.filter(loan =>
+    isWithinRange(loan.time_loan_started, filters.startedFrom, filters.startedTo) &&
+    isWithinRange(loan.loan_due_date, filters.dueFrom, filters.dueTo) &&
+    (filters.versions.length === 0 || filters.versions.includes(loan.version)) &&
+    (filters.amounts.length === 0 || filters.amounts.includes(loan.loan_amount)) &&
+    (filters.statuses.length === 0 || filters.statuses.includes(getLoanStatus(loan))) &&
+    (filters.uploadIds.length === 0 || (!!loan.file_upload_id && filters.uploadIds.includes(loan.file_upload_id)))
+  );
+};
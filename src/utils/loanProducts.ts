@@ -0,0 +1,19 @@
+import { LoanProduct } from "./types";
+
+// A product for this exact version wins over one that covers every version
+export const findLoanProduct = (loan: { loan_amount: number; version: string | null }, products: LoanProduct[]): LoanProduct | null => {
+  let fallback: LoanProduct | null = null;
+
+  for (const product of products) {
+    if (product.principal !== loan.loan_amount) continue;
+    if (product.version === null) {
+      fallback = fallback || product;
+    } else if (product.version === loan.version) {
+      return product;
+    }
+  }
+
+  return fallback;
+};
+
+export const getExpectedRepayment = (product: LoanProduct): number => product.principal + product.fee;
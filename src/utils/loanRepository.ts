@@ -0,0 +1,86 @@
+import {
+  ColumnMappingProfile,
+  FileUpload,
+  FileUploadSummary,
+  LoanData,
+  LoanDrillDown,
+  LoanEdit,
+  LoanFilters,
+  LoanProduct,
+  PortfolioAggregates,
+  RollbackResult,
+  SavedView,
+  UploadOutcome,
+  WalletMatch
+} from "./types";
+import { createSupabaseLoanRepository } from "./supabaseLoanRepository";
+import { createLocalLoanRepository } from "./localLoanRepository";
+
+// Where uploads and loans are stored and read from. The Supabase backend is
+// the default; the local one keeps everything in this browser's IndexedDB,
+// for demos and for running without credentials.
+export interface LoanRepository {
+  // Local data is never cached, synced or streamed, it is already here
+  readonly isLocal: boolean;
+
+  // Uploads
+  createUpload(fileName: string): Promise<FileUpload>;
+  // Stores the final record count, returns what the upload changed
+  finalizeUpload(fileUploadId: string, recordCount: number): Promise<UploadOutcome | null>;
+  // For uploads abandoned before any loan was stored
+  discardUpload(fileUploadId: string): Promise<void>;
+  fetchLatestUpload(): Promise<FileUpload | null>;
+  // Newest first
+  fetchUploads(): Promise<FileUploadSummary[]>;
+  fetchUploadSummary(fileUploadId: string): Promise<FileUploadSummary | null>;
+  // One page of the loans currently attributed to an upload, soonest due first
+  fetchLoansForUpload(fileUploadId: string, page: number, pageSize: number): Promise<{ loans: LoanData[]; count: number }>;
+  // Status transitions and field-level changes recorded for an upload
+  fetchUploadOutcome(fileUploadId: string): Promise<UploadOutcome>;
+  // Restores the loans the upload changed and removes the ones it added
+  rollbackUpload(fileUploadId: string): Promise<RollbackResult>;
+  // Only rolled back uploads are deleted, any other upload still owns loans
+  deleteUpload(fileUploadId: string): Promise<void>;
+
+  // Loans, matched on user_wallet, loan_amount and loan_due_date
+  upsertLoans(loans: LoanData[], fileUploadId: string): Promise<void>;
+  countLoans(): Promise<number>;
+  // Soonest due first
+  fetchLoans(progressCallback?: (percent: number, message: string) => void): Promise<LoanData[]>;
+  fetchFilteredLoans(filters: LoanFilters): Promise<LoanData[]>;
+  fetchPortfolioAggregates(filters: LoanFilters): Promise<PortfolioAggregates>;
+  fetchDrillDownLoans(filters: LoanFilters, drillDown: LoanDrillDown): Promise<LoanData[]>;
+  // Oldest first
+  fetchLoansForWallet(wallet: string): Promise<LoanData[]>;
+  // Best matching wallets with their loan counts and latest loans, for pages
+  // that have not loaded every loan
+  searchWallets(query: string, limit?: number): Promise<WalletMatch[]>;
+  fetchLoanProducts(): Promise<LoanProduct[]>;
+  // Corrects one loan and returns it as stored, operators only
+  updateLoan(loanId: string, changes: LoanEdit): Promise<LoanData>;
+
+  // Saved dashboard views, by name. Saving replaces the user's view of the
+  // same name; only analysts save, and only their own views are deleted.
+  fetchSavedViews(): Promise<SavedView[]>;
+  saveView(name: string, filters: LoanFilters): Promise<SavedView>;
+  deleteSavedView(id: string): Promise<void>;
+
+  // Column mapping profiles, null when there is none or it cannot be read or
+  // saved, uploads then go ahead with the detected mapping
+  fetchMappingProfile(headerSignature: string): Promise<ColumnMappingProfile | null>;
+  saveMappingProfile(
+    name: string,
+    headerSignature: string,
+    mapping: Record<string, string>
+  ): Promise<ColumnMappingProfile | null>;
+}
+
+export type DataSource = 'supabase' | 'local';
+
+const createLoanRepository = (source: DataSource): LoanRepository =>
+  source === 'local' ? createLocalLoanRepository() : createSupabaseLoanRepository();
+
+// VITE_DATA_SOURCE=local runs the whole app on the local backend
+const repository = createLoanRepository(import.meta.env.VITE_DATA_SOURCE === 'local' ? 'local' : 'supabase');
+
+export const getLoanRepository = (): LoanRepository => repository;
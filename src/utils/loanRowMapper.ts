@@ -0,0 +1,158 @@
+import { LoanData, RowIssue } from "./types";
+
+// Pure header/row mapping helpers shared by the main thread and the CSV worker.
+// Nothing in here may touch the DOM, toasts or the Supabase client.
+
+export const REQUIRED_FIELDS = ['user_wallet', 'loan_amount', 'loan_term', 'loan_due_date'];
+
+// Enhanced column name mapping to handle more variations
+export const COLUMN_MAPPINGS: Record<string, string[]> = {
+  user_wallet: ['user_wallet', 'wallet', 'user wallet', 'address', 'wallet_address', 'user_address', 'wallet address'],
+  loan_amount: ['loan_amount', 'amount', 'loan amount', 'principal', 'loan_principal', 'loan principal', 'value'],
+  loan_term: ['loan_term', 'term', 'duration', 'period', 'loan_duration', 'loan duration', 'days', 'loan_days'],
+  loan_due_date: ['loan_due_date', 'due_date', 'due date', 'maturity_date', 'maturity date', 'expiry_date', 'expiry date'],
+  loan_repaid_amount: ['loan_repaid_amount', 'repaid_amount', 'repaid amount', 'paid_amount', 'paid amount', 'repayment', 'paid'],
+  time_loan_started: ['time_loan_started', 'date_loan_started', 'loan_started', 'start_date', 'started', 'inception_date', 'inception', 'origination_date'],
+  time_loan_ended: ['time_loan_ended', 'date_loan_ended', 'loan_ended', 'end_date', 'ended', 'termination_date', 'repayment_date', 'completion_date'],
+  default_loan_date: ['default_loan_date', 'date_loan_defaulted', 'defaulted_date', 'default_date', 'loan_defaulted', 'defaulted at', 'default_time'],
+  is_defaulted: ['is_defaulted', 'defaulted', 'is defaulted', 'default', 'loan_defaulted', 'has_defaulted', 'in_default'],
+  version: ['version', 'ver', 'loan_version', 'loan version', 'v']
+};
+
+export interface MappedRow {
+  // null when the row cannot be stored
+  loan: LoanData | null;
+  issues: RowIssue[];
+}
+
+export interface HeaderMapping {
+  headerMap: Record<number, string>;
+  missingRequiredFields: string[];
+}
+
+// Normalize header name by removing spaces, special chars, and lowercasing
+export const normalizeHeaderName = (header: string): string => {
+  return header.toLowerCase()
+    .trim()
+    .replace(/[\s_-]+/g, '_')  // Replace spaces, underscores, hyphens with single underscore
+    .replace(/[^\w]/g, '');    // Remove any non-word characters
+};
+
+// Find the standardized field name based on various possible input names
+export const findStandardFieldName = (header: string): string | null => {
+  const normalizedHeader = normalizeHeaderName(header);
+
+  for (const [standardField, variations] of Object.entries(COLUMN_MAPPINGS)) {
+    const normalizedVariations = variations.map(v => normalizeHeaderName(v));
+    if (normalizedVariations.includes(normalizedHeader)) {
+      return standardField;
+    }
+  }
+
+  return null;
+};
+
+export const buildHeaderMapping = (originalHeaders: string[]): HeaderMapping => {
+  const headerMap: Record<number, string> = {};
+
+  originalHeaders.forEach((header, index) => {
+    const standardField = findStandardFieldName(header);
+    if (standardField) {
+      headerMap[index] = standardField;
+    }
+  });
+
+  return { headerMap, missingRequiredFields: getMissingRequiredFields(headerMap) };
+};
+
+export const getMissingRequiredFields = (headerMap: Record<number, string>): string[] => {
+  const mappedFields = new Set(Object.values(headerMap));
+  return REQUIRED_FIELDS.filter(field => !mappedFields.has(field));
+};
+
+// Identifies a file layout independently of header casing and spacing, used
+// to find a saved column mapping profile for files with the same columns
+export const getHeaderSignature = (originalHeaders: string[]): string => {
+  return originalHeaders.map(normalizeHeaderName).join('|');
+};
+
+// Function to clean and validate timestamp values
+export const cleanTimestamp = (value: string | null): string | null => {
+  if (!value) return null;
+
+  const cleanValue = value.replace(/^["']+|["']+$/g, '').trim();
+
+  if (!cleanValue || cleanValue === '') return null;
+
+  // Unparseable dates come back as null, the row mapper reports them
+  const date = new Date(cleanValue);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const DATE_FIELDS = ['default_loan_date', 'time_loan_ended', 'loan_due_date', 'time_loan_started'];
+
+// Map one tokenized CSV row onto a LoanData record, collecting everything
+// that had to be skipped or defaulted along the way.
+export const mapRowToLoan = (values: string[], headerMap: Record<number, string>): MappedRow => {
+  const loan: Record<string, unknown> = {};
+  const issues: RowIssue[] = [];
+
+  const warn = (field: string, message: string) => {
+    issues.push({ severity: 'warning', field, message });
+  };
+
+  values.forEach((value, index) => {
+    const standardField = headerMap[index];
+    if (!standardField) return;
+
+    if (standardField === 'loan_amount' || standardField === 'loan_term') {
+      const parsed = parseFloat(value);
+      if (!value) {
+        warn(standardField, `Missing ${standardField}, defaulted to 0`);
+      } else if (isNaN(parsed)) {
+        warn(standardField, `Unparseable ${standardField} "${value}", defaulted to 0`);
+      }
+      loan[standardField] = parsed || 0;
+    } else if (standardField === 'loan_repaid_amount') {
+      if (value && isNaN(parseFloat(value))) {
+        warn(standardField, `Unparseable ${standardField} "${value}", stored as empty`);
+      }
+      loan[standardField] = value ? parseFloat(value) : null;
+    } else if (standardField === 'is_defaulted') {
+      if (value && !['true', 'false'].includes(value.toLowerCase())) {
+        warn(standardField, `Unrecognized ${standardField} value "${value}", treated as false`);
+      }
+      loan[standardField] = value?.toLowerCase() === 'true';
+    } else if (DATE_FIELDS.includes(standardField)) {
+      const timestamp = cleanTimestamp(value);
+      if (value && !timestamp) {
+        warn(standardField, `Unparseable date "${value}" in ${standardField}`);
+      }
+      loan[standardField] = timestamp;
+    } else {
+      loan[standardField] = value || "";
+    }
+  });
+
+  REQUIRED_FIELDS.forEach(field => {
+    if (!loan[field] && field !== 'user_wallet') {
+      if (field === 'loan_amount' || field === 'loan_term') {
+        loan[field] = 0;
+      } else if (field === 'loan_due_date' && !loan[field]) {
+        warn(field, "Due date missing or invalid, defaulted to 2099");
+        loan[field] = new Date(2099, 11, 31).toISOString();
+      }
+    }
+  });
+
+  if (!loan.user_wallet) {
+    issues.unshift({ severity: 'error', field: 'user_wallet', message: "Missing wallet address, row skipped" });
+    return { loan: null, issues };
+  }
+
+  if (loan.is_defaulted === undefined) loan.is_defaulted = false;
+  if (!loan.loan_repaid_amount) loan.loan_repaid_amount = null;
+  if (!loan.version) loan.version = "";
+
+  return { loan: loan as unknown as LoanData, issues };
+};
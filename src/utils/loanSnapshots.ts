@@ -0,0 +1,83 @@
+import { endOfDay, format, parseISO } from 'date-fns';
+import { supabase } from "@/integrations/supabase/client";
+import { LoanData, LoanSnapshot, LoanSnapshotSource } from "./types";
+
+const PAGE_SIZE = 1000;
+
+// Rebuilds the loan book for the source: the cutoff event is found once, then
+// loan_snapshot_page is paged by loan id
+export const fetchLoanSnapshot = async (source: LoanSnapshotSource): Promise<LoanSnapshot> => {
+  let asOf: Date;
+  let label: string;
+
+  if (source.type === 'upload') {
+    const { data: upload, error } = await supabase
+      .from('file_uploads')
+      .select('file_name, upload_date')
+      .eq('id', source.fileUploadId)
+      .single();
+
+    if (error) {
+      console.error("Error fetching upload for snapshot:", error);
+      throw error;
+    }
+
+    asOf = new Date(upload.upload_date);
+    label = upload.file_name;
+  } else {
+    asOf = endOfDay(parseISO(source.date));
+    label = format(asOf, 'MMM d, yyyy');
+  }
+
+  const args = source.type === 'upload'
+    ? { p_file_upload_id: source.fileUploadId }
+    : { p_as_of: asOf.toISOString() };
+
+  const { data: cutoff, error: cutoffError } = await supabase.rpc('loan_snapshot_cutoff', args);
+
+  if (cutoffError) {
+    console.error("Error fetching loan snapshot cutoff:", cutoffError);
+    throw cutoffError;
+  }
+
+  const loans: LoanData[] = [];
+  let afterId: string | undefined;
+
+  // Pages after the last loan id seen, each one only rewinds its own loans
+  for (;;) {
+    const { data, error } = await supabase.rpc('loan_snapshot_page', {
+      p_cutoff: cutoff,
+      p_after_id: afterId,
+      p_limit: PAGE_SIZE,
+    });
+
+    if (error) {
+      console.error("Error fetching loan snapshot:", error);
+      throw error;
+    }
+
+    const page = (data || []) as LoanData[];
+    loans.push(...page);
+    if (page.length < PAGE_SIZE) break;
+    afterId = page[page.length - 1].id;
+  }
+
+  return { source, label, asOf, loans };
+};
+
+// Snapshot sources in the query string: upload:<id> or date:<yyyy-MM-dd>
+export const parseSnapshotSource = (value: string | null): LoanSnapshotSource | null => {
+  if (!value) return null;
+
+  const [type, ...rest] = value.split(':');
+  const argument = rest.join(':');
+  if (!argument) return null;
+
+  if (type === 'upload') return { type: 'upload', fileUploadId: argument };
+  if (type === 'date' && !isNaN(parseISO(argument).getTime())) return { type: 'date', date: argument };
+
+  return null;
+};
+
+export const formatSnapshotSource = (source: LoanSnapshotSource): string =>
+  source.type === 'upload' ? `upload:${source.fileUploadId}` : `date:${source.date}`;
@@ -0,0 +1,319 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import {
+  AggregatedActivity,
+  AggregatedCohort,
+  AggregatedPARPoint,
+  ArrearsCount,
+  CohortGranularity,
+  DueDaysCount,
+  LoanData,
+  LoanDrillDown,
+  LoanFilters,
+  LoanStatus,
+  LoanStatusCount,
+  PortfolioAggregates,
+  TimeGranularity
+} from './types';
+import { getClosedByDate, getDefaultedDate, getLoanStatus, getOriginationDate, getRepaidDate } from './loanCalculations';
+import { applyLoanFilters } from './loanFilters';
+import { PAR_THRESHOLDS } from './delinquency';
+import { VINTAGE_CHECKPOINTS } from './vintageAnalysis';
+import { nextPeriod, startOfPeriod } from './timeSeries';
+
+// portfolio_summary and its drill-downs computed in the browser from the
+// cached loan book, for when the database cannot be reached. Each step
+// mirrors the SQL in supabase/migrations/20261019150000_portfolio_aggregates.sql,
+// the PAR trend the one in 20261019190000_incremental_par_trend.sql and what
+// counts as outstanding the one in 20261019220000_unknown_close_dates.sql.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Exposure {
+  loan: LoanData;
+  status: LoanStatus;
+  originatedAt: Date | null;
+  // The known repaid or default date, for activity and vintages
+  closedAt: Date | null;
+  // Until when it is outstanding, for arrears and PAR
+  closedBy: Date | null;
+  dueAt: Date | null;
+}
+
+const toExposure = (loan: LoanData, now: Date): Exposure => {
+  const status = getLoanStatus(loan);
+  const dueAt = new Date(loan.loan_due_date);
+
+  return {
+    loan,
+    status,
+    originatedAt: getOriginationDate(loan),
+    closedAt: status === 'repaid' ? getRepaidDate(loan) : status === 'defaulted' ? getDefaultedDate(loan) : null,
+    closedBy: getClosedByDate(loan, now),
+    dueAt: isNaN(dueAt.getTime()) ? null : dueAt
+  };
+};
+
+const isOutstandingAt = (exposure: Exposure, asOf: Date): boolean =>
+  (!exposure.originatedAt || exposure.originatedAt <= asOf) &&
+  (exposure.status === 'in_progress' || (!!exposure.closedBy && exposure.closedBy > asOf));
+
+const daysPastDue = (exposure: Exposure, asOf: Date): number =>
+  exposure.dueAt ? Math.max(0, differenceInCalendarDays(asOf, exposure.dueAt)) : 0;
+
+// Whole days until due counted from the start of today, null for loans that
+// are not in progress or already due
+const daysUntilDue = (exposure: Exposure, todayStart: Date): number | null => {
+  if (exposure.status !== 'in_progress' || !exposure.dueAt || exposure.dueAt <= todayStart) return null;
+  return Math.ceil((exposure.dueAt.getTime() - todayStart.getTime()) / DAY_MS);
+};
+
+const periodKey = (date: Date, granularity: TimeGranularity) => format(startOfPeriod(date, granularity), 'yyyy-MM-dd');
+
+const countStatuses = (exposures: Exposure[]): LoanStatusCount[] => {
+  const counts = new Map<string, LoanStatusCount>();
+
+  exposures.forEach(({ loan, status }) => {
+    const key = `${loan.loan_amount}|${loan.version}|${status}`;
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { loan_amount: loan.loan_amount, version: loan.version, status, count: 1 });
+    }
+  });
+
+  return [...counts.values()];
+};
+
+const countDueDays = (exposures: Exposure[], todayStart: Date): DueDaysCount[] => {
+  const counts = new Map<number, number>();
+
+  exposures.forEach(exposure => {
+    const days = daysUntilDue(exposure, todayStart);
+    if (days !== null) counts.set(days, (counts.get(days) ?? 0) + 1);
+  });
+
+  return [...counts].map(([days, count]) => ({ days, count })).sort((a, b) => a.days - b.days);
+};
+
+const countArrears = (exposures: Exposure[], asOf: Date): ArrearsCount[] => {
+  const arrears = new Map<number, ArrearsCount>();
+
+  exposures.forEach(exposure => {
+    if (!isOutstandingAt(exposure, asOf)) return;
+
+    const days = daysPastDue(exposure, asOf);
+    const entry = arrears.get(days) ?? { days, count: 0, principal: 0 };
+    entry.count++;
+    entry.principal += exposure.loan.loan_amount;
+    arrears.set(days, entry);
+  });
+
+  return [...arrears.values()].sort((a, b) => a.days - b.days);
+};
+
+const measureActivity = (exposures: Exposure[]): AggregatedActivity[] => {
+  const activity = new Map<string, AggregatedActivity>();
+
+  const add = (
+    date: Date | null,
+    amount: number,
+    count: 'originations' | 'repayments' | 'defaults',
+    volume: 'origination_volume' | 'repayment_volume' | 'default_volume'
+  ) => {
+    if (!date) return;
+
+    (['day', 'week', 'month'] as TimeGranularity[]).forEach(granularity => {
+      const period = periodKey(date, granularity);
+      const key = `${granularity}|${period}`;
+      let point = activity.get(key);
+      if (!point) {
+        point = {
+          granularity,
+          period,
+          originations: 0,
+          origination_volume: 0,
+          repayments: 0,
+          repayment_volume: 0,
+          defaults: 0,
+          default_volume: 0
+        };
+        activity.set(key, point);
+      }
+
+      point[count]++;
+      point[volume] += amount;
+    });
+  };
+
+  exposures.forEach(({ loan, status, originatedAt, closedAt }) => {
+    add(originatedAt, loan.loan_amount, 'originations', 'origination_volume');
+    if (status === 'repaid') add(closedAt, loan.loan_amount, 'repayments', 'repayment_volume');
+    if (status === 'defaulted') add(closedAt, loan.loan_amount, 'defaults', 'default_volume');
+  });
+
+  return [...activity.values()];
+};
+
+// PAR at the last moment of every week or month since the first origination.
+// A loan adds its principal to the outstanding total from origination until it
+// closes, and to each threshold from the day it reaches that many days past
+// due until it closes. Those steps are placed in the first period measured at
+// or after them and summed forward, like par_deltas in the SQL.
+const measurePARTrend = (exposures: Exposure[], granularity: CohortGranularity, now: Date): AggregatedPARPoint[] => {
+  const originations = exposures.flatMap(({ originatedAt }) => originatedAt ? [originatedAt.getTime()] : []);
+  if (originations.length === 0) return [];
+
+  // Reduced rather than spread, portfolios can exceed the argument limit
+  const first = new Date(originations.reduce((min, time) => Math.min(min, time)));
+  const periods: Date[] = [];
+  for (let period = startOfPeriod(first, granularity); period <= now; period = nextPeriod(period, granularity)) {
+    periods.push(period);
+  }
+
+  const asOfs = periods.map(period => Math.min(nextPeriod(period, granularity).getTime() - 1, now.getTime()));
+  // Series 0 is the outstanding principal, then one per threshold
+  const deltas = periods.map(() => new Array<number>(PAR_THRESHOLDS.length + 1).fill(0));
+
+  // The first period measured at or after the moment
+  const periodIndexFrom = (time: number) => {
+    let low = 0;
+    let high = asOfs.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (asOfs[middle] >= time) {
+        high = middle;
+      } else {
+        low = middle + 1;
+      }
+    }
+    return low;
+  };
+
+  // Null is before every period
+  const addStep = (at: number | null, series: number, amount: number) => {
+    const index = at === null ? 0 : periodIndexFrom(at);
+    if (index < periods.length) deltas[index][series] += amount;
+  };
+
+  exposures.forEach(({ loan, status, originatedAt, closedBy, dueAt }) => {
+    if (status !== 'in_progress' && !closedBy) return;
+
+    const closesAt = status === 'in_progress' || !closedBy ? null : closedBy.getTime();
+    const startsAt = originatedAt ? originatedAt.getTime() : null;
+
+    const addSeries = (series: number, from: number | null) => {
+      if (closesAt !== null && from !== null && from >= closesAt) return;
+      addStep(from, series, loan.loan_amount);
+      if (closesAt !== null) addStep(closesAt, series, -loan.loan_amount);
+    };
+
+    addSeries(0, startsAt);
+    PAR_THRESHOLDS.forEach((threshold, index) => {
+      if (threshold.minDays <= 0) {
+        addSeries(index + 1, startsAt);
+      } else if (dueAt) {
+        const atRiskFrom = startOfDay(addDays(dueAt, threshold.minDays)).getTime();
+        addSeries(index + 1, startsAt === null ? atRiskFrom : Math.max(startsAt, atRiskFrom));
+      }
+    });
+  });
+
+  const running = new Array<number>(PAR_THRESHOLDS.length + 1).fill(0);
+  return periods.map((period, index) => {
+    deltas[index].forEach((amount, series) => {
+      running[series] += amount;
+    });
+
+    return {
+      granularity,
+      period: format(period, 'yyyy-MM-dd'),
+      outstanding_principal: running[0],
+      at_risk: running.slice(1)
+    };
+  });
+};
+
+const measureVintage = (exposures: Exposure[], granularity: CohortGranularity, now: Date): AggregatedCohort[] => {
+  const cohorts = new Map<string, AggregatedCohort & { lastOrigination: Date }>();
+
+  exposures.forEach(({ loan, status, originatedAt, closedAt }) => {
+    if (!originatedAt) return;
+
+    const period = periodKey(originatedAt, granularity);
+    let cohort = cohorts.get(period);
+    if (!cohort) {
+      cohort = {
+        granularity,
+        period,
+        loan_count: 0,
+        principal: 0,
+        age: 0,
+        repaid: VINTAGE_CHECKPOINTS.map(() => 0),
+        defaulted: VINTAGE_CHECKPOINTS.map(() => 0),
+        lastOrigination: originatedAt
+      };
+      cohorts.set(period, cohort);
+    }
+
+    cohort.loan_count++;
+    cohort.principal += loan.loan_amount;
+    if (originatedAt > cohort.lastOrigination) cohort.lastOrigination = originatedAt;
+
+    if (!closedAt || status === 'in_progress') return;
+
+    const closedAfter = Math.max(0, differenceInCalendarDays(closedAt, originatedAt));
+    const counts = status === 'repaid' ? cohort.repaid : cohort.defaulted;
+    VINTAGE_CHECKPOINTS.forEach((day, index) => {
+      if (closedAfter <= day) counts[index]++;
+    });
+  });
+
+  return [...cohorts.values()]
+    .map(({ lastOrigination, ...cohort }) => ({ ...cohort, age: differenceInCalendarDays(now, lastOrigination) }))
+    .sort((a, b) => b.period.localeCompare(a.period));
+};
+
+export function aggregateLoans(loans: LoanData[], filters: LoanFilters, now: Date = new Date()): PortfolioAggregates {
+  const exposures = applyLoanFilters(loans, filters).map(loan => toExposure(loan, now));
+  const distinct = <T>(values: (T | null | undefined)[]): T[] =>
+    [...new Set(values.filter((value): value is T => value !== null && value !== undefined))];
+
+  return {
+    as_of: now.toISOString(),
+    total_count: loans.length,
+    versions: distinct(loans.map(loan => loan.version)),
+    amounts: distinct(loans.map(loan => loan.loan_amount)),
+    upload_ids: distinct(loans.map(loan => loan.file_upload_id)),
+    status_counts: countStatuses(exposures),
+    due_days: countDueDays(exposures, startOfDay(now)),
+    arrears: countArrears(exposures, now),
+    activity: measureActivity(exposures),
+    par_trend: [...measurePARTrend(exposures, 'week', now), ...measurePARTrend(exposures, 'month', now)],
+    vintage: [...measureVintage(exposures, 'week', now), ...measureVintage(exposures, 'month', now)]
+  };
+}
+
+// The loans behind a due-date group or aging bucket, as upcoming_loans and
+// past_due_loans select them
+export function selectDrillDownLoans(
+  loans: LoanData[],
+  filters: LoanFilters,
+  drillDown: LoanDrillDown,
+  now: Date = new Date()
+): LoanData[] {
+  const todayStart = startOfDay(now);
+  const inRange = (days: number) => days >= drillDown.minDays && (drillDown.maxDays === null || days <= drillDown.maxDays);
+
+  return applyLoanFilters(loans, filters)
+    .map(loan => toExposure(loan, now))
+    .filter(exposure => {
+      if (drillDown.type === 'upcoming') {
+        const days = daysUntilDue(exposure, todayStart);
+        return days !== null && inRange(days);
+      }
+      return isOutstandingAt(exposure, now) && inRange(daysPastDue(exposure, now));
+    })
+    .map(({ loan }) => loan)
+    .sort((a, b) => new Date(a.loan_due_date).getTime() - new Date(b.loan_due_date).getTime());
+}
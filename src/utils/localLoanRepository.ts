@@ -0,0 +1,489 @@
+import type { LoanRepository } from "./loanRepository";
+import {
+  ColumnMappingProfile,
+  FileUpload,
+  FileUploadSummary,
+  LoanData,
+  LoanEdit,
+  LoanFilters,
+  LoanStatus,
+  RollbackResult,
+  SavedView,
+  UploadOutcome,
+  WalletMatch
+} from "./types";
+import { searchWallets as matchWallets } from "./borrowers";
+import { openDatabase, requestResult, transactionDone } from "./indexedDb";
+import { getLoanStatus } from "./loanCalculations";
+import { applyLoanFilters } from "./loanFilters";
+import { aggregateLoans, selectDrillDownLoans } from "./localAggregates";
+
+// Uploads and loans kept in this browser's IndexedDB. Upserts and the upload
+// outcome follow supabase/migrations/20261019110000_upload_outcome_accounting.sql,
+// rollback follows rollback_file_upload in
+// supabase/migrations/20261019100000_upload_history_and_rollback.sql.
+
+const DB_NAME = 'loan-analytics-local';
+const LOANS_STORE = 'loans';
+const UPLOADS_STORE = 'file_uploads';
+const PROFILES_STORE = 'column_mapping_profiles';
+const CHANGES_STORE = 'loan_upload_changes';
+const VIEWS_STORE = 'saved_views';
+const NATURAL_KEY_INDEX = 'natural_key';
+const CHANGES_BY_LOAN_INDEX = 'loan';
+const VIEWS_BY_NAME_INDEX = 'name';
+
+const TRACKED_FIELDS = [
+  'loan_repaid_amount',
+  'loan_term',
+  'time_loan_started',
+  'time_loan_ended',
+  'default_loan_date',
+  'is_defaulted',
+  'version'
+] as const;
+
+// The first write of each loan in an upload, like loan_upload_changes, keyed
+// by [fileUploadId, loanId]. previous and changedFields are null for inserts.
+interface LocalLoanChange {
+  fileUploadId: string;
+  loanId: string;
+  previous: LoanData | null;
+  changedFields: string[] | null;
+  previousStatus: LoanStatus | null;
+  newStatus: LoanStatus;
+}
+
+// Every change of an upload: the keys that start with its id
+const changesOfUpload = (fileUploadId: string) => IDBKeyRange.bound([fileUploadId], [fileUploadId, []]);
+
+const byDueDate = (a: LoanData, b: LoanData) =>
+  new Date(a.loan_due_date).getTime() - new Date(b.loan_due_date).getTime();
+
+// Loans without a start date last, like the database orders nulls
+const startTime = (loan: LoanData) =>
+  loan.time_loan_started ? new Date(loan.time_loan_started).getTime() : Infinity;
+
+const measureOutcome = (changes: LocalLoanChange[]): UploadOutcome => {
+  const transitions = new Map<string, { from: LoanStatus; to: LoanStatus; count: number }>();
+  const fieldChanges = new Map<string, number>();
+
+  changes.forEach(change => {
+    if (change.changedFields === null) return;
+
+    change.changedFields.forEach(field => fieldChanges.set(field, (fieldChanges.get(field) ?? 0) + 1));
+
+    if (change.previousStatus && change.previousStatus !== change.newStatus) {
+      const key = `${change.previousStatus}|${change.newStatus}`;
+      const transition = transitions.get(key) ?? { from: change.previousStatus, to: change.newStatus, count: 0 };
+      transition.count++;
+      transitions.set(key, transition);
+    }
+  });
+
+  return {
+    inserted: changes.filter(change => change.changedFields === null).length,
+    updated: changes.filter(change => change.changedFields !== null && change.changedFields.length > 0).length,
+    unchanged: changes.filter(change => change.changedFields !== null && change.changedFields.length === 0).length,
+    status_transitions: [...transitions.values()].sort((a, b) => b.count - a.count),
+    field_changes: [...fieldChanges]
+      .map(([field, count]) => ({ field, count }))
+      .sort((a, b) => b.count - a.count)
+  };
+};
+
+// Each database name is a separate loan book, tests open their own
+export const createLocalLoanRepository = (databaseName = DB_NAME): LoanRepository => {
+  const openLocalDatabase = () => openDatabase(databaseName, 4, (db, oldVersion, transaction) => {
+    if (oldVersion < 1) {
+      const loans = db.createObjectStore(LOANS_STORE, { keyPath: 'id' });
+      loans.createIndex(NATURAL_KEY_INDEX, ['user_wallet', 'loan_amount', 'loan_due_date'], { unique: true });
+      db.createObjectStore(UPLOADS_STORE, { keyPath: 'id' });
+    }
+    if (oldVersion < 2) {
+      db.createObjectStore(PROFILES_STORE, { keyPath: 'header_signature' });
+    }
+    if (oldVersion < 3) {
+      const changes = db.createObjectStore(CHANGES_STORE, { keyPath: ['fileUploadId', 'loanId'] });
+      changes.createIndex(CHANGES_BY_LOAN_INDEX, 'loanId');
+
+      // Uploads kept their changes in the upload record before
+      transaction.objectStore(UPLOADS_STORE).openCursor().onsuccess = event => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (!cursor) return;
+
+        const { changes: uploadChanges = [], ...summary } = cursor.value;
+        uploadChanges.forEach((change: Omit<LocalLoanChange, 'fileUploadId'>) =>
+          changes.put({ ...change, fileUploadId: summary.id }));
+        cursor.update(summary);
+        cursor.continue();
+      };
+    }
+    if (oldVersion < 4) {
+      const views = db.createObjectStore(VIEWS_STORE, { keyPath: 'id' });
+      views.createIndex(VIEWS_BY_NAME_INDEX, 'name', { unique: true });
+    }
+  });
+
+  const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => Promise<T>
+  ): Promise<T> => {
+    const db = await openLocalDatabase();
+    try {
+      const transaction = db.transaction(storeName, mode);
+      const result = await run(transaction.objectStore(storeName));
+      await transactionDone(transaction);
+      return result;
+    } finally {
+      db.close();
+    }
+  };
+
+  const readAllLoans = () =>
+    withStore(LOANS_STORE, 'readonly', store => requestResult(store.getAll() as IDBRequest<LoanData[]>));
+
+  const readAllUploads = () =>
+    withStore(UPLOADS_STORE, 'readonly', store => requestResult(store.getAll() as IDBRequest<FileUploadSummary[]>));
+
+  const readUploadChanges = (changes: IDBObjectStore, fileUploadId: string) =>
+    requestResult(changes.getAll(changesOfUpload(fileUploadId)) as IDBRequest<LocalLoanChange[]>);
+
+  const createUpload = async (fileName: string): Promise<FileUpload> => {
+    const upload: FileUploadSummary = {
+      id: crypto.randomUUID(),
+      file_name: fileName,
+      upload_date: new Date().toISOString(),
+      record_count: 0,
+      uploaded_by: null,
+      rolled_back_at: null,
+      inserted_count: 0,
+      updated_count: 0,
+      unchanged_count: 0
+    };
+
+    await withStore(UPLOADS_STORE, 'readwrite', store => requestResult(store.add(upload)));
+    return upload;
+  };
+
+  const finalizeUpload = async (fileUploadId: string, recordCount: number): Promise<UploadOutcome | null> => {
+    const db = await openLocalDatabase();
+    try {
+      const transaction = db.transaction([UPLOADS_STORE, CHANGES_STORE], 'readwrite');
+      const uploads = transaction.objectStore(UPLOADS_STORE);
+
+      const upload = await requestResult(uploads.get(fileUploadId) as IDBRequest<FileUploadSummary | undefined>);
+      if (!upload) return null;
+
+      const outcome = measureOutcome(await readUploadChanges(transaction.objectStore(CHANGES_STORE), fileUploadId));
+      uploads.put({
+        ...upload,
+        record_count: recordCount,
+        inserted_count: outcome.inserted,
+        updated_count: outcome.updated,
+        unchanged_count: outcome.unchanged
+      });
+      await transactionDone(transaction);
+      return outcome;
+    } finally {
+      db.close();
+    }
+  };
+
+  const deleteUploadRecords = async (fileUploadId: string, onlyRolledBack: boolean): Promise<void> => {
+    const db = await openLocalDatabase();
+    try {
+      const transaction = db.transaction([UPLOADS_STORE, CHANGES_STORE], 'readwrite');
+      const uploads = transaction.objectStore(UPLOADS_STORE);
+
+      const upload = await requestResult(uploads.get(fileUploadId) as IDBRequest<FileUploadSummary | undefined>);
+      if (!upload || (onlyRolledBack && !upload.rolled_back_at)) return;
+
+      uploads.delete(fileUploadId);
+      transaction.objectStore(CHANGES_STORE).delete(changesOfUpload(fileUploadId));
+      await transactionDone(transaction);
+    } finally {
+      db.close();
+    }
+  };
+
+  const discardUpload = (fileUploadId: string): Promise<void> => deleteUploadRecords(fileUploadId, false);
+
+  const fetchLatestUpload = async (): Promise<FileUpload | null> => {
+    const uploads = await fetchUploads();
+    return uploads[0] ?? null;
+  };
+
+  const fetchUploads = async (): Promise<FileUploadSummary[]> => {
+    const uploads = await readAllUploads();
+    return uploads.sort((a, b) => b.upload_date.localeCompare(a.upload_date));
+  };
+
+  const fetchUploadSummary = async (fileUploadId: string): Promise<FileUploadSummary | null> => {
+    const upload = await withStore(UPLOADS_STORE, 'readonly', store =>
+      requestResult(store.get(fileUploadId) as IDBRequest<FileUploadSummary | undefined>));
+    return upload ?? null;
+  };
+
+  const fetchLoansForUpload = async (
+    fileUploadId: string,
+    page: number,
+    pageSize: number
+  ): Promise<{ loans: LoanData[]; count: number }> => {
+    const loans = (await readAllLoans()).filter(loan => loan.file_upload_id === fileUploadId).sort(byDueDate);
+    const from = page * pageSize;
+    return { loans: loans.slice(from, from + pageSize), count: loans.length };
+  };
+
+  const fetchUploadOutcome = async (fileUploadId: string): Promise<UploadOutcome> => {
+    const db = await openLocalDatabase();
+    try {
+      const transaction = db.transaction([UPLOADS_STORE, CHANGES_STORE], 'readonly');
+      const upload = await requestResult(transaction.objectStore(UPLOADS_STORE).get(fileUploadId));
+      if (!upload) throw new Error(`Upload ${fileUploadId} does not exist`);
+      return measureOutcome(await readUploadChanges(transaction.objectStore(CHANGES_STORE), fileUploadId));
+    } finally {
+      db.close();
+    }
+  };
+
+  const rollbackUpload = async (fileUploadId: string): Promise<RollbackResult> => {
+    const db = await openLocalDatabase();
+    try {
+      const transaction = db.transaction([LOANS_STORE, UPLOADS_STORE, CHANGES_STORE], 'readwrite');
+      const loans = transaction.objectStore(LOANS_STORE);
+      const uploads = transaction.objectStore(UPLOADS_STORE);
+      const changes = transaction.objectStore(CHANGES_STORE);
+
+      const upload = await requestResult(uploads.get(fileUploadId) as IDBRequest<FileUploadSummary | undefined>);
+      if (!upload || upload.rolled_back_at) {
+        throw new Error(`Upload ${fileUploadId} does not exist or was already rolled back`);
+      }
+
+      const uploadChanges = await readUploadChanges(changes, fileUploadId);
+
+      // Rolled back uploads keep no changes, so only live later uploads count
+      const uploadDates = new Map<string, string | undefined>();
+      for (const change of uploadChanges) {
+        const loanChanges = await requestResult(
+          changes.index(CHANGES_BY_LOAN_INDEX).getAll(change.loanId) as IDBRequest<LocalLoanChange[]>
+        );
+        for (const other of loanChanges) {
+          if (other.fileUploadId === fileUploadId) continue;
+          if (!uploadDates.has(other.fileUploadId)) {
+            const otherUpload = await requestResult(
+              uploads.get(other.fileUploadId) as IDBRequest<FileUploadSummary | undefined>
+            );
+            uploadDates.set(other.fileUploadId, otherUpload?.upload_date);
+          }
+          const otherDate = uploadDates.get(other.fileUploadId);
+          if (otherDate && otherDate > upload.upload_date) {
+            throw new Error('Loans from this upload were changed by a later upload. Roll back the later upload first.');
+          }
+        }
+      }
+
+      let restored = 0;
+      let deleted = 0;
+      uploadChanges.forEach(change => {
+        if (change.previous) {
+          loans.put(change.previous);
+          restored++;
+        } else {
+          loans.delete(change.loanId);
+          deleted++;
+        }
+      });
+
+      changes.delete(changesOfUpload(fileUploadId));
+      uploads.put({ ...upload, rolled_back_at: new Date().toISOString() });
+      await transactionDone(transaction);
+      return { restored, deleted };
+    } finally {
+      db.close();
+    }
+  };
+
+  const deleteUpload = (fileUploadId: string): Promise<void> => deleteUploadRecords(fileUploadId, true);
+
+  const upsertLoans = async (batch: LoanData[], fileUploadId: string): Promise<void> => {
+    const db = await openLocalDatabase();
+    try {
+      const transaction = db.transaction([LOANS_STORE, UPLOADS_STORE, CHANGES_STORE], 'readwrite');
+      const loans = transaction.objectStore(LOANS_STORE);
+      const changes = transaction.objectStore(CHANGES_STORE);
+
+      const upload = await requestResult(transaction.objectStore(UPLOADS_STORE).getKey(fileUploadId));
+      if (!upload) throw new Error(`Upload ${fileUploadId} does not exist`);
+
+      for (const loan of batch) {
+        const row: LoanData = {
+          user_wallet: loan.user_wallet,
+          loan_amount: loan.loan_amount,
+          loan_repaid_amount: loan.loan_repaid_amount ?? null,
+          loan_term: loan.loan_term,
+          time_loan_started: loan.time_loan_started || null,
+          time_loan_ended: loan.time_loan_ended || null,
+          loan_due_date: loan.loan_due_date || null,
+          default_loan_date: loan.default_loan_date || null,
+          is_defaulted: loan.is_defaulted,
+          version: loan.version || null,
+          file_upload_id: fileUploadId
+        };
+
+        const existing = await requestResult(
+          loans.index(NATURAL_KEY_INDEX).get([row.user_wallet, row.loan_amount, row.loan_due_date]) as IDBRequest<LoanData | undefined>
+        );
+        row.id = existing?.id ?? crypto.randomUUID();
+        loans.put(row);
+
+        // Rewrites of a loan already written by this upload are not recorded again
+        if (existing?.file_upload_id === fileUploadId) continue;
+
+        const change: LocalLoanChange = {
+          fileUploadId,
+          loanId: row.id,
+          previous: existing ?? null,
+          changedFields: existing
+            ? TRACKED_FIELDS.filter(field => (existing[field] ?? null) !== (row[field] ?? null))
+            : null,
+          previousStatus: existing ? getLoanStatus(existing) : null,
+          newStatus: getLoanStatus(row)
+        };
+        changes.put(change);
+      }
+
+      await transactionDone(transaction);
+    } finally {
+      db.close();
+    }
+  };
+
+  const countLoans = async (): Promise<number> =>
+    withStore(LOANS_STORE, 'readonly', store => requestResult(store.count()));
+
+  const fetchLoans = async (progressCallback?: (percent: number, message: string) => void): Promise<LoanData[]> => {
+    progressCallback?.(0, "Loading loan data...");
+    const loans = (await readAllLoans()).sort(byDueDate);
+    progressCallback?.(100, "Loan data loaded successfully");
+    return loans;
+  };
+
+  const fetchFilteredLoans = async (filters: LoanFilters): Promise<LoanData[]> =>
+    applyLoanFilters(await readAllLoans(), filters).sort(byDueDate);
+
+  const fetchLoansForWallet = async (wallet: string): Promise<LoanData[]> =>
+    (await readAllLoans())
+      .filter(loan => loan.user_wallet === wallet)
+      .sort((a, b) => startTime(a) - startTime(b));
+
+  const searchWallets = async (query: string, limit = 8): Promise<WalletMatch[]> =>
+    matchWallets(await readAllLoans(), query, limit);
+
+  // Local data keeps no history, the loan is only rewritten
+  const updateLoan = async (loanId: string, changes: LoanEdit): Promise<LoanData> =>
+    withStore(LOANS_STORE, 'readwrite', async store => {
+      const existing = await requestResult(store.get(loanId) as IDBRequest<LoanData | undefined>);
+      if (!existing) throw new Error(`Loan ${loanId} does not exist`);
+
+      const loan = { ...existing, ...changes };
+      store.put(loan);
+      return loan;
+    });
+
+  // Local views belong to whoever is at the browser, they have no owner
+  const fetchSavedViews = async (): Promise<SavedView[]> =>
+    (await withStore(VIEWS_STORE, 'readonly', store => requestResult(store.getAll() as IDBRequest<SavedView[]>)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+  const saveView = async (name: string, filters: LoanFilters): Promise<SavedView> =>
+    withStore(VIEWS_STORE, 'readwrite', async store => {
+      const existing = await requestResult(
+        store.index(VIEWS_BY_NAME_INDEX).get(name) as IDBRequest<SavedView | undefined>
+      );
+      const now = new Date().toISOString();
+      const view: SavedView = {
+        id: existing?.id ?? crypto.randomUUID(),
+        name,
+        filters,
+        created_by: null,
+        created_at: existing?.created_at ?? now,
+        updated_at: now
+      };
+      store.put(view);
+      return view;
+    });
+
+  const deleteSavedView = async (id: string): Promise<void> => {
+    await withStore(VIEWS_STORE, 'readwrite', store => requestResult(store.delete(id)));
+  };
+
+  const fetchMappingProfile = async (headerSignature: string): Promise<ColumnMappingProfile | null> => {
+    try {
+      const profile = await withStore(PROFILES_STORE, 'readonly', store =>
+        requestResult(store.get(headerSignature) as IDBRequest<ColumnMappingProfile | undefined>));
+      return profile ?? null;
+    } catch (error) {
+      console.error("Error fetching column mapping profile:", error);
+      return null;
+    }
+  };
+
+  const saveMappingProfile = async (
+    name: string,
+    headerSignature: string,
+    mapping: Record<string, string>
+  ): Promise<ColumnMappingProfile | null> => {
+    try {
+      return await withStore(PROFILES_STORE, 'readwrite', async store => {
+        const existing = await requestResult(store.get(headerSignature) as IDBRequest<ColumnMappingProfile | undefined>);
+        const now = new Date().toISOString();
+        const profile: ColumnMappingProfile = {
+          id: existing?.id ?? crypto.randomUUID(),
+          name,
+          header_signature: headerSignature,
+          mapping,
+          created_at: existing?.created_at ?? now,
+          updated_at: now
+        };
+        store.put(profile);
+        return profile;
+      });
+    } catch (error) {
+      console.error("Error saving column mapping profile:", error);
+      return null;
+    }
+  };
+
+  return {
+    isLocal: true,
+    createUpload,
+    finalizeUpload,
+    discardUpload,
+    fetchLatestUpload,
+    fetchUploads,
+    fetchUploadSummary,
+    fetchLoansForUpload,
+    fetchUploadOutcome,
+    rollbackUpload,
+    deleteUpload,
+    upsertLoans,
+    countLoans,
+    fetchLoans,
+    fetchFilteredLoans,
+    fetchPortfolioAggregates: async filters => aggregateLoans(await readAllLoans(), filters),
+    fetchDrillDownLoans: async (filters, drillDown) => selectDrillDownLoans(await readAllLoans(), filters, drillDown),
+    fetchLoansForWallet,
+    searchWallets,
+    // Products are managed in the database, locally every loan is measured
+    // without one
+    fetchLoanProducts: async () => [],
+    updateLoan,
+    fetchSavedViews,
+    saveView,
+    deleteSavedView,
+    fetchMappingProfile,
+    saveMappingProfile
+  };
+};
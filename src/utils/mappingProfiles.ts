@@ -0,0 +1,32 @@
+import { ColumnMappingProfile } from "./types";
+
+// Profiles store the mapping by header name so they stay readable in the
+// database; the upload pipeline works with column indexes.
+export const profileToHeaderMap = (
+  profile: ColumnMappingProfile,
+  headers: string[]
+): Record<number, string> => {
+  const headerMap: Record<number, string> = {};
+
+  headers.forEach((header, index) => {
+    const field = profile.mapping[header];
+    if (field) {
+      headerMap[index] = field;
+    }
+  });
+
+  return headerMap;
+};
+
+export const headerMapToProfileMapping = (
+  headerMap: Record<number, string>,
+  headers: string[]
+): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+
+  Object.entries(headerMap).forEach(([index, field]) => {
+    mapping[headers[Number(index)]] = field;
+  });
+
+  return mapping;
+};
@@ -0,0 +1,14 @@
+import { getLoanRepository } from './loanRepository';
+
+// Roll rates compare snapshots rebuilt from the loan history, which local data
+// does not keep
+export const HAS_ROLL_RATES = !getLoanRepository().isLocal;
+
+// Top-level pages, shared by the header and the command palette
+export const NAV_ITEMS = [
+  { to: '/', label: 'Dashboard' },
+  { to: '/borrowers', label: 'Borrowers' },
+  ...(HAS_ROLL_RATES ? [{ to: '/roll-rates', label: 'Roll Rates' }] : []),
+  { to: '/report', label: 'Report' },
+  { to: '/uploads', label: 'Upload History' },
+];
@@ -0,0 +1,25 @@
+import { AppRole, Permission } from './types';
+
+export const APP_ROLES: AppRole[] = ['viewer', 'analyst', 'operator'];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  viewer: 'Viewer',
+  analyst: 'Analyst',
+  operator: 'Operator'
+};
+
+// The least role allowed each action. The database enforces the same rules
+// through the policies in supabase/migrations/20261019180000_auth_roles.sql
+// and 20261020010000_saved_views.sql, and update_loan in
+// 20261020020000_loan_edits.sql. Exports are only checked here, viewers can
+// read every row being exported.
+const REQUIRED_ROLE: Record<Permission, AppRole> = {
+  export: 'analyst',
+  saveViews: 'analyst',
+  upload: 'operator',
+  rollback: 'operator',
+  editLoans: 'operator'
+};
+
+export const hasPermission = (role: AppRole | null | undefined, permission: Permission): boolean =>
+  !!role && APP_ROLES.indexOf(role) >= APP_ROLES.indexOf(REQUIRED_ROLE[permission]);
@@ -0,0 +1,93 @@
+import { differenceInCalendarDays, endOfDay, format, isValid, parseISO, subDays } from 'date-fns';
+import { LoanData, LoanProduct, PortfolioReport, ReportHeaderConfig, TimeGranularity } from './types';
+import { calculateLoanMetrics, generateStatusChartData } from './loanCalculations';
+import { EMPTY_LOAN_FILTERS, applyLoanFilters } from './loanFilters';
+import { buildAgingBuckets, calculatePAR, getDaysPastDue } from './delinquency';
+import { buildLoanTimeSeries } from './timeSeries';
+
+const HEADER_STORAGE_KEY = 'portfolio-report-header';
+
+export const DEFAULT_REPORT_HEADER: ReportHeaderConfig = {
+  title: 'Portfolio Report',
+  periodLabel: '',
+  logoDataUrl: null
+};
+
+export const loadReportHeader = (): ReportHeaderConfig => {
+  try {
+    const stored = localStorage.getItem(HEADER_STORAGE_KEY);
+    return stored ? { ...DEFAULT_REPORT_HEADER, ...JSON.parse(stored) } : DEFAULT_REPORT_HEADER;
+  } catch (error) {
+    console.error("Error reading the report header:", error);
+    return DEFAULT_REPORT_HEADER;
+  }
+};
+
+// Large logos can exceed the storage quota, the header then only lasts for
+// this session
+export const saveReportHeader = (header: ReportHeaderConfig) => {
+  try {
+    localStorage.setItem(HEADER_STORAGE_KEY, JSON.stringify(header));
+  } catch (error) {
+    console.error("Error saving the report header:", error);
+  }
+};
+
+// The week up to and including today, matching the weekly investor update
+export const defaultReportRange = (today: Date = new Date()): { from: string; to: string } => ({
+  from: format(subDays(today, 6), 'yyyy-MM-dd'),
+  to: format(today, 'yyyy-MM-dd')
+});
+
+export const isValidReportRange = (from: string, to: string): boolean => {
+  const start = parseISO(from);
+  const end = parseISO(to);
+  return isValid(start) && isValid(end) && start <= end;
+};
+
+export const formatReportPeriod = (from: string, to: string): string => {
+  const start = parseISO(from);
+  const end = parseISO(to);
+  return start.getFullYear() === end.getFullYear()
+    ? `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`
+    : `${format(start, 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`;
+};
+
+// Keeps the activity chart readable on paper
+const activityGranularity = (from: string, to: string): TimeGranularity => {
+  const days = differenceInCalendarDays(parseISO(to), parseISO(from));
+  if (days <= 62) return 'day';
+  return days <= 366 ? 'week' : 'month';
+};
+
+// Loans originated in the range, with delinquency measured at its end
+export function buildPortfolioReport(
+  loans: LoanData[],
+  products: LoanProduct[],
+  from: string,
+  to: string,
+  now: Date = new Date()
+): PortfolioReport {
+  const rangeEnd = endOfDay(parseISO(to));
+  const asOf = rangeEnd < now ? rangeEnd : now;
+  const reportLoans = applyLoanFilters(loans, { ...EMPTY_LOAN_FILTERS, startedFrom: from, startedTo: to });
+  const metrics = calculateLoanMetrics(reportLoans, products);
+  const agingBuckets = buildAgingBuckets(reportLoans, asOf, now);
+
+  const expiredLoans = agingBuckets
+    .flatMap(bucket => bucket.loans)
+    .sort((a, b) => getDaysPastDue(b, asOf) - getDaysPastDue(a, asOf));
+
+  return {
+    from,
+    to,
+    asOf,
+    loanCount: reportLoans.length,
+    metrics,
+    statusChart: generateStatusChartData(metrics),
+    par: calculatePAR(reportLoans, asOf, now),
+    agingBuckets,
+    activity: buildLoanTimeSeries(reportLoans, activityGranularity(from, to)),
+    expiredLoans
+  };
+}
@@ -0,0 +1,56 @@
+import {
+  CohortGranularity,
+  LoanProduct,
+  PortfolioAggregates,
+  PortfolioSummary,
+  TimeGranularity
+} from "./types";
+import { buildDueDateGroups, buildLoanMetrics } from "./loanCalculations";
+import { buildAgingBucketsFromArrears, buildPARTrend, measurePARFromArrears } from "./delinquency";
+import { completeTimeSeries } from "./timeSeries";
+import { buildVintageAnalysis } from "./vintageAnalysis";
+
+const TIME_GRANULARITIES: TimeGranularity[] = ['day', 'week', 'month'];
+const COHORT_GRANULARITIES: CohortGranularity[] = ['week', 'month'];
+
+// Products are applied here rather than in the database so editing them does
+// not need a refetch
+export const summarizePortfolio = (aggregates: PortfolioAggregates, products: LoanProduct[]): PortfolioSummary => ({
+  asOf: aggregates.as_of,
+  totalCount: aggregates.total_count,
+  filterOptions: {
+    versions: aggregates.versions,
+    amounts: aggregates.amounts,
+    uploadIds: aggregates.upload_ids
+  },
+  metrics: buildLoanMetrics(aggregates.status_counts, products),
+  dueDateGroups: buildDueDateGroups(aggregates.due_days),
+  agingBuckets: buildAgingBucketsFromArrears(aggregates.arrears),
+  par: measurePARFromArrears(aggregates.arrears),
+  timeSeries: Object.fromEntries(TIME_GRANULARITIES.map(granularity => [
+    granularity,
+    completeTimeSeries(
+      aggregates.activity
+        .filter(point => point.granularity === granularity)
+        .map(point => ({
+          period: point.period,
+          originations: point.originations,
+          originationVolume: point.origination_volume,
+          repayments: point.repayments,
+          repaymentVolume: point.repayment_volume,
+          defaults: point.defaults,
+          defaultVolume: point.default_volume
+        })),
+      granularity
+    )
+  ])) as PortfolioSummary['timeSeries'],
+  parTrend: Object.fromEntries(COHORT_GRANULARITIES.map(granularity => [
+    granularity,
+    buildPARTrend(aggregates.par_trend.filter(point => point.granularity === granularity), granularity)
+  ])) as PortfolioSummary['parTrend'],
+  vintage: Object.fromEntries(COHORT_GRANULARITIES.map(granularity => [
+    granularity,
+    buildVintageAnalysis(aggregates.vintage.filter(cohort => cohort.granularity === granularity), granularity)
+  ])) as PortfolioSummary['vintage'],
+  cachedAt: aggregates.cached_at ?? null
+});
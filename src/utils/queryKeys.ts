@@ -0,0 +1,37 @@
+import { LoanData, LoanDrillDown, LoanFilters, LoanSnapshotSource } from "./types";
+import { formatSnapshotSource } from "./loanSnapshots";
+
+// Cache keys shared by every query hook. Everything read from loans sits under
+// one root and everything read from uploads under another, so a new upload or
+// rollback can invalidate each with a single call.
+export const queryKeys = {
+  loans: {
+    all: ['loans'] as const,
+    count: () => ['loans', 'count'] as const,
+    list: () => ['loans', 'list'] as const,
+    metrics: (filters: LoanFilters) => ['loans', 'metrics', filters] as const,
+    drillDown: (filters: LoanFilters, drillDown: LoanDrillDown) => ['loans', 'drill-down', filters, drillDown] as const,
+    wallets: () => ['loans', 'wallet'] as const,
+    wallet: (wallet: string) => ['loans', 'wallet', wallet] as const,
+    search: (query: string) => ['loans', 'search', query] as const,
+    // Keyed by the natural key, loans built from an upload have no id yet
+    events: (loan: Pick<LoanData, 'user_wallet' | 'loan_amount' | 'loan_due_date'> | null) =>
+      ['loans', 'events', loan?.user_wallet, loan?.loan_amount, loan?.loan_due_date] as const,
+    snapshot: (source: LoanSnapshotSource | null) =>
+      ['loans', 'snapshot', source ? formatSnapshotSource(source) : null] as const
+  },
+  uploads: {
+    all: ['uploads'] as const,
+    latest: () => ['uploads', 'latest'] as const,
+    list: () => ['uploads', 'list'] as const,
+    detail: (fileUploadId: string) => ['uploads', 'detail', fileUploadId] as const,
+    loans: (fileUploadId: string, page: number) => ['uploads', 'loans', fileUploadId, page] as const,
+    outcome: (fileUploadId: string) => ['uploads', 'outcome', fileUploadId] as const
+  },
+  products: ['loan-products'] as const,
+  savedViews: ['saved-views'] as const,
+  role: (userId: string | undefined) => ['auth', 'role', userId] as const,
+  // What IndexedDB held when the app loaded, outside the loans root so
+  // invalidating loan data does not read it again
+  loanBookCache: ['loan-book-cache'] as const
+};
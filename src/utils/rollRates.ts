@@ -0,0 +1,72 @@
+import { LoanData, RollRateCell, RollRateFromState, RollRateMatrix, RollRateState, RollRateToState } from './types';
+import { getLoanStatus } from './loanCalculations';
+
+export const ROLL_RATE_STATES: RollRateState[] = ['current', 'late', 'defaulted', 'repaid'];
+
+export const ROLL_RATE_FROM_STATES: RollRateFromState[] = [...ROLL_RATE_STATES, 'new'];
+
+export const ROLL_RATE_TO_STATES: RollRateToState[] = [...ROLL_RATE_STATES, 'removed'];
+
+export const ROLL_RATE_STATE_LABELS: Record<RollRateFromState | RollRateToState, string> = {
+  current: 'Current',
+  late: 'Late',
+  defaulted: 'Defaulted',
+  repaid: 'Repaid',
+  new: 'New',
+  removed: 'Removed'
+};
+
+// In-progress loans are late once their due date has passed at asOf
+export function getRollRateState(loan: LoanData, asOf: Date): RollRateState {
+  const status = getLoanStatus(loan);
+  if (status !== 'in_progress') return status;
+
+  const dueDate = new Date(loan.loan_due_date);
+  return !isNaN(dueDate.getTime()) && dueDate < asOf ? 'late' : 'current';
+}
+
+const emptyCell = (): RollRateCell => ({ count: 0, principal: 0, loans: [] });
+
+const addToCell = (cell: RollRateCell, loan: LoanData) => {
+  cell.count++;
+  cell.principal += loan.loan_amount;
+  cell.loans.push(loan);
+};
+
+// Loans are matched between the snapshots by id. Cells hold the loan as it is
+// in the second snapshot, or as it was in the first for removed loans.
+export function buildRollRateMatrix(
+  fromLoans: LoanData[],
+  fromAsOf: Date,
+  toLoans: LoanData[],
+  toAsOf: Date
+): RollRateMatrix {
+  const cells = Object.fromEntries(ROLL_RATE_FROM_STATES.map(from => [
+    from,
+    Object.fromEntries(ROLL_RATE_TO_STATES.map(to => [to, emptyCell()]))
+  ])) as RollRateMatrix['cells'];
+  const fromTotals = Object.fromEntries(
+    ROLL_RATE_FROM_STATES.map(from => [from, emptyCell()])
+  ) as RollRateMatrix['fromTotals'];
+
+  const fromStates = new Map<string, { loan: LoanData; state: RollRateState }>();
+  fromLoans.forEach(loan => {
+    if (loan.id) fromStates.set(loan.id, { loan, state: getRollRateState(loan, fromAsOf) });
+  });
+
+  toLoans.forEach(loan => {
+    const previous = loan.id ? fromStates.get(loan.id) : undefined;
+    const from: RollRateFromState = previous ? previous.state : 'new';
+
+    addToCell(cells[from][getRollRateState(loan, toAsOf)], loan);
+    addToCell(fromTotals[from], loan);
+    if (loan.id) fromStates.delete(loan.id);
+  });
+
+  fromStates.forEach(({ loan, state }) => {
+    addToCell(cells[state].removed, loan);
+    addToCell(fromTotals[state], loan);
+  });
+
+  return { cells, fromTotals };
+}
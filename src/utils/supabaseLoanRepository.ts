@@ -0,0 +1,532 @@
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { LoanRepository } from "./loanRepository";
+import {
+  ColumnMappingProfile,
+  FileUpload,
+  FileUploadSummary,
+  LoanData,
+  LoanDrillDown,
+  LoanEdit,
+  LoanFilters,
+  LoanProduct,
+  PortfolioAggregates,
+  RollbackResult,
+  SavedView,
+  UploadOutcome,
+  WalletMatch
+} from "./types";
+import { PAR_THRESHOLDS } from "./delinquency";
+import { EMPTY_LOAN_FILTERS } from "./loanFilters";
+import { VINTAGE_CHECKPOINTS } from "./vintageAnalysis";
+
+const PAGE_SIZE = 1000;
+
+// The database buckets dates on the browser's calendar, like the client-side
+// calculations do
+const filterArgs = (filters: LoanFilters) => ({
+  p_filters: { ...filters },
+  p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone
+});
+
+type LoanPage = PromiseLike<{ data: unknown[] | null; error: unknown }>;
+
+const fetchAllPages = async (fetchPage: (from: number, to: number) => LoanPage): Promise<LoanData[]> => {
+  const loans: LoanData[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+
+    loans.push(...((data || []) as LoanData[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return loans;
+};
+
+const createUpload = async (fileName: string): Promise<FileUpload> => {
+  const { data, error } = await supabase
+    .from('file_uploads')
+    .insert({
+      file_name: fileName,
+      record_count: 0
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Stores the final record count and the inserted / updated / unchanged
+// counts, returns the full outcome of the upload
+const finalizeUpload = async (fileUploadId: string, recordCount: number): Promise<UploadOutcome | null> => {
+  const { data, error } = await supabase.rpc('finalize_file_upload', {
+    p_file_upload_id: fileUploadId,
+    p_record_count: recordCount
+  });
+
+  if (error) throw error;
+  return data as unknown as UploadOutcome | null;
+};
+
+const discardUpload = async (fileUploadId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('file_uploads')
+    .delete()
+    .eq('id', fileUploadId);
+
+  if (error) throw error;
+};
+
+const fetchLatestUpload = async (): Promise<FileUpload | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('file_uploads')
+      .select('*')
+      .order('upload_date', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching latest file upload:", error);
+      return null;
+    }
+
+    return data as FileUpload;
+  } catch (error) {
+    console.error("Error in fetchLatestUpload:", error);
+    return null;
+  }
+};
+
+const fetchUploads = async (): Promise<FileUploadSummary[]> => {
+  const { data, error } = await supabase
+    .from('file_upload_summaries')
+    .select('*')
+    .order('upload_date', { ascending: false });
+
+  if (error) {
+    console.error("Error fetching upload history:", error);
+    throw error;
+  }
+
+  return (data || []) as FileUploadSummary[];
+};
+
+const fetchUploadSummary = async (fileUploadId: string): Promise<FileUploadSummary | null> => {
+  const { data, error } = await supabase
+    .from('file_upload_summaries')
+    .select('*')
+    .eq('id', fileUploadId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error fetching upload:", error);
+    throw error;
+  }
+
+  return data as FileUploadSummary | null;
+};
+
+const fetchLoansForUpload = async (
+  fileUploadId: string,
+  page: number,
+  pageSize: number
+): Promise<{ loans: LoanData[]; count: number }> => {
+  const from = page * pageSize;
+
+  const { data, error, count } = await supabase
+    .from('loans')
+    .select('*', { count: 'exact' })
+    .eq('file_upload_id', fileUploadId)
+    .order('loan_due_date', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, from + pageSize - 1);
+
+  if (error) {
+    console.error("Error fetching loans for upload:", error);
+    throw error;
+  }
+
+  return { loans: (data || []) as LoanData[], count: count || 0 };
+};
+
+const fetchUploadOutcome = async (fileUploadId: string): Promise<UploadOutcome> => {
+  const { data, error } = await supabase.rpc('get_upload_outcome', {
+    p_file_upload_id: fileUploadId
+  });
+
+  if (error) {
+    console.error("Error fetching upload outcome:", error);
+    throw error;
+  }
+
+  return data as unknown as UploadOutcome;
+};
+
+const rollbackUpload = async (fileUploadId: string): Promise<RollbackResult> => {
+  const { data, error } = await supabase.rpc('rollback_file_upload', {
+    p_file_upload_id: fileUploadId
+  });
+
+  if (error) {
+    console.error("Error rolling back upload:", error);
+    throw error;
+  }
+
+  return data as unknown as RollbackResult;
+};
+
+const deleteUpload = async (fileUploadId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('file_uploads')
+    .delete()
+    .eq('id', fileUploadId)
+    .not('rolled_back_at', 'is', null);
+
+  if (error) {
+    console.error("Error deleting upload:", error);
+    throw error;
+  }
+};
+
+const upsertLoans = async (batch: LoanData[], fileUploadId: string): Promise<void> => {
+  const loansToUpsert = batch.map(loan => {
+    return {
+      user_wallet: loan.user_wallet,
+      loan_amount: loan.loan_amount,
+      loan_repaid_amount: loan.loan_repaid_amount,
+      loan_term: loan.loan_term,
+      time_loan_started: loan.time_loan_started || null,
+      time_loan_ended: loan.time_loan_ended || null,
+      loan_due_date: loan.loan_due_date || null,
+      default_loan_date: loan.default_loan_date || null,
+      is_defaulted: loan.is_defaulted,
+      version: loan.version || null,
+      file_upload_id: fileUploadId
+    };
+  });
+
+  const { error } = await supabase
+    .from('loans')
+    .upsert(loansToUpsert, {
+      onConflict: 'user_wallet,loan_amount,loan_due_date',
+      ignoreDuplicates: false
+    });
+
+  if (error) throw error;
+};
+
+// Whether there is anything for the dashboard to show, without loading loans
+const countLoans = async (): Promise<number> => {
+  const { count, error } = await supabase
+    .from('loans')
+    .select('*', { count: 'exact', head: true });
+
+  if (error) {
+    console.error("Error counting loans:", error);
+    throw error;
+  }
+
+  return count || 0;
+};
+
+const fetchLoans = async (progressCallback?: (percent: number, message: string) => void): Promise<LoanData[]> => {
+  try {
+    // Start loading message
+    progressCallback?.(0, "Loading loan data...");
+
+    // Get total count first to calculate progress
+    const { count, error: countError } = await supabase
+      .from('loans')
+      .select('*', { count: 'exact', head: true });
+
+    if (countError) {
+      console.error("Error counting loans:", countError);
+      toast.error("Error counting loans in database");
+      throw countError;
+    }
+
+    const totalCount = count || 0;
+    console.log(`Found ${totalCount} total loans to fetch`);
+
+    if (totalCount === 0) {
+      progressCallback?.(100, "No loans found");
+      return [];
+    }
+
+    // Loans sharing a due date are ordered by id, so no page skips or repeats one
+    const allLoans = await fetchAllPages((from, to) => {
+      progressCallback?.(
+        Math.round((from / totalCount) * 100),
+        `Loading loans ${from + 1}-${to + 1} of ${totalCount}...`
+      );
+
+      return supabase
+        .from('loans')
+        .select('*')
+        .order('loan_due_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to);
+    });
+
+    progressCallback?.(100, "Loan data loaded successfully");
+    console.log(`Fetched ${allLoans.length} loans from database`);
+
+    return allLoans;
+  } catch (error) {
+    console.error("Error in fetchLoans:", error);
+    toast.error("Failed to fetch loan data");
+    throw error;
+  }
+};
+
+// Every loan matching the filters, for exports of the current view
+const fetchFilteredLoans = async (filters: LoanFilters): Promise<LoanData[]> => {
+  try {
+    return await fetchAllPages((from, to) => supabase
+      .rpc('filtered_loans', filterArgs(filters))
+      .order('loan_due_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+  } catch (error) {
+    console.error("Error fetching filtered loans:", error);
+    throw error;
+  }
+};
+
+const fetchPortfolioAggregates = async (filters: LoanFilters): Promise<PortfolioAggregates> => {
+  const { data, error } = await supabase.rpc('portfolio_summary', {
+    ...filterArgs(filters),
+    p_par_days: PAR_THRESHOLDS.map(threshold => threshold.minDays),
+    p_vintage_days: VINTAGE_CHECKPOINTS
+  });
+
+  if (error) {
+    console.error("Error fetching portfolio summary:", error);
+    throw error;
+  }
+
+  return data as unknown as PortfolioAggregates;
+};
+
+// The loans behind a due-date group or aging bucket, soonest due first
+const fetchDrillDownLoans = async (filters: LoanFilters, drillDown: LoanDrillDown): Promise<LoanData[]> => {
+  const args = {
+    ...filterArgs(filters),
+    p_min_days: drillDown.minDays,
+    p_max_days: drillDown.maxDays ?? undefined
+  };
+
+  try {
+    return await fetchAllPages((from, to) => supabase
+      .rpc(drillDown.type === 'upcoming' ? 'upcoming_loans' : 'past_due_loans', args)
+      .order('loan_due_date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to));
+  } catch (error) {
+    console.error("Error fetching drill-down loans:", error);
+    throw error;
+  }
+};
+
+const fetchLoansForWallet = async (wallet: string): Promise<LoanData[]> => {
+  const { data, error } = await supabase
+    .from('loans')
+    .select('*')
+    .eq('user_wallet', wallet)
+    .order('time_loan_started', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching loans for wallet:", error);
+    throw error;
+  }
+
+  return (data || []) as LoanData[];
+};
+
+// Matched and counted by search_wallets, see
+// supabase/migrations/20261020000000_wallet_search.sql
+const searchWallets = async (query: string, limit = 8): Promise<WalletMatch[]> => {
+  const { data, error } = await supabase.rpc('search_wallets', {
+    p_query: query.trim(),
+    p_limit: limit
+  });
+
+  if (error) {
+    console.error("Error searching wallets:", error);
+    throw error;
+  }
+
+  return (data || []).map(match => ({
+    wallet: match.wallet,
+    score: match.score,
+    loanCount: match.loan_count,
+    loans: (match.recent_loans ?? []) as unknown as LoanData[]
+  }));
+};
+
+const fetchLoanProducts = async (): Promise<LoanProduct[]> => {
+  const { data, error } = await supabase
+    .from('loan_products')
+    .select('id, name, principal, fee, term_days, version')
+    .order('principal', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching loan products:", error);
+    throw error;
+  }
+
+  return (data || []) as LoanProduct[];
+};
+
+// Through update_loan, which records the edit in the loan's history
+const updateLoan = async (loanId: string, changes: LoanEdit): Promise<LoanData> => {
+  const { data, error } = await supabase.rpc('update_loan', {
+    p_loan_id: loanId,
+    p_changes: changes
+  });
+
+  if (error) {
+    console.error("Error updating loan:", error);
+    throw error;
+  }
+
+  return data as LoanData;
+};
+
+// Views saved before a filter existed leave it empty
+const toSavedView = (row: Database['public']['Tables']['saved_views']['Row']): SavedView => ({
+  ...row,
+  filters: { ...EMPTY_LOAN_FILTERS, ...(row.filters as Partial<LoanFilters>) }
+});
+
+const fetchSavedViews = async (): Promise<SavedView[]> => {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error("Error fetching saved views:", error);
+    throw error;
+  }
+
+  return (data || []).map(toSavedView);
+};
+
+const saveView = async (name: string, filters: LoanFilters): Promise<SavedView> => {
+  const { data, error } = await supabase
+    .from('saved_views')
+    .upsert({
+      name,
+      filters: { ...filters },
+      updated_at: new Date().toISOString()
+    }, {
+      onConflict: 'created_by,name'
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving view:", error);
+    throw error;
+  }
+
+  return toSavedView(data);
+};
+
+const deleteSavedView = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('saved_views')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error("Error deleting saved view:", error);
+    throw error;
+  }
+};
+
+const fetchMappingProfile = async (headerSignature: string): Promise<ColumnMappingProfile | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('column_mapping_profiles')
+      .select('*')
+      .eq('header_signature', headerSignature)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching column mapping profile:", error);
+      return null;
+    }
+
+    return data as ColumnMappingProfile | null;
+  } catch (error) {
+    console.error("Error in fetchMappingProfile:", error);
+    return null;
+  }
+};
+
+const saveMappingProfile = async (
+  name: string,
+  headerSignature: string,
+  mapping: Record<string, string>
+): Promise<ColumnMappingProfile | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('column_mapping_profiles')
+      .upsert({
+        name,
+        header_signature: headerSignature,
+        mapping,
+        updated_at: new Date().toISOString()
+      }, {
+        onConflict: 'header_signature'
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error saving column mapping profile:", error);
+      return null;
+    }
+
+    return data as ColumnMappingProfile;
+  } catch (error) {
+    console.error("Error in saveMappingProfile:", error);
+    return null;
+  }
+};
+
+export const createSupabaseLoanRepository = (): LoanRepository => ({
+  isLocal: false,
+  createUpload,
+  finalizeUpload,
+  discardUpload,
+  fetchLatestUpload,
+  fetchUploads,
+  fetchUploadSummary,
+  fetchLoansForUpload,
+  fetchUploadOutcome,
+  rollbackUpload,
+  deleteUpload,
+  upsertLoans,
+  countLoans,
+  fetchLoans,
+  fetchFilteredLoans,
+  fetchPortfolioAggregates,
+  fetchDrillDownLoans,
+  fetchLoansForWallet,
+  searchWallets,
+  fetchLoanProducts,
+  updateLoan,
+  fetchSavedViews,
+  saveView,
+  deleteSavedView,
+  fetchMappingProfile,
+  saveMappingProfile
+});
@@ -0,0 +1,41 @@
+import { format as formatDateFns } from 'date-fns';
+import { downloadFile, toCSV } from './csvExport';
+import { toXLSX } from './xlsxExport';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export type ExportValue = string | number | boolean | null;
+
+// One column of an on-screen table, values are raw so amounts stay numeric
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => ExportValue;
+}
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV' },
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'json', label: 'JSON' }
+];
+
+// Dates leave the app as ISO 8601, unparseable values are passed through as-is
+export const toISODate = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toISOString();
+};
+
+export const exportTable = <T,>(name: string, columns: ExportColumn<T>[], rows: T[], format: ExportFormat) => {
+  const headers = columns.map(column => column.header);
+  const values = rows.map(row => columns.map(column => column.value(row)));
+  const fileName = `${name}-${formatDateFns(new Date(), 'yyyy-MM-dd')}.${format}`;
+
+  if (format === 'csv') {
+    downloadFile(toCSV(headers, values), fileName, 'text/csv;charset=utf-8');
+  } else if (format === 'xlsx') {
+    downloadFile(toXLSX(headers, values, name), fileName, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  } else {
+    const objects = values.map(row => Object.fromEntries(headers.map((header, index) => [header, row[index]])));
+    downloadFile(JSON.stringify(objects, null, 2), fileName, 'application/json');
+  }
+};
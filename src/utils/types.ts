@@ -1,5 +1,8 @@
+import type { CSVDelimiter } from './csvTokenizer';
+
 
 export interface LoanData {
+  id?: string;
   user_wallet: string;
   loan_amount: number;
   loan_repaid_amount?: number | null;
@@ -13,49 +16,536 @@ export interface LoanData {
   file_upload_id?: string | null;
 }
 
+export interface LoanStatusCounts {
+  defaulted: number;
+  repaid: number;
+  inProgress: number;
+  total: number;
+}
+
+// A product tier loans are issued under, matched by principal and version
+export interface LoanProduct {
+  id: string;
+  name: string;
+  principal: number;
+  // Fee or interest owed on top of the principal
+  fee: number;
+  term_days: number | null;
+  // Null matches every version of this principal
+  version: string | null;
+}
+
+export interface ProductTierMetrics extends LoanStatusCounts {
+  key: string;
+  name: string;
+  principal: number;
+  // Null for amounts that match no configured product
+  product: LoanProduct | null;
+}
+
 export interface LoanMetrics {
   totalLoans: number;
   totalDefaulted: number;
   totalInProgress: number;
-  
-  // $1 Loans
-  oneDollarLoans: {
-    defaulted: number;
-    repaid: number;
-    inProgress: number;
-    total: number;
-  };
-  
-  // $10 Loans
-  tenDollarLoans: {
-    defaulted: number;
-    repaid: number;
-    inProgress: number;
-    total: number;
+  totalRepaid: number;
+  totalPrincipal: number;
+  tiers: ProductTierMetrics[];
+}
+
+export type TimeGranularity = 'day' | 'week' | 'month';
+
+export interface TimeSeriesPoint {
+  // Start of the period, yyyy-MM-dd
+  period: string;
+  label: string;
+  originations: number;
+  originationVolume: number;
+  repayments: number;
+  repaymentVolume: number;
+  defaults: number;
+  defaultVolume: number;
+  // Principal neither repaid nor defaulted at the end of the period
+  outstandingPrincipal: number;
+}
+
+export type CohortGranularity = Exclude<TimeGranularity, 'day'>;
+
+export interface VintagePoint {
+  // Days since origination
+  day: number;
+  // Share of the cohort repaid or defaulted within that many days, null
+  // while the cohort is too young to have reached the checkpoint
+  repaidRate: number | null;
+  defaultedRate: number | null;
+}
+
+export interface VintageCohort {
+  period: string;
+  label: string;
+  loanCount: number;
+  principal: number;
+  points: VintagePoint[];
+}
+
+export interface AgingBucket {
+  key: string;
+  label: string;
+  minDays: number;
+  // Null for the open-ended last bucket
+  maxDays: number | null;
+  count: number;
+  principal: number;
+  // Empty when built from portfolio_summary, tables load them on demand
+  loans: LoanData[];
+}
+
+export interface PARRatio {
+  key: string;
+  label: string;
+  minDays: number;
+  principal: number;
+  // Share of outstanding principal, 0 when nothing is outstanding
+  ratio: number;
+}
+
+export interface PARSnapshot {
+  period: string;
+  label: string;
+  outstandingPrincipal: number;
+  // PAR key -> ratio
+  ratios: Record<string, number>;
+}
+
+// Where a roll-rate snapshot comes from: the loan book right after an
+// upload, or at the end of a day (yyyy-MM-dd)
+export type LoanSnapshotSource =
+  | { type: 'upload'; fileUploadId: string }
+  | { type: 'date'; date: string };
+
+export interface LoanSnapshot {
+  source: LoanSnapshotSource;
+  label: string;
+  // Moment the statuses are evaluated at
+  asOf: Date;
+  loans: LoanData[];
+}
+
+// Roll-rate states refine LoanStatus by splitting in-progress loans into
+// current and late
+export type RollRateState = 'current' | 'late' | 'defaulted' | 'repaid';
+
+// Rows add loans missing from the first snapshot, columns loans missing from the second
+export type RollRateFromState = RollRateState | 'new';
+export type RollRateToState = RollRateState | 'removed';
+
+export interface RollRateCell {
+  count: number;
+  principal: number;
+  loans: LoanData[];
+}
+
+export interface RollRateMatrix {
+  cells: Record<RollRateFromState, Record<RollRateToState, RollRateCell>>;
+  fromTotals: Record<RollRateFromState, RollRateCell>;
+}
+
+export interface TierStep {
+  amount: number;
+  // First loan at this amount
+  firstTaken: string | null;
+  count: number;
+}
+
+export interface WalletMatch {
+  wallet: string;
+  // Lower ranks first
+  score: number;
+  // Every loan of the wallet, loans may only hold the latest ones
+  loanCount: number;
+  loans: LoanData[];
+}
+
+export interface BorrowerSummary {
+  wallet: string;
+  loanCount: number;
+  totalBorrowed: number;
+  totalRepaid: number;
+  // Repaid by the due date, out of the loans that were due or repaid; null
+  // before any loan has come due
+  onTimeRate: number | null;
+  averageDaysToRepay: number | null;
+  defaultCount: number;
+  outstandingAmount: number;
+  firstLoanDate: string | null;
+  lastLoanDate: string | null;
+  highestAmount: number;
+  // Loan amounts in the order the borrower first took them
+  tierProgression: TierStep[];
+}
+
+// Default rate of loans grouped by how many earlier loans the same wallet had
+// already repaid when the loan started
+export interface PriorLoanDefaultRate {
+  label: string;
+  priorRepaid: number;
+  loanCount: number;
+  defaultedCount: number;
+  defaultRate: number | null;
+}
+
+export interface BorrowerAnalytics {
+  borrowerCount: number;
+  repeatBorrowerCount: number;
+  repeatBorrowerRate: number | null;
+  // Wallets that took the starter amount, and how many of them later took the
+  // graduated amount
+  graduation: {
+    fromAmount: number;
+    toAmount: number;
+    eligible: number;
+    graduated: number;
+    rate: number | null;
   };
+  defaultsByPriorLoans: PriorLoanDefaultRate[];
 }
 
+// Letterhead of the printable report, kept in the browser between reports
+export interface ReportHeaderConfig {
+  title: string;
+  // Empty means the report derives one from the date range
+  periodLabel: string;
+  logoDataUrl: string | null;
+}
+
+export interface PortfolioReport {
+  // yyyy-MM-dd, both inclusive
+  from: string;
+  to: string;
+  // Delinquency is measured at the end of the range, or now if that is later
+  asOf: Date;
+  loanCount: number;
+  metrics: LoanMetrics;
+  statusChart: ChartData[];
+  par: { outstandingPrincipal: number; ratios: PARRatio[] };
+  agingBuckets: AgingBucket[];
+  activity: TimeSeriesPoint[];
+  // Past due and neither repaid nor defaulted as of asOf, most overdue first
+  expiredLoans: LoanData[];
+}
+
+// Dashboard filters, all empty means every loan. Dates are yyyy-MM-dd and
+// both ends of a range are inclusive.
+export interface LoanFilters {
+  startedFrom: string | null;
+  startedTo: string | null;
+  dueFrom: string | null;
+  dueTo: string | null;
+  versions: string[];
+  amounts: number[];
+  statuses: LoanStatus[];
+  uploadIds: string[];
+}
+
+// A named set of dashboard filters. created_by is null for local data.
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: LoanFilters;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// The fields an operator can correct on a loan, the natural key is not one
+export type LoanEdit = Partial<Pick<
+  LoanData,
+  'loan_repaid_amount' | 'loan_term' | 'time_loan_started' | 'time_loan_ended' | 'default_loan_date' | 'is_defaulted'
+>>;
+
 export interface DueDateGroup {
   label: string;
   days: number;
   count: number;
+  // Empty when built from portfolio_summary, tables load them on demand
   loans: LoanData[];
 }
 
+// Loans sharing an amount, version and status, what tier metrics are built from
+export interface LoanStatusCount {
+  loan_amount: number;
+  version: string | null;
+  status: LoanStatus;
+  count: number;
+}
+
+// In-progress loans due in that many days
+export interface DueDaysCount {
+  days: number;
+  count: number;
+}
+
+// Outstanding loans that many days past due, 0 for loans not yet due
+export interface ArrearsCount {
+  days: number;
+  count: number;
+  principal: number;
+}
+
+// A period of the loan time series before gaps and the running outstanding
+// principal are filled in
+export type PeriodActivity = Omit<TimeSeriesPoint, 'label' | 'outstandingPrincipal'>;
+
+export interface AggregatedActivity {
+  granularity: TimeGranularity;
+  period: string;
+  originations: number;
+  origination_volume: number;
+  repayments: number;
+  repayment_volume: number;
+  defaults: number;
+  default_volume: number;
+}
+
+export interface AggregatedPARPoint {
+  granularity: CohortGranularity;
+  period: string;
+  outstanding_principal: number;
+  // Principal at risk, one entry per PAR_THRESHOLDS entry
+  at_risk: number[];
+}
+
+export interface AggregatedCohort {
+  granularity: CohortGranularity;
+  period: string;
+  loan_count: number;
+  principal: number;
+  // Days since the cohort's last origination
+  age: number;
+  // Loans repaid or defaulted by each VINTAGE_CHECKPOINTS entry
+  repaid: number[];
+  defaulted: number[];
+}
+
+// What the portfolio_summary database function returns
+export interface PortfolioAggregates {
+  as_of: string;
+  // The options below ignore the filters
+  total_count: number;
+  versions: string[];
+  amounts: number[];
+  upload_ids: string[];
+  status_counts: LoanStatusCount[];
+  due_days: DueDaysCount[];
+  arrears: ArrearsCount[];
+  activity: AggregatedActivity[];
+  par_trend: AggregatedPARPoint[];
+  vintage: AggregatedCohort[];
+  // Only set when the database could not be reached and the figures were
+  // computed from the cached loan book, holds when that was last synced
+  cached_at?: string;
+}
+
+export interface LoanFilterOptions {
+  versions: string[];
+  amounts: number[];
+  uploadIds: string[];
+}
+
+// The dashboard, built from PortfolioAggregates. Buckets carry counts only.
+export interface PortfolioSummary {
+  asOf: string;
+  totalCount: number;
+  filterOptions: LoanFilterOptions;
+  metrics: LoanMetrics;
+  dueDateGroups: DueDateGroup[];
+  agingBuckets: AgingBucket[];
+  par: { outstandingPrincipal: number; ratios: PARRatio[] };
+  timeSeries: Record<TimeGranularity, TimeSeriesPoint[]>;
+  parTrend: Record<CohortGranularity, PARSnapshot[]>;
+  vintage: Record<CohortGranularity, VintageCohort[]>;
+  // When the cached loan book the figures come from was synced, null when
+  // they come from the database
+  cachedAt: string | null;
+}
+
+// Loans behind a dashboard bucket, by days until due or days past due
+export interface LoanDrillDown {
+  type: 'upcoming' | 'pastDue';
+  minDays: number;
+  // Null for open-ended buckets
+  maxDays: number | null;
+}
+
 export interface ChartData {
   name: string;
   value: number;
   color: string;
 }
 
+export interface TierChartData {
+  key: string;
+  title: string;
+  data: ChartData[];
+}
+
 export interface FileUpload {
   id: string;
   file_name: string;
   upload_date: string;
   record_count: number;
+  uploaded_by?: string | null;
+  rolled_back_at?: string | null;
+}
+
+export interface FileUploadSummary extends FileUpload {
+  inserted_count: number;
+  updated_count: number;
+  unchanged_count: number;
+}
+
+export type LoanStatus = 'in_progress' | 'repaid' | 'defaulted';
+
+export interface StatusTransition {
+  from: LoanStatus;
+  to: LoanStatus;
+  count: number;
+}
+
+export interface FieldChangeCount {
+  field: string;
+  count: number;
+}
+
+// What an upload did to the loan book, computed by the database
+export interface UploadOutcome {
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  status_transitions: StatusTransition[];
+  field_changes: FieldChangeCount[];
+}
+
+export interface UploadResult {
+  fileUploadId: string;
+  // Loans stored, the loans themselves stay in the database
+  loanCount: number;
+  outcome: UploadOutcome | null;
+}
+
+export interface RollbackResult {
+  restored: number;
+  deleted: number;
+}
+
+export type LoanEventType = 'created' | 'updated' | 'deleted';
+
+export type LoanEventSource = 'upload' | 'rollback' | 'edit';
+
+// One entry of a loan's append-only history. Updates carry a single field,
+// created and deleted events carry the whole row.
+export interface LoanEvent {
+  id: number;
+  loan_id: string;
+  file_upload_id: string | null;
+  file_name?: string | null;
+  source: LoanEventSource;
+  event_type: LoanEventType;
+  field: string | null;
+  old_value: unknown;
+  new_value: unknown;
+  actor: string | null;
+  created_at: string;
+}
+
+// The loan book kept in IndexedDB. Loans written by transactions from the
+// cursor on may be missing from it and are fetched again on the next sync.
+export interface CachedLoanBook {
+  loans: LoanData[];
+  cursor: number;
+  syncedAt: string;
+}
+
+// Every loan, as of the last sync with the database. Offline when the
+// database could not be reached and the loans come from the cache.
+export interface LoanBook {
+  loans: LoanData[];
+  syncedAt: string;
+  isOffline: boolean;
+}
+
+// A change to one loan from the loan change feed. Deletes only carry the id.
+export type LoanChange =
+  | { type: 'upsert'; loan: LoanData }
+  | { type: 'delete'; id: string };
+
+export interface ColumnMappingProfile {
+  id: string;
+  name: string;
+  header_signature: string;
+  // Source header name -> LoanData field; unmapped headers are left out
+  mapping: Record<string, string>;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RowIssueSeverity = 'error' | 'warning';
+
+export interface RowIssue {
+  severity: RowIssueSeverity;
+  field: string | null;
+  message: string;
+}
+
+export interface RowValidationResult {
+  // Spreadsheet row number, the header being row 1
+  rowNumber: number;
+  user_wallet: string;
+  issues: RowIssue[];
+}
+
+export interface ValidationReport {
+  fileName: string;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  warningRows: number;
+  // Only rows with at least one issue
+  rows: RowValidationResult[];
 }
 
 export interface ProgressUpdate {
   percent: number;
   message: string;
 }
+
+// Messages sent from the main thread to the CSV parsing worker
+export type CSVWorkerRequest =
+  | {
+      type: 'start';
+      file: File;
+      delimiter?: CSVDelimiter;
+      // Column index -> LoanData field confirmed by the user, skips auto-detection
+      headerMap?: Record<number, string>;
+      batchSize: number;
+    }
+  | { type: 'ack' }
+  | { type: 'cancel' };
+
+// Messages posted back by the CSV parsing worker
+export type CSVWorkerResponse =
+  | {
+      type: 'header';
+      headers: string[];
+      headerMap: Record<number, string>;
+      missingRequiredFields: string[];
+      delimiter: CSVDelimiter;
+    }
+  | ({ type: 'progress' } & ProgressUpdate)
+  | { type: 'batch'; loans: LoanData[]; issues: RowValidationResult[] }
+  | { type: 'done'; totalRows: number; validRows: number; invalidRows: number; warningRows: number }
+  | { type: 'error'; message: string };
+
+// Each role includes everything the roles before it may do
+export type AppRole = 'viewer' | 'analyst' | 'operator';
+
+export type Permission = 'export' | 'saveViews' | 'upload' | 'rollback' | 'editLoans';
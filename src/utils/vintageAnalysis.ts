@@ -0,0 +1,34 @@
+import { parseISO } from 'date-fns';
+import { AggregatedCohort, CohortGranularity, VintageCohort } from './types';
+import { formatPeriod } from './timeSeries';
+
+// Days since origination at which every cohort is measured
+export const VINTAGE_CHECKPOINTS = [7, 14, 30, 45, 60, 90, 120, 180];
+
+// Loans grouped by origination week or month, with the cumulative share
+// repaid and defaulted by each checkpoint as counted by portfolio_summary.
+// Newest cohort first.
+export function buildVintageAnalysis(
+  cohorts: AggregatedCohort[],
+  granularity: CohortGranularity,
+  checkpoints: number[] = VINTAGE_CHECKPOINTS
+): VintageCohort[] {
+  return [...cohorts]
+    .sort((a, b) => b.period.localeCompare(a.period))
+    .map(cohort => ({
+      period: cohort.period,
+      label: formatPeriod(parseISO(cohort.period), granularity),
+      loanCount: cohort.loan_count,
+      principal: cohort.principal,
+      points: checkpoints.map((day, index) => {
+        // A checkpoint counts once every loan in the cohort has reached it
+        if (day > cohort.age) return { day, repaidRate: null, defaultedRate: null };
+
+        return {
+          day,
+          repaidRate: cohort.repaid[index] / cohort.loan_count,
+          defaultedRate: cohort.defaulted[index] / cohort.loan_count
+        };
+      })
+    }));
+}
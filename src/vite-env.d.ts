@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'local' keeps uploads and loans in this browser instead of Supabase
+  readonly VITE_DATA_SOURCE?: string;
+
+  // A single Supabase project, taken as production
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+
+  // Projects offered by the environment switcher
+  readonly VITE_SUPABASE_PROD_URL?: string;
+  readonly VITE_SUPABASE_PROD_ANON_KEY?: string;
+  readonly VITE_SUPABASE_STAGING_URL?: string;
+  readonly VITE_SUPABASE_STAGING_ANON_KEY?: string;
+  readonly VITE_SUPABASE_LOCAL_URL?: string;
+  readonly VITE_SUPABASE_LOCAL_ANON_KEY?: string;
+
+  // prod, staging or local, the environment used until one is picked
+  readonly VITE_SUPABASE_ENVIRONMENT?: string;
+}
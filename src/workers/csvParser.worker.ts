@@ -0,0 +1,188 @@
+// Streams a CSV file in chunks, maps each row to LoanData and posts the
+// results back in batches, together with the validation issues found, so the
+// main thread can store or report them while parsing continues. The main thread acknowledges every batch once it is stored;
+// parsing pauses while too many batches are waiting.
+
+import { CSVDelimiter, createCSVTokenizer, CSVTokenizer, detectDelimiter } from '@/utils/csvTokenizer';
+import { buildHeaderMapping, getMissingRequiredFields, mapRowToLoan, REQUIRED_FIELDS } from '@/utils/loanRowMapper';
+import { CSVWorkerRequest, CSVWorkerResponse, LoanData, RowValidationResult } from '@/utils/types';
+
+// Batches allowed to wait for an acknowledgement before parsing pauses
+const MAX_PENDING_BATCHES = 4;
+
+let cancelled = false;
+let pendingBatches = 0;
+let resumeParsing: (() => void) | null = null;
+
+const post = (message: CSVWorkerResponse) => {
+  self.postMessage(message);
+};
+
+const waitForCapacity = async () => {
+  while (pendingBatches >= MAX_PENDING_BATCHES && !cancelled) {
+    await new Promise<void>(resolve => {
+      resumeParsing = resolve;
+    });
+  }
+};
+
+const parseFile = async (
+  file: File,
+  delimiterOption: CSVDelimiter | undefined,
+  headerMapOverride: Record<number, string> | undefined,
+  batchSize: number
+) => {
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+
+  let tokenizer: CSVTokenizer | null = null;
+  let delimiter: CSVDelimiter = delimiterOption ?? ',';
+  let headerMap: Record<number, string> | null = null;
+  let bytesRead = 0;
+  let lastPercent = -1;
+  // Spreadsheet numbering: the header is row 1
+  let rowNumber = 1;
+  let totalRows = 0;
+  let validRows = 0;
+  let invalidRows = 0;
+  let warningRows = 0;
+  let batch: LoanData[] = [];
+  let batchIssues: RowValidationResult[] = [];
+
+  const flushBatch = async () => {
+    if (batch.length === 0 && batchIssues.length === 0) return;
+
+    pendingBatches++;
+    post({ type: 'batch', loans: batch, issues: batchIssues });
+    batch = [];
+    batchIssues = [];
+
+    await waitForCapacity();
+  };
+
+  // Returns false when parsing has to stop
+  const handleRows = async (rows: string[][]): Promise<boolean> => {
+    for (const row of rows) {
+      if (!headerMap) {
+        const headers = row.map(header => header.trim());
+
+        const { headerMap: mappedHeaders, missingRequiredFields } = headerMapOverride
+          ? { headerMap: headerMapOverride, missingRequiredFields: getMissingRequiredFields(headerMapOverride) }
+          : buildHeaderMapping(headers);
+
+        if (missingRequiredFields.length === REQUIRED_FIELDS.length) {
+          const errorMsg = `CSV is missing all required fields. Required: ${REQUIRED_FIELDS.join(', ')}`;
+          const foundHeaders = Object.values(mappedHeaders).join(', ');
+          post({
+            type: 'error',
+            message: `${errorMsg}\n\nFound fields: ${foundHeaders || 'None'}\n\nPlease ensure your CSV contains the required columns or their variations.`
+          });
+          return false;
+        }
+
+        headerMap = mappedHeaders;
+        post({ type: 'header', headers, headerMap, missingRequiredFields, delimiter });
+        continue;
+      }
+
+      rowNumber++;
+      const values = row.map(value => value.trim());
+      if (values.every(value => !value)) continue;
+
+      totalRows++;
+      const { loan, issues } = mapRowToLoan(values, headerMap);
+
+      if (issues.length > 0) {
+        batchIssues.push({
+          rowNumber,
+          user_wallet: loan?.user_wallet ?? '',
+          issues
+        });
+      }
+
+      if (!loan) {
+        invalidRows++;
+      } else {
+        validRows++;
+        if (issues.length > 0) warningRows++;
+        batch.push(loan);
+      }
+
+      if (batch.length >= batchSize || batchIssues.length >= batchSize) {
+        await flushBatch();
+        if (cancelled) return false;
+      }
+    }
+
+    return true;
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (cancelled) {
+      await reader.cancel();
+      return;
+    }
+
+    const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+    if (!tokenizer) {
+      // The first chunk always holds the header line used for detection
+      delimiter = delimiterOption ?? detectDelimiter(text);
+      tokenizer = createCSVTokenizer({ delimiter });
+    }
+
+    const rows = done ? [...tokenizer.push(text), ...tokenizer.flush()] : tokenizer.push(text);
+
+    if (!(await handleRows(rows))) {
+      await reader.cancel();
+      return;
+    }
+
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    const percent = file.size > 0 ? Math.floor((bytesRead / file.size) * 100) : 100;
+    if (percent !== lastPercent) {
+      lastPercent = percent;
+      post({
+        type: 'progress',
+        percent,
+        message: `Parsed ${totalRows} rows (${validRows} valid, ${invalidRows} invalid)...`
+      });
+    }
+  }
+
+  await flushBatch();
+
+  if (!headerMap) {
+    post({ type: 'error', message: "CSV file is empty or has only headers" });
+    return;
+  }
+
+  post({ type: 'done', totalRows, validRows, invalidRows, warningRows });
+};
+
+self.onmessage = (event: MessageEvent<CSVWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'start':
+      parseFile(request.file, request.delimiter, request.headerMap, request.batchSize).catch(error => {
+        console.error("Error parsing CSV in worker:", error);
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+      });
+      break;
+    case 'ack':
+      pendingBatches = Math.max(0, pendingBatches - 1);
+      resumeParsing?.();
+      resumeParsing = null;
+      break;
+    case 'cancel':
+      cancelled = true;
+      resumeParsing?.();
+      resumeParsing = null;
+      break;
+  }
+};
@@ -0,0 +1,23 @@
+-- Named CSV column mappings, matched to incoming files by header signature
+create table if not exists public.column_mapping_profiles (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  header_signature text not null unique,
+  mapping jsonb not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.column_mapping_profiles enable row level security;
+
+create policy "Allow public read access to column mapping profiles"
+  on public.column_mapping_profiles for select
+  using (true);
+
+create policy "Allow public insert access to column mapping profiles"
+  on public.column_mapping_profiles for insert
+  with check (true);
+
+create policy "Allow public update access to column mapping profiles"
+  on public.column_mapping_profiles for update
+  using (true);
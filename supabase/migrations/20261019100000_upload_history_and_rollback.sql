@@ -0,0 +1,146 @@
+-- Upload history: who uploaded, which loans each upload inserted or
+-- overwrote, and a transactional rollback of a single upload.
+
+alter table public.file_uploads
+  add column if not exists uploaded_by text default (auth.jwt() ->> 'email'),
+  add column if not exists rolled_back_at timestamptz;
+
+-- One row per loan an upload touched. previous holds the loan as it was
+-- before the upload overwrote it, and is null when the upload inserted it.
+create table if not exists public.loan_upload_changes (
+  id bigint generated always as identity primary key,
+  file_upload_id uuid not null references public.file_uploads(id) on delete cascade,
+  loan_id uuid not null references public.loans(id) on delete cascade,
+  previous jsonb,
+  created_at timestamptz not null default now(),
+  unique (file_upload_id, loan_id)
+);
+
+create index if not exists loan_upload_changes_loan_id_idx
+  on public.loan_upload_changes (loan_id);
+
+alter table public.loan_upload_changes enable row level security;
+
+create policy "Allow public read access to loan upload changes"
+  on public.loan_upload_changes for select
+  using (true);
+
+create or replace function public.record_loan_upload_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  -- Rollbacks restore rows themselves and must not be recorded as changes
+  if current_setting('app.skip_loan_upload_changes', true) = 'on' or new.file_upload_id is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into loan_upload_changes (file_upload_id, loan_id, previous)
+    values (new.file_upload_id, new.id, null)
+    on conflict (file_upload_id, loan_id) do nothing;
+  elsif old.file_upload_id is distinct from new.file_upload_id then
+    -- Only the first write of an upload is kept, so a loan repeated within
+    -- one file still rolls back to its state before that file
+    insert into loan_upload_changes (file_upload_id, loan_id, previous)
+    values (new.file_upload_id, new.id, to_jsonb(old))
+    on conflict (file_upload_id, loan_id) do nothing;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists loans_record_upload_change on public.loans;
+create trigger loans_record_upload_change
+  after insert or update on public.loans
+  for each row execute function public.record_loan_upload_change();
+
+create or replace view public.file_upload_summaries
+with (security_invoker = on) as
+select
+  fu.id,
+  fu.file_name,
+  fu.upload_date,
+  fu.record_count,
+  fu.uploaded_by,
+  fu.rolled_back_at,
+  count(c.id) filter (where c.previous is null)::integer as inserted_count,
+  count(c.id) filter (where c.previous is not null)::integer as updated_count
+from public.file_uploads fu
+left join public.loan_upload_changes c on c.file_upload_id = fu.id
+group by fu.id;
+
+-- Restores every loan the upload overwrote, deletes the loans it inserted and
+-- marks it as rolled back, all in one transaction. Refuses when a later upload
+-- has touched the same loans since, as that upload has to be rolled back first.
+create or replace function public.rollback_file_upload(p_file_upload_id uuid)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_restored integer;
+  v_deleted integer;
+begin
+  perform 1
+  from file_uploads
+  where id = p_file_upload_id and rolled_back_at is null
+  for update;
+
+  if not found then
+    raise exception 'Upload % does not exist or was already rolled back', p_file_upload_id;
+  end if;
+
+  if exists (
+    select 1
+    from loan_upload_changes c
+    join loan_upload_changes later
+      on later.loan_id = c.loan_id
+      and later.file_upload_id <> c.file_upload_id
+      and later.id > c.id
+    where c.file_upload_id = p_file_upload_id
+  ) then
+    raise exception 'Loans from this upload were changed by a later upload. Roll back the later upload first.';
+  end if;
+
+  perform set_config('app.skip_loan_upload_changes', 'on', true);
+
+  update loans l
+  set
+    loan_repaid_amount = p.loan_repaid_amount,
+    loan_term = p.loan_term,
+    time_loan_started = p.time_loan_started,
+    time_loan_ended = p.time_loan_ended,
+    default_loan_date = p.default_loan_date,
+    is_defaulted = p.is_defaulted,
+    version = p.version,
+    file_upload_id = p.file_upload_id
+  from loan_upload_changes c
+  cross join lateral jsonb_populate_record(null::loans, c.previous) p
+  where c.file_upload_id = p_file_upload_id
+    and c.previous is not null
+    and l.id = c.loan_id;
+  get diagnostics v_restored = row_count;
+
+  delete from loans l
+  using loan_upload_changes c
+  where c.file_upload_id = p_file_upload_id
+    and c.previous is null
+    and l.id = c.loan_id;
+  get diagnostics v_deleted = row_count;
+
+  delete from loan_upload_changes where file_upload_id = p_file_upload_id;
+
+  update file_uploads
+  set rolled_back_at = now()
+  where id = p_file_upload_id;
+
+  perform set_config('app.skip_loan_upload_changes', 'off', true);
+
+  return json_build_object('restored', v_restored, 'deleted', v_deleted);
+end;
+$$;
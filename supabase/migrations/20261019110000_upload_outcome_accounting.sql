@@ -0,0 +1,141 @@
+-- Outcome accounting per upload: inserted / updated / unchanged loans, status
+-- transitions and field-level changes.
+
+-- Mirrors the status logic of calculateLoanMetrics in src/utils/loanCalculations.ts
+create or replace function public.loan_status(l public.loans)
+returns text
+language sql
+immutable
+as $$
+  select case
+    when l.is_defaulted or l.default_loan_date is not null then 'defaulted'
+    when l.loan_repaid_amount is not null and l.loan_repaid_amount >= l.loan_amount then 'repaid'
+    else 'in_progress'
+  end;
+$$;
+
+alter table public.loan_upload_changes
+  -- {field: {old, new}} for updates, {} when nothing changed, null for inserts
+  add column if not exists changes jsonb,
+  add column if not exists previous_status text,
+  add column if not exists new_status text;
+
+alter table public.file_uploads
+  add column if not exists inserted_count integer,
+  add column if not exists updated_count integer,
+  add column if not exists unchanged_count integer;
+
+create or replace function public.record_loan_upload_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_changes jsonb;
+begin
+  -- Rollbacks restore rows themselves and must not be recorded as changes
+  if current_setting('app.skip_loan_upload_changes', true) = 'on' or new.file_upload_id is null then
+    return new;
+  end if;
+
+  if tg_op = 'INSERT' then
+    insert into loan_upload_changes (file_upload_id, loan_id, previous, new_status)
+    values (new.file_upload_id, new.id, null, loan_status(new))
+    on conflict (file_upload_id, loan_id) do nothing;
+  elsif old.file_upload_id is distinct from new.file_upload_id then
+    select coalesce(jsonb_object_agg(n.key, jsonb_build_object('old', o.value, 'new', n.value)), '{}'::jsonb)
+    into v_changes
+    from jsonb_each(to_jsonb(new)) n
+    join jsonb_each(to_jsonb(old)) o using (key)
+    where n.key in (
+      'loan_repaid_amount', 'loan_term', 'time_loan_started', 'time_loan_ended',
+      'default_loan_date', 'is_defaulted', 'version'
+    )
+      and n.value is distinct from o.value;
+
+    -- Only the first write of an upload is kept, so a loan repeated within
+    -- one file still rolls back to its state before that file
+    insert into loan_upload_changes (file_upload_id, loan_id, previous, changes, previous_status, new_status)
+    values (new.file_upload_id, new.id, to_jsonb(old), v_changes, loan_status(old), loan_status(new))
+    on conflict (file_upload_id, loan_id) do nothing;
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.get_upload_outcome(p_file_upload_id uuid)
+returns json
+language sql
+stable
+as $$
+  select json_build_object(
+    'inserted', count(*) filter (where c.previous is null),
+    'updated', count(*) filter (where c.previous is not null and c.changes is distinct from '{}'::jsonb),
+    'unchanged', count(*) filter (where c.changes = '{}'::jsonb),
+    'status_transitions', (
+      select coalesce(json_agg(t order by t.count desc), '[]'::json)
+      from (
+        select previous_status as "from", new_status as "to", count(*)::integer as count
+        from loan_upload_changes
+        where file_upload_id = p_file_upload_id
+          and previous is not null
+          and previous_status is distinct from new_status
+        group by previous_status, new_status
+      ) t
+    ),
+    'field_changes', (
+      select coalesce(json_agg(f order by f.count desc), '[]'::json)
+      from (
+        select field, count(*)::integer as count
+        from loan_upload_changes, jsonb_object_keys(changes) as field
+        where file_upload_id = p_file_upload_id
+        group by field
+      ) f
+    )
+  )
+  from loan_upload_changes c
+  where c.file_upload_id = p_file_upload_id;
+$$;
+
+-- Called by the upload pipeline once every batch is stored. The counts are
+-- copied onto file_uploads so they survive a later rollback.
+create or replace function public.finalize_file_upload(p_file_upload_id uuid, p_record_count integer)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_outcome json;
+begin
+  v_outcome := get_upload_outcome(p_file_upload_id);
+
+  update file_uploads
+  set
+    record_count = p_record_count,
+    inserted_count = (v_outcome ->> 'inserted')::integer,
+    updated_count = (v_outcome ->> 'updated')::integer,
+    unchanged_count = (v_outcome ->> 'unchanged')::integer
+  where id = p_file_upload_id;
+
+  return v_outcome;
+end;
+$$;
+
+create or replace view public.file_upload_summaries
+with (security_invoker = on) as
+select
+  fu.id,
+  fu.file_name,
+  fu.upload_date,
+  fu.record_count,
+  fu.uploaded_by,
+  fu.rolled_back_at,
+  coalesce(fu.inserted_count, count(c.id) filter (where c.previous is null))::integer as inserted_count,
+  coalesce(fu.updated_count, count(c.id) filter (where c.previous is not null and c.changes is distinct from '{}'::jsonb))::integer as updated_count,
+  coalesce(fu.unchanged_count, count(c.id) filter (where c.changes = '{}'::jsonb))::integer as unchanged_count
+from public.file_uploads fu
+left join public.loan_upload_changes c on c.file_upload_id = fu.id
+group by fu.id;
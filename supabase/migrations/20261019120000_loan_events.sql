@@ -0,0 +1,96 @@
+-- Append-only field history for every loan. Unlike loan_upload_changes, which
+-- only keeps what rollback needs, nothing here is ever updated or deleted.
+create table if not exists public.loan_events (
+  id bigint generated always as identity primary key,
+  -- No foreign keys, events outlive rolled back loans and deleted uploads
+  loan_id uuid not null,
+  file_upload_id uuid,
+  source text not null check (source in ('upload', 'rollback')),
+  event_type text not null check (event_type in ('created', 'updated', 'deleted')),
+  -- Set for updates only, created and deleted events hold the whole row
+  field text,
+  old_value jsonb,
+  new_value jsonb,
+  actor text default (auth.jwt() ->> 'email'),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists loan_events_loan_id_idx
+  on public.loan_events (loan_id, id);
+
+create index if not exists loan_events_file_upload_id_idx
+  on public.loan_events (file_upload_id);
+
+alter table public.loan_events enable row level security;
+
+create policy "Allow public read access to loan events"
+  on public.loan_events for select
+  using (true);
+
+create or replace function public.prevent_loan_event_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'loan_events is append-only';
+end;
+$$;
+
+drop trigger if exists loan_events_append_only on public.loan_events;
+create trigger loan_events_append_only
+  before update or delete on public.loan_events
+  for each row execute function public.prevent_loan_event_changes();
+
+create or replace function public.record_loan_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source text;
+begin
+  -- rollback_file_upload sets this while it restores rows. Every row it touches
+  -- still carries the rolled back upload in old.file_upload_id.
+  v_source := case
+    when current_setting('app.skip_loan_upload_changes', true) = 'on' then 'rollback'
+    else 'upload'
+  end;
+
+  if tg_op = 'INSERT' then
+    insert into loan_events (loan_id, file_upload_id, source, event_type, new_value)
+    values (new.id, new.file_upload_id, v_source, 'created', to_jsonb(new));
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into loan_events (loan_id, file_upload_id, source, event_type, old_value)
+    values (old.id, old.file_upload_id, v_source, 'deleted', to_jsonb(old));
+    return old;
+  end if;
+
+  insert into loan_events (loan_id, file_upload_id, source, event_type, field, old_value, new_value)
+  select
+    new.id,
+    case when v_source = 'rollback' then old.file_upload_id else new.file_upload_id end,
+    v_source,
+    'updated',
+    n.key,
+    o.value,
+    n.value
+  from jsonb_each(to_jsonb(new)) n
+  join jsonb_each(to_jsonb(old)) o using (key)
+  where n.key in (
+    'loan_repaid_amount', 'loan_term', 'time_loan_started', 'time_loan_ended',
+    'default_loan_date', 'is_defaulted', 'version'
+  )
+    and n.value is distinct from o.value;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists loans_record_events on public.loans;
+create trigger loans_record_events
+  after insert or update or delete on public.loans
+  for each row execute function public.record_loan_events();
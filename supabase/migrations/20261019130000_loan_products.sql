@@ -0,0 +1,41 @@
+-- Loan product tiers. Loans match a product by amount and version, a product
+-- without a version matches every version of that amount.
+create table if not exists public.loan_products (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  principal numeric not null check (principal > 0),
+  -- Fee or interest owed on top of the principal
+  fee numeric not null default 0 check (fee >= 0),
+  term_days integer check (term_days > 0),
+  version text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create unique index if not exists loan_products_principal_version_idx
+  on public.loan_products (principal, coalesce(version, ''));
+
+alter table public.loan_products enable row level security;
+
+create policy "Allow public read access to loan products"
+  on public.loan_products for select
+  using (true);
+
+create policy "Allow public insert access to loan products"
+  on public.loan_products for insert
+  with check (true);
+
+create policy "Allow public update access to loan products"
+  on public.loan_products for update
+  using (true);
+
+create policy "Allow public delete access to loan products"
+  on public.loan_products for delete
+  using (true);
+
+-- The two tiers the dashboard used to hard-code
+insert into public.loan_products (name, principal, fee)
+values
+  ('$1 Loans', 1, 0.025),
+  ('$10 Loans', 10, 0.15)
+on conflict do nothing;
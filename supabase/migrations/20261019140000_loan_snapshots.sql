@@ -0,0 +1,59 @@
+-- The loan book as it stood right after an upload, or at a point in time,
+-- rebuilt by rewinding loan_events from the current rows. Changes made before
+-- loan_events existed cannot be rewound, such snapshots show the earliest
+-- recorded state.
+create or replace function public.loan_snapshot(
+  p_file_upload_id uuid default null,
+  p_as_of timestamptz default null
+)
+returns setof public.loans
+language sql
+stable
+as $$
+  with cutoff as (
+    select coalesce(
+      case
+        when p_file_upload_id is not null then (
+          select max(id) from loan_events
+          where file_upload_id = p_file_upload_id and source = 'upload'
+        )
+        else (select max(id) from loan_events where created_at <= p_as_of)
+      end,
+      0
+    ) as id
+  ),
+  -- The first creation or deletion after the cutoff tells whether the loan
+  -- existed at the cutoff
+  later_lifecycle as (
+    select distinct on (e.loan_id) e.loan_id, e.event_type, e.old_value
+    from loan_events e, cutoff c
+    where e.id > c.id and e.event_type in ('created', 'deleted')
+    order by e.loan_id, e.id
+  ),
+  -- The old value of the first change after the cutoff is the value at the cutoff
+  rewound_fields as (
+    select f.loan_id, jsonb_object_agg(f.field, f.old_value) as fields
+    from (
+      select distinct on (e.loan_id, e.field) e.loan_id, e.field, e.old_value
+      from loan_events e, cutoff c
+      where e.id > c.id and e.event_type = 'updated'
+      order by e.loan_id, e.field, e.id
+    ) f
+    group by f.loan_id
+  ),
+  base as (
+    select l.id, to_jsonb(l) as row
+    from loans l
+    where not exists (
+      select 1 from later_lifecycle ll
+      where ll.loan_id = l.id and ll.event_type = 'created'
+    )
+    union all
+    select ll.loan_id, ll.old_value
+    from later_lifecycle ll
+    where ll.event_type = 'deleted'
+  )
+  select (jsonb_populate_record(null::loans, b.row || coalesce(r.fields, '{}'::jsonb))).*
+  from base b
+  left join rewound_fields r on r.loan_id = b.id;
+$$;
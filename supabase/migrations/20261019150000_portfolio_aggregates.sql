@@ -0,0 +1,292 @@
+-- Dashboard aggregates computed in the database, so the dashboard renders from
+-- one call instead of pulling every loan into the browser. Dates are bucketed
+-- in the caller's time zone, the calendar the client-side calculations use.
+
+-- Mirrors applyLoanFilters in src/utils/loanFilters.ts, p_filters takes the
+-- LoanFilters shape
+create or replace function public.filtered_loans(
+  p_filters jsonb default '{}'::jsonb,
+  p_time_zone text default 'UTC'
+)
+returns setof public.loans
+language sql
+stable
+as $$
+  select l.*
+  from loans l
+  where (p_filters->>'startedFrom' is null
+      or (l.time_loan_started::timestamptz at time zone p_time_zone)::date >= (p_filters->>'startedFrom')::date)
+    and (p_filters->>'startedTo' is null
+      or (l.time_loan_started::timestamptz at time zone p_time_zone)::date <= (p_filters->>'startedTo')::date)
+    and (p_filters->>'dueFrom' is null
+      or (l.loan_due_date::timestamptz at time zone p_time_zone)::date >= (p_filters->>'dueFrom')::date)
+    and (p_filters->>'dueTo' is null
+      or (l.loan_due_date::timestamptz at time zone p_time_zone)::date <= (p_filters->>'dueTo')::date)
+    and (coalesce(jsonb_array_length(p_filters->'versions'), 0) = 0
+      or l.version in (select jsonb_array_elements_text(p_filters->'versions')))
+    and (coalesce(jsonb_array_length(p_filters->'amounts'), 0) = 0
+      or l.loan_amount in (select jsonb_array_elements_text(p_filters->'amounts')::numeric))
+    and (coalesce(jsonb_array_length(p_filters->'statuses'), 0) = 0
+      or loan_status(l) in (select jsonb_array_elements_text(p_filters->'statuses')))
+    and (coalesce(jsonb_array_length(p_filters->'uploadIds'), 0) = 0
+      or l.file_upload_id::text in (select jsonb_array_elements_text(p_filters->'uploadIds')));
+$$;
+
+-- Everything the dashboard shows for the filtered loans. Buckets and labels
+-- stay on the client: due dates and arrears come back as per-day histograms,
+-- PAR trend and vintage counts line up with p_par_days and p_vintage_days.
+create or replace function public.portfolio_summary(
+  p_filters jsonb default '{}'::jsonb,
+  p_time_zone text default 'UTC',
+  -- PAR_THRESHOLDS in src/utils/delinquency.ts
+  p_par_days integer[] default '{1,8,31,61,91}',
+  -- VINTAGE_CHECKPOINTS in src/utils/vintageAnalysis.ts
+  p_vintage_days integer[] default '{7,14,30,45,60,90,120,180}'
+)
+returns json
+language sql
+stable
+as $$
+  with settings as (
+    select
+      now() as as_of,
+      (now() at time zone p_time_zone)::date as today,
+      (now() at time zone p_time_zone)::date::timestamp at time zone p_time_zone as today_start
+  ),
+  -- The dates that decide whether a loan is outstanding, as in
+  -- toExposure in src/utils/delinquency.ts
+  exposures as (
+    select
+      l.loan_amount as amount,
+      l.version,
+      s.status,
+      l.time_loan_started::timestamptz as originated_at,
+      case s.status
+        when 'repaid' then l.time_loan_ended::timestamptz
+        when 'defaulted' then coalesce(l.default_loan_date::timestamptz, l.loan_due_date::timestamptz)
+      end as closed_at,
+      l.loan_due_date::timestamptz as due_at
+    from filtered_loans(p_filters, p_time_zone) l
+    cross join lateral (select loan_status(l) as status) s
+  ),
+  status_counts as (
+    select e.amount as loan_amount, e.version, e.status, count(*) as count
+    from exposures e
+    group by e.amount, e.version, e.status
+  ),
+  -- In-progress loans by whole days until due, counted from the start of today
+  due_days as (
+    select ceil(extract(epoch from e.due_at - s.today_start) / 86400)::integer as days, count(*) as count
+    from exposures e, settings s
+    where e.status = 'in_progress' and e.due_at > s.today_start
+    group by 1
+  ),
+  -- Outstanding loans by days past due right now, 0 for loans not yet due
+  arrears as (
+    select
+      greatest(0, coalesce(s.today - (e.due_at at time zone p_time_zone)::date, 0)) as days,
+      count(*) as count,
+      sum(e.amount) as principal
+    from exposures e, settings s
+    where (e.originated_at is null or e.originated_at <= s.as_of)
+      and (e.status = 'in_progress' or e.closed_at > s.as_of)
+    group by 1
+  ),
+  events as (
+    select e.originated_at as at, e.amount, 'origination' as kind from exposures e where e.originated_at is not null
+    union all
+    select e.closed_at, e.amount, 'repayment' from exposures e where e.status = 'repaid' and e.closed_at is not null
+    union all
+    select e.closed_at, e.amount, 'default' from exposures e where e.status = 'defaulted' and e.closed_at is not null
+  ),
+  activity as (
+    select
+      g.granularity,
+      date_trunc(g.granularity, ev.at at time zone p_time_zone)::date as period,
+      count(*) filter (where ev.kind = 'origination') as originations,
+      coalesce(sum(ev.amount) filter (where ev.kind = 'origination'), 0) as origination_volume,
+      count(*) filter (where ev.kind = 'repayment') as repayments,
+      coalesce(sum(ev.amount) filter (where ev.kind = 'repayment'), 0) as repayment_volume,
+      count(*) filter (where ev.kind = 'default') as defaults,
+      coalesce(sum(ev.amount) filter (where ev.kind = 'default'), 0) as default_volume
+    from events ev
+    cross join (values ('day'), ('week'), ('month')) g(granularity)
+    group by 1, 2
+  ),
+  -- Every week or month since the first origination, measured at its last
+  -- moment or now for the current one
+  par_periods as (
+    select
+      g.granularity,
+      p::date as period,
+      least(((p + ('1 ' || g.granularity)::interval) at time zone p_time_zone) - interval '1 millisecond', s.as_of) as as_of
+    from settings s
+    cross join (values ('week'), ('month')) g(granularity)
+    cross join lateral generate_series(
+      date_trunc(g.granularity, (select min(e.originated_at) from exposures e) at time zone p_time_zone),
+      date_trunc(g.granularity, s.as_of at time zone p_time_zone),
+      ('1 ' || g.granularity)::interval
+    ) p
+  ),
+  par_exposures as (
+    select
+      pp.granularity,
+      pp.period,
+      e.amount,
+      greatest(0, coalesce((pp.as_of at time zone p_time_zone)::date - (e.due_at at time zone p_time_zone)::date, 0)) as days
+    from par_periods pp
+    join exposures e
+      on (e.originated_at is null or e.originated_at <= pp.as_of)
+      and (e.status = 'in_progress' or e.closed_at > pp.as_of)
+  ),
+  par_arrears as (
+    select x.granularity, x.period, x.days, sum(x.amount) as principal
+    from par_exposures x
+    group by 1, 2, 3
+  ),
+  par_at_risk as (
+    select
+      pp.granularity,
+      pp.period,
+      t.position,
+      coalesce(sum(a.principal), 0) as outstanding_principal,
+      coalesce(sum(a.principal) filter (where a.days >= t.min_days), 0) as principal
+    from par_periods pp
+    cross join unnest(p_par_days) with ordinality t(min_days, position)
+    left join par_arrears a on a.granularity = pp.granularity and a.period = pp.period
+    group by 1, 2, 3
+  ),
+  par_trend as (
+    select
+      r.granularity,
+      r.period,
+      max(r.outstanding_principal) as outstanding_principal,
+      array_agg(r.principal order by r.position) as at_risk
+    from par_at_risk r
+    group by 1, 2
+  ),
+  -- Days from origination to repayment or default, as in src/utils/vintageAnalysis.ts
+  cohort_loans as (
+    select
+      g.granularity,
+      date_trunc(g.granularity, e.originated_at at time zone p_time_zone)::date as period,
+      e.originated_at,
+      e.amount,
+      case when e.status = 'repaid' then
+        greatest(0, (e.closed_at at time zone p_time_zone)::date - (e.originated_at at time zone p_time_zone)::date)
+      end as repaid_after,
+      case when e.status = 'defaulted' then
+        greatest(0, (e.closed_at at time zone p_time_zone)::date - (e.originated_at at time zone p_time_zone)::date)
+      end as defaulted_after
+    from exposures e
+    cross join (values ('week'), ('month')) g(granularity)
+    where e.originated_at is not null
+  ),
+  cohort_points as (
+    select
+      c.granularity,
+      c.period,
+      d.position,
+      count(*) filter (where c.repaid_after <= d.day) as repaid,
+      count(*) filter (where c.defaulted_after <= d.day) as defaulted
+    from cohort_loans c
+    cross join unnest(p_vintage_days) with ordinality d(day, position)
+    group by 1, 2, 3
+  ),
+  cohorts as (
+    select
+      c.granularity,
+      c.period,
+      count(*) as loan_count,
+      sum(c.amount) as principal,
+      -- Days since the cohort's last origination
+      s.today - (max(c.originated_at) at time zone p_time_zone)::date as age
+    from cohort_loans c, settings s
+    group by c.granularity, c.period, s.today
+  ),
+  vintage as (
+    select
+      c.granularity,
+      c.period,
+      c.loan_count,
+      c.principal,
+      c.age,
+      array_agg(cp.repaid order by cp.position) as repaid,
+      array_agg(cp.defaulted order by cp.position) as defaulted
+    from cohorts c
+    join cohort_points cp on cp.granularity = c.granularity and cp.period = c.period
+    group by c.granularity, c.period, c.loan_count, c.principal, c.age
+  )
+  select json_build_object(
+    'as_of', (select as_of from settings),
+    -- Unfiltered, for the filter bar
+    'total_count', (select count(*) from loans),
+    'versions', (select coalesce(json_agg(distinct l.version), '[]'::json) from loans l where l.version is not null),
+    'amounts', (select coalesce(json_agg(distinct l.loan_amount), '[]'::json) from loans l),
+    'upload_ids', (select coalesce(json_agg(distinct l.file_upload_id), '[]'::json) from loans l where l.file_upload_id is not null),
+    'status_counts', (select coalesce(json_agg(sc), '[]'::json) from status_counts sc),
+    'due_days', (select coalesce(json_agg(dd order by dd.days), '[]'::json) from due_days dd),
+    'arrears', (select coalesce(json_agg(a order by a.days), '[]'::json) from arrears a),
+    'activity', (select coalesce(json_agg(ac order by ac.period), '[]'::json) from activity ac),
+    'par_trend', (select coalesce(json_agg(pt order by pt.period), '[]'::json) from par_trend pt),
+    'vintage', (select coalesce(json_agg(v order by v.period desc), '[]'::json) from vintage v)
+  );
+$$;
+
+-- Drill-down for the upcoming repayments tabs: in-progress loans due in
+-- p_min_days to p_max_days days, counted as in portfolio_summary
+create or replace function public.upcoming_loans(
+  p_filters jsonb default '{}'::jsonb,
+  p_time_zone text default 'UTC',
+  p_min_days integer default 1,
+  p_max_days integer default null
+)
+returns setof public.loans
+language sql
+stable
+as $$
+  select l.*
+  from filtered_loans(p_filters, p_time_zone) l
+  cross join lateral (
+    select (now() at time zone p_time_zone)::date::timestamp at time zone p_time_zone as today_start
+  ) s
+  cross join lateral (
+    select ceil(extract(epoch from l.loan_due_date::timestamptz - s.today_start) / 86400)::integer as days
+  ) d
+  where loan_status(l) = 'in_progress'
+    and l.loan_due_date::timestamptz > s.today_start
+    and d.days >= p_min_days
+    and (p_max_days is null or d.days <= p_max_days);
+$$;
+
+-- Drill-down for the delinquency aging tabs: outstanding loans p_min_days to
+-- p_max_days past due right now, counted as in portfolio_summary
+create or replace function public.past_due_loans(
+  p_filters jsonb default '{}'::jsonb,
+  p_time_zone text default 'UTC',
+  p_min_days integer default 1,
+  p_max_days integer default null
+)
+returns setof public.loans
+language sql
+stable
+as $$
+  select l.*
+  from filtered_loans(p_filters, p_time_zone) l
+  cross join lateral (
+    select
+      loan_status(l) as status,
+      case loan_status(l)
+        when 'repaid' then l.time_loan_ended::timestamptz
+        when 'defaulted' then coalesce(l.default_loan_date::timestamptz, l.loan_due_date::timestamptz)
+      end as closed_at,
+      greatest(0, coalesce(
+        (now() at time zone p_time_zone)::date - (l.loan_due_date::timestamptz at time zone p_time_zone)::date,
+        0
+      )) as days
+  ) e
+  where (l.time_loan_started is null or l.time_loan_started::timestamptz <= now())
+    and (e.status = 'in_progress' or e.closed_at > now())
+    and e.days >= p_min_days
+    and (p_max_days is null or e.days <= p_max_days);
+$$;
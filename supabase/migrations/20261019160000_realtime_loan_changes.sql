@@ -0,0 +1,19 @@
+-- Streams changes to loans and uploads to open dashboards. Deleted rows only
+-- carry their primary key, which is all the app needs to drop them.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'loans'
+  ) then
+    alter publication supabase_realtime add table public.loans;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'file_uploads'
+  ) then
+    alter publication supabase_realtime add table public.file_uploads;
+  end if;
+end
+$$;
@@ -0,0 +1,35 @@
+-- Lets the browser keep a copy of the loan book and catch up on changes
+-- instead of downloading every loan again. loan_events ids are the watermark:
+-- inserts, deletes and changes to the tracked fields of a loan append one.
+
+create or replace function public.latest_loan_event_id()
+returns bigint
+language sql
+stable
+as $$
+  select coalesce(max(id), 0) from loan_events;
+$$;
+
+-- Current rows of the loans with events after the watermark
+create or replace function public.changed_loans(p_after_event_id bigint)
+returns setof public.loans
+language sql
+stable
+as $$
+  select l.*
+  from loans l
+  where l.id in (select e.loan_id from loan_events e where e.id > p_after_event_id);
+$$;
+
+-- Loans with events after the watermark that no longer exist
+create or replace function public.deleted_loan_ids(p_after_event_id bigint)
+returns table (id uuid)
+language sql
+stable
+as $$
+  select distinct e.loan_id
+  from loan_events e
+  where e.id > p_after_event_id
+    and e.event_type = 'deleted'
+    and not exists (select 1 from loans l where l.id = e.loan_id);
+$$;
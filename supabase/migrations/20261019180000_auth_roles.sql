@@ -0,0 +1,248 @@
+-- Supabase Auth sign-in with three roles, each including the one before it:
+-- viewer reads everything, analyst also exports (checked by the app only),
+-- operator also writes loans, uploads, loan products and mapping profiles,
+-- which is what uploading and rolling back need. Anonymous access is removed.
+
+do $$
+begin
+  create type public.app_role as enum ('viewer', 'analyst', 'operator');
+exception
+  when duplicate_object then null;
+end;
+$$;
+
+-- Granted from the Supabase dashboard or SQL, users cannot change their own
+create table if not exists public.user_roles (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  role public.app_role not null default 'viewer',
+  created_at timestamptz not null default now()
+);
+
+alter table public.user_roles enable row level security;
+
+create policy "Users can read their own role"
+  on public.user_roles for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create or replace function public.current_app_role()
+returns public.app_role
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from user_roles where user_id = auth.uid();
+$$;
+
+-- Enum values compare in declaration order, so a role includes the ones
+-- declared before it
+create or replace function public.has_app_role(p_role public.app_role)
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(public.current_app_role() >= p_role, false);
+$$;
+
+-- Everyone starts as a viewer
+create or replace function public.assign_default_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into user_roles (user_id) values (new.id) on conflict do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists auth_users_assign_default_role on auth.users;
+create trigger auth_users_assign_default_role
+  after insert on auth.users
+  for each row execute function public.assign_default_role();
+
+insert into public.user_roles (user_id)
+select id from auth.users
+on conflict do nothing;
+
+-- The uploader is taken from the session, whatever the client sends
+alter table public.file_uploads
+  add column if not exists uploaded_by_id uuid references auth.users(id) on delete set null;
+
+create or replace function public.set_file_upload_uploader()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.uploaded_by_id := auth.uid();
+  new.uploaded_by := auth.jwt() ->> 'email';
+  return new;
+end;
+$$;
+
+drop trigger if exists file_uploads_set_uploader on public.file_uploads;
+create trigger file_uploads_set_uploader
+  before insert on public.file_uploads
+  for each row execute function public.set_file_upload_uploader();
+
+-- Replace every existing policy, most of them allowed public access
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in
+    select policyname, tablename
+    from pg_policies
+    where schemaname = 'public'
+      and tablename in (
+        'loans', 'file_uploads', 'loan_upload_changes', 'loan_events',
+        'loan_products', 'column_mapping_profiles'
+      )
+  loop
+    execute format('drop policy %I on public.%I', v_policy.policyname, v_policy.tablename);
+  end loop;
+end;
+$$;
+
+alter table public.loans enable row level security;
+alter table public.file_uploads enable row level security;
+
+create policy "Viewers can read loans"
+  on public.loans for select
+  to authenticated
+  using (public.has_app_role('viewer'));
+
+create policy "Operators can insert loans"
+  on public.loans for insert
+  to authenticated
+  with check (public.has_app_role('operator'));
+
+create policy "Operators can update loans"
+  on public.loans for update
+  to authenticated
+  using (public.has_app_role('operator'))
+  with check (public.has_app_role('operator'));
+
+create policy "Operators can delete loans"
+  on public.loans for delete
+  to authenticated
+  using (public.has_app_role('operator'));
+
+create policy "Viewers can read file uploads"
+  on public.file_uploads for select
+  to authenticated
+  using (public.has_app_role('viewer'));
+
+create policy "Operators can insert file uploads"
+  on public.file_uploads for insert
+  to authenticated
+  with check (public.has_app_role('operator') and uploaded_by_id = auth.uid());
+
+create policy "Operators can update file uploads"
+  on public.file_uploads for update
+  to authenticated
+  using (public.has_app_role('operator'))
+  with check (public.has_app_role('operator'));
+
+create policy "Operators can delete file uploads"
+  on public.file_uploads for delete
+  to authenticated
+  using (public.has_app_role('operator'));
+
+create policy "Viewers can read loan upload changes"
+  on public.loan_upload_changes for select
+  to authenticated
+  using (public.has_app_role('viewer'));
+
+create policy "Viewers can read loan events"
+  on public.loan_events for select
+  to authenticated
+  using (public.has_app_role('viewer'));
+
+create policy "Viewers can read loan products"
+  on public.loan_products for select
+  to authenticated
+  using (public.has_app_role('viewer'));
+
+create policy "Operators can insert loan products"
+  on public.loan_products for insert
+  to authenticated
+  with check (public.has_app_role('operator'));
+
+create policy "Operators can update loan products"
+  on public.loan_products for update
+  to authenticated
+  using (public.has_app_role('operator'))
+  with check (public.has_app_role('operator'));
+
+create policy "Operators can delete loan products"
+  on public.loan_products for delete
+  to authenticated
+  using (public.has_app_role('operator'));
+
+-- Mapping profiles are saved while uploading
+create policy "Viewers can read column mapping profiles"
+  on public.column_mapping_profiles for select
+  to authenticated
+  using (public.has_app_role('viewer'));
+
+create policy "Operators can insert column mapping profiles"
+  on public.column_mapping_profiles for insert
+  to authenticated
+  with check (public.has_app_role('operator'));
+
+create policy "Operators can update column mapping profiles"
+  on public.column_mapping_profiles for update
+  to authenticated
+  using (public.has_app_role('operator'))
+  with check (public.has_app_role('operator'));
+
+-- rollback_file_upload and finalize_file_upload run as their owner and skip
+-- the policies above. The originals are kept under a new name that only the
+-- owner can execute, behind wrappers that check the role first.
+do $$
+begin
+  if to_regprocedure('public.rollback_file_upload_unchecked(uuid)') is null then
+    alter function public.rollback_file_upload(uuid) rename to rollback_file_upload_unchecked;
+  end if;
+
+  if to_regprocedure('public.finalize_file_upload_unchecked(uuid, integer)') is null then
+    alter function public.finalize_file_upload(uuid, integer) rename to finalize_file_upload_unchecked;
+  end if;
+end;
+$$;
+
+revoke execute on function public.rollback_file_upload_unchecked(uuid) from public, anon, authenticated;
+revoke execute on function public.finalize_file_upload_unchecked(uuid, integer) from public, anon, authenticated;
+
+create or replace function public.rollback_file_upload(p_file_upload_id uuid)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not has_app_role('operator') then
+    raise exception 'Only operators can roll back uploads' using errcode = '42501';
+  end if;
+
+  return rollback_file_upload_unchecked(p_file_upload_id);
+end;
+$$;
+
+create or replace function public.finalize_file_upload(p_file_upload_id uuid, p_record_count integer)
+returns json
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not has_app_role('operator') then
+    raise exception 'Only operators can finalize uploads' using errcode = '42501';
+  end if;
+
+  return finalize_file_upload_unchecked(p_file_upload_id, p_record_count);
+end;
+$$;
@@ -0,0 +1,13 @@
+-- Stops streaming loan rows. An upload broadcast one message per row to every
+-- open dashboard; clients now follow file_uploads and catch up on loans
+-- through the loan change feed.
+do $$
+begin
+  if exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'loans'
+  ) then
+    alter publication supabase_realtime drop table public.loans;
+  end if;
+end
+$$;
@@ -0,0 +1,90 @@
+-- Replaces the loan_events watermark of the loan change feed. loan_events only
+-- records changes to the tracked fields, so an update of any other column never
+-- reached the browser's copy of the loan book. Its ids are also taken before
+-- commit: a transaction holding a lower id could commit after a sync had moved
+-- past it, and its changes were never fetched.
+--
+-- Every insert, update and delete of a loan now stamps the loan in
+-- loan_changes with the writing transaction's id. The sync cursor is the oldest
+-- transaction still running when it is read: everything before it has
+-- committed, everything from it on is fetched again on the next sync. Caches
+-- synced from the old watermark have no cursor and are downloaded again.
+
+create table if not exists public.loan_changes (
+  -- No foreign key, deleted loans keep their row
+  loan_id uuid primary key,
+  xact_id bigint not null default (pg_current_xact_id()::text)::bigint,
+  is_deleted boolean not null default false
+);
+
+create index if not exists loan_changes_xact_id_idx
+  on public.loan_changes (xact_id);
+
+alter table public.loan_changes enable row level security;
+
+create policy "Viewers can read loan changes"
+  on public.loan_changes for select
+  to authenticated
+  using (public.has_app_role('viewer'));
+
+create or replace function public.record_loan_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into loan_changes (loan_id, is_deleted)
+  values (
+    case when tg_op = 'DELETE' then old.id else new.id end,
+    tg_op = 'DELETE'
+  )
+  on conflict (loan_id) do update
+    set xact_id = excluded.xact_id,
+        is_deleted = excluded.is_deleted;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists loans_record_change on public.loans;
+create trigger loans_record_change
+  after insert or update or delete on public.loans
+  for each row execute function public.record_loan_change();
+
+drop function if exists public.latest_loan_event_id();
+drop function if exists public.changed_loans(bigint);
+drop function if exists public.deleted_loan_ids(bigint);
+
+create or replace function public.loan_change_cursor()
+returns bigint
+language sql
+volatile
+as $$
+  select (pg_snapshot_xmin(pg_current_snapshot())::text)::bigint;
+$$;
+
+-- Current rows of the loans written from the cursor on
+create or replace function public.changed_loans(p_cursor bigint)
+returns setof public.loans
+language sql
+stable
+as $$
+  select l.*
+  from loans l
+  join loan_changes c on c.loan_id = l.id
+  where c.xact_id >= p_cursor
+    and not c.is_deleted;
+$$;
+
+-- Loans deleted from the cursor on
+create or replace function public.deleted_loan_ids(p_cursor bigint)
+returns table (id uuid)
+language sql
+stable
+as $$
+  select c.loan_id
+  from loan_changes c
+  where c.xact_id >= p_cursor
+    and c.is_deleted;
+$$;
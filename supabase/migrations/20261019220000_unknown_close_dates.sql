@@ -0,0 +1,259 @@
+-- Closed loans without a repaid or default date used to drop out of every
+-- outstanding total, past ones included. They now count as outstanding until
+-- the last date known about them, their origination or due date, and never
+-- later than now. Closed loans without any date are still left out.
+-- Activity and vintages keep counting only closings with a known date.
+-- Everything else is unchanged from 20261019190000_incremental_par_trend.sql.
+
+create or replace function public.portfolio_summary(
+  p_filters jsonb default '{}'::jsonb,
+  p_time_zone text default 'UTC',
+  -- PAR_THRESHOLDS in src/utils/delinquency.ts
+  p_par_days integer[] default '{1,8,31,61,91}',
+  -- VINTAGE_CHECKPOINTS in src/utils/vintageAnalysis.ts
+  p_vintage_days integer[] default '{7,14,30,45,60,90,120,180}'
+)
+returns json
+language sql
+stable
+as $$
+  with settings as (
+    select
+      now() as as_of,
+      (now() at time zone p_time_zone)::date as today,
+      (now() at time zone p_time_zone)::date::timestamp at time zone p_time_zone as today_start
+  ),
+  -- The dates that decide whether a loan is outstanding, as in
+  -- toExposure in src/utils/delinquency.ts
+  exposures as (
+    select
+      l.loan_amount as amount,
+      l.version,
+      s.status,
+      l.time_loan_started::timestamptz as originated_at,
+      c.closed_at,
+      -- When it stopped being outstanding, as getClosedByDate in
+      -- src/utils/loanCalculations.ts
+      case when s.status <> 'in_progress' then
+        coalesce(
+          c.closed_at,
+          case when k.last_known_at is not null then least(k.last_known_at, now()) end
+        )
+      end as closed_by,
+      l.loan_due_date::timestamptz as due_at
+    from filtered_loans(p_filters, p_time_zone) l
+    cross join lateral (select loan_status(l) as status) s
+    cross join lateral (
+      select case s.status
+        when 'repaid' then l.time_loan_ended::timestamptz
+        when 'defaulted' then coalesce(l.default_loan_date::timestamptz, l.loan_due_date::timestamptz)
+      end as closed_at
+    ) c
+    cross join lateral (
+      select greatest(l.time_loan_started::timestamptz, l.loan_due_date::timestamptz) as last_known_at
+    ) k
+  ),
+  status_counts as (
+    select e.amount as loan_amount, e.version, e.status, count(*) as count
+    from exposures e
+    group by e.amount, e.version, e.status
+  ),
+  -- In-progress loans by whole days until due, counted from the start of today
+  due_days as (
+    select ceil(extract(epoch from e.due_at - s.today_start) / 86400)::integer as days, count(*) as count
+    from exposures e, settings s
+    where e.status = 'in_progress' and e.due_at > s.today_start
+    group by 1
+  ),
+  -- Outstanding loans by days past due right now, 0 for loans not yet due
+  arrears as (
+    select
+      greatest(0, coalesce(s.today - (e.due_at at time zone p_time_zone)::date, 0)) as days,
+      count(*) as count,
+      sum(e.amount) as principal
+    from exposures e, settings s
+    where (e.originated_at is null or e.originated_at <= s.as_of)
+      and (e.status = 'in_progress' or e.closed_by > s.as_of)
+    group by 1
+  ),
+  events as (
+    select e.originated_at as at, e.amount, 'origination' as kind from exposures e where e.originated_at is not null
+    union all
+    select e.closed_at, e.amount, 'repayment' from exposures e where e.status = 'repaid' and e.closed_at is not null
+    union all
+    select e.closed_at, e.amount, 'default' from exposures e where e.status = 'defaulted' and e.closed_at is not null
+  ),
+  activity as (
+    select
+      g.granularity,
+      date_trunc(g.granularity, ev.at at time zone p_time_zone)::date as period,
+      count(*) filter (where ev.kind = 'origination') as originations,
+      coalesce(sum(ev.amount) filter (where ev.kind = 'origination'), 0) as origination_volume,
+      count(*) filter (where ev.kind = 'repayment') as repayments,
+      coalesce(sum(ev.amount) filter (where ev.kind = 'repayment'), 0) as repayment_volume,
+      count(*) filter (where ev.kind = 'default') as defaults,
+      coalesce(sum(ev.amount) filter (where ev.kind = 'default'), 0) as default_volume
+    from events ev
+    cross join (values ('day'), ('week'), ('month')) g(granularity)
+    group by 1, 2
+  ),
+  -- Every week or month since the first origination, measured at its last
+  -- moment or now for the current one
+  par_periods as (
+    select
+      g.granularity,
+      p::date as period,
+      least(((p + ('1 ' || g.granularity)::interval) at time zone p_time_zone) - interval '1 millisecond', s.as_of) as as_of
+    from settings s
+    cross join (values ('week'), ('month')) g(granularity)
+    cross join lateral generate_series(
+      date_trunc(g.granularity, (select min(e.originated_at) from exposures e) at time zone p_time_zone),
+      date_trunc(g.granularity, s.as_of at time zone p_time_zone),
+      ('1 ' || g.granularity)::interval
+    ) p
+  ),
+  -- A loan adds its principal to the outstanding total (position 0) from
+  -- origination until it closes, and to each PAR threshold from the day it
+  -- reaches that many days past due until it closes
+  par_series as (
+    select 0::bigint as position, e.originated_at as starts_at, e.closed_by as closed_at, e.status, e.amount
+    from exposures e
+    union all
+    select
+      t.position,
+      case
+        when t.min_days <= 0 then e.originated_at
+        else greatest(
+          e.originated_at,
+          ((e.due_at at time zone p_time_zone)::date + t.min_days)::timestamp at time zone p_time_zone
+        )
+      end,
+      e.closed_by,
+      e.status,
+      e.amount
+    from exposures e
+    cross join unnest(p_par_days) with ordinality t(min_days, position)
+    where t.min_days <= 0 or e.due_at is not null
+  ),
+  -- Where the running totals step up or down. A null step is before every
+  -- period.
+  par_steps as (
+    select x.position, x.starts_at as at, x.amount
+    from par_series x
+    where x.status = 'in_progress'
+      or (x.closed_at is not null and (x.starts_at is null or x.starts_at < x.closed_at))
+    union all
+    select x.position, x.closed_at, -x.amount
+    from par_series x
+    where x.status <> 'in_progress'
+      and x.closed_at is not null
+      and (x.starts_at is null or x.starts_at < x.closed_at)
+  ),
+  -- Each step lands in the first period measured at or after it, so loans are
+  -- read once rather than once per period
+  par_deltas as (
+    select g.granularity, b.period, st.position, sum(st.amount) as amount
+    from par_steps st
+    cross join settings s
+    cross join (values ('week'), ('month')) g(granularity)
+    cross join lateral (
+      select date_trunc(g.granularity, st.at at time zone p_time_zone) as start
+    ) p
+    cross join lateral (
+      select case
+        when st.at is null then '-infinity'::date
+        when st.at > least(((p.start + ('1 ' || g.granularity)::interval) at time zone p_time_zone) - interval '1 millisecond', s.as_of)
+          then (p.start + ('1 ' || g.granularity)::interval)::date
+        else p.start::date
+      end as period
+    ) b
+    group by 1, 2, 3
+  ),
+  par_points as (
+    select pp.granularity, pp.period, t.position, coalesce(sum(d.amount), 0) as principal
+    from par_periods pp
+    cross join (
+      select 0::bigint as position
+      union all
+      select u.position from unnest(p_par_days) with ordinality u(min_days, position)
+    ) t
+    left join par_deltas d
+      on d.granularity = pp.granularity and d.position = t.position and d.period <= pp.period
+    group by 1, 2, 3
+  ),
+  par_trend as (
+    select
+      r.granularity,
+      r.period,
+      max(r.principal) filter (where r.position = 0) as outstanding_principal,
+      array_agg(r.principal order by r.position) filter (where r.position > 0) as at_risk
+    from par_points r
+    group by 1, 2
+  ),
+  -- Days from origination to repayment or default, as in src/utils/vintageAnalysis.ts
+  cohort_loans as (
+    select
+      g.granularity,
+      date_trunc(g.granularity, e.originated_at at time zone p_time_zone)::date as period,
+      e.originated_at,
+      e.amount,
+      case when e.status = 'repaid' then
+        greatest(0, (e.closed_at at time zone p_time_zone)::date - (e.originated_at at time zone p_time_zone)::date)
+      end as repaid_after,
+      case when e.status = 'defaulted' then
+        greatest(0, (e.closed_at at time zone p_time_zone)::date - (e.originated_at at time zone p_time_zone)::date)
+      end as defaulted_after
+    from exposures e
+    cross join (values ('week'), ('month')) g(granularity)
+    where e.originated_at is not null
+  ),
+  cohort_points as (
+    select
+      c.granularity,
+      c.period,
+      d.position,
+      count(*) filter (where c.repaid_after <= d.day) as repaid,
+      count(*) filter (where c.defaulted_after <= d.day) as defaulted
+    from cohort_loans c
+    cross join unnest(p_vintage_days) with ordinality d(day, position)
+    group by 1, 2, 3
+  ),
+  cohorts as (
+    select
+      c.granularity,
+      c.period,
+      count(*) as loan_count,
+      sum(c.amount) as principal,
+      -- Days since the cohort's last origination
+      s.today - (max(c.originated_at) at time zone p_time_zone)::date as age
+    from cohort_loans c, settings s
+    group by c.granularity, c.period, s.today
+  ),
+  vintage as (
+    select
+      c.granularity,
+      c.period,
+      c.loan_count,
+      c.principal,
+      c.age,
+      array_agg(cp.repaid order by cp.position) as repaid,
+      array_agg(cp.defaulted order by cp.position) as defaulted
+    from cohorts c
+    join cohort_points cp on cp.granularity = c.granularity and cp.period = c.period
+    group by c.granularity, c.period, c.loan_count, c.principal, c.age
+  )
+  select json_build_object(
+    'as_of', (select as_of from settings),
+    -- Unfiltered, for the filter bar
+    'total_count', (select count(*) from loans),
+    'versions', (select coalesce(json_agg(distinct l.version), '[]'::json) from loans l where l.version is not null),
+    'amounts', (select coalesce(json_agg(distinct l.loan_amount), '[]'::json) from loans l),
+    'upload_ids', (select coalesce(json_agg(distinct l.file_upload_id), '[]'::json) from loans l where l.file_upload_id is not null),
+    'status_counts', (select coalesce(json_agg(sc), '[]'::json) from status_counts sc),
+    'due_days', (select coalesce(json_agg(dd order by dd.days), '[]'::json) from due_days dd),
+    'arrears', (select coalesce(json_agg(a order by a.days), '[]'::json) from arrears a),
+    'activity', (select coalesce(json_agg(ac order by ac.period), '[]'::json) from activity ac),
+    'par_trend', (select coalesce(json_agg(pt order by pt.period), '[]'::json) from par_trend pt),
+    'vintage', (select coalesce(json_agg(v order by v.period desc), '[]'::json) from vintage v)
+  );
+$$;
@@ -0,0 +1,128 @@
+-- Loan snapshots paged by loan id instead of by offset. Every offset page ran
+-- loan_snapshot again, which rewound every event after the cutoff, so a
+-- snapshot cost pages times events. The cutoff is now found once, and each
+-- page only rewinds the events of its own loans.
+
+create index if not exists loan_events_created_at_idx
+  on public.loan_events (created_at);
+
+-- The last event included in the snapshot: the upload's last, or the last
+-- recorded by p_as_of
+create or replace function public.loan_snapshot_cutoff(
+  p_file_upload_id uuid default null,
+  p_as_of timestamptz default null
+)
+returns bigint
+language sql
+stable
+as $$
+  select coalesce(
+    case
+      when p_file_upload_id is not null then (
+        select max(id) from loan_events
+        where file_upload_id = p_file_upload_id and source = 'upload'
+      )
+      else (select max(id) from loan_events where created_at <= p_as_of)
+    end,
+    0
+  );
+$$;
+
+-- Up to p_limit loans of the snapshot at the cutoff, after p_after_id in id
+-- order. A page shorter than p_limit is the last one.
+create or replace function public.loan_snapshot_page(
+  p_cutoff bigint,
+  p_after_id uuid default null,
+  p_limit integer default null
+)
+returns setof public.loans
+language sql
+stable
+as $$
+  -- The first creation or deletion after the cutoff tells whether a loan
+  -- existed at the cutoff, and a deletion holds the row it had. Loans created
+  -- after the cutoff are skipped before the limit, so only the last page is short.
+  with candidates as (
+    (
+      select l.id, f.event_type, f.old_value
+      from loans l
+      left join lateral (
+        select e.event_type, e.old_value
+        from loan_events e
+        where e.loan_id = l.id and e.id > p_cutoff and e.event_type in ('created', 'deleted')
+        order by e.id
+        limit 1
+      ) f on true
+      where (p_after_id is null or l.id > p_after_id)
+        and f.event_type is distinct from 'created'
+      order by l.id
+      limit p_limit
+    )
+    union all
+    (
+      select d.loan_id, f.event_type, f.old_value
+      from (
+        select distinct e.loan_id
+        from loan_events e
+        where (p_after_id is null or e.loan_id > p_after_id)
+          and e.id > p_cutoff
+          and e.event_type = 'deleted'
+      ) d
+      cross join lateral (
+        select e.event_type, e.old_value
+        from loan_events e
+        where e.loan_id = d.loan_id and e.id > p_cutoff and e.event_type in ('created', 'deleted')
+        order by e.id
+        limit 1
+      ) f
+      where f.event_type = 'deleted'
+        and not exists (select 1 from loans l where l.id = d.loan_id)
+      order by d.loan_id
+      limit p_limit
+    )
+  ),
+  page as (
+    select c.id, c.event_type, c.old_value
+    from candidates c
+    order by c.id
+    limit p_limit
+  ),
+  -- The old value of the first change after the cutoff is the value at the cutoff
+  rewound_fields as (
+    select f.loan_id, jsonb_object_agg(f.field, f.old_value) as fields
+    from (
+      select distinct on (e.loan_id, e.field) e.loan_id, e.field, e.old_value
+      from loan_events e
+      join page p on p.id = e.loan_id
+      where e.id > p_cutoff and e.event_type = 'updated'
+      order by e.loan_id, e.field, e.id
+    ) f
+    group by f.loan_id
+  ),
+  base as (
+    select l.id, to_jsonb(l) as row
+    from loans l
+    join page p on p.id = l.id
+    where p.event_type is null
+    union all
+    select p.id, p.old_value
+    from page p
+    where p.event_type = 'deleted'
+  )
+  select (jsonb_populate_record(null::loans, b.row || coalesce(r.fields, '{}'::jsonb))).*
+  from base b
+  left join rewound_fields r on r.loan_id = b.id
+  order by b.id;
+$$;
+
+-- The whole snapshot in one call, as before
+create or replace function public.loan_snapshot(
+  p_file_upload_id uuid default null,
+  p_as_of timestamptz default null
+)
+returns setof public.loans
+language sql
+stable
+as $$
+  select * from loan_snapshot_page(loan_snapshot_cutoff(p_file_upload_id, p_as_of));
+$$;
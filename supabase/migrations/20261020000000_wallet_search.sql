@@ -0,0 +1,66 @@
+-- Wallet search for the command palette. The palette searched with an ilike
+-- capped at 200 loans, so wallets were only found by exact substrings and
+-- their loan counts stopped at whatever part of the 200 rows they got.
+-- Wallets are now matched here, by substring or by trigram word similarity
+-- for mistyped addresses, and counted over all their loans.
+
+create extension if not exists pg_trgm with schema extensions;
+
+create index if not exists loans_user_wallet_trgm_idx
+  on public.loans using gin (lower(user_wallet) extensions.gin_trgm_ops);
+
+-- Up to p_limit wallets, best first: substring matches by position, then
+-- similar wallets by similarity. Each comes with its p_recent latest loans.
+-- One wrong character in a hex address already drops word similarity to about
+-- 0.35, and short needles are only matched as substrings since a few
+-- characters are similar to nearly every address.
+create or replace function public.search_wallets(
+  p_query text,
+  p_limit integer default 8,
+  p_recent integer default 8
+)
+returns table (wallet text, loan_count bigint, score double precision, recent_loans jsonb)
+language sql
+stable
+set search_path = public, extensions
+set pg_trgm.word_similarity_threshold = 0.3
+as $$
+  with needle as (
+    select lower(trim(p_query)) as value
+  ),
+  matches as (
+    select
+      l.user_wallet as wallet,
+      count(*) as loan_count,
+      case
+        when strpos(lower(l.user_wallet), n.value) > 0
+          then (strpos(lower(l.user_wallet), n.value) - 1)::double precision
+        else length(l.user_wallet) * (2 - word_similarity(n.value, lower(l.user_wallet)))
+      end as score
+    from loans l
+    cross join needle n
+    where n.value <> ''
+      and (
+        lower(l.user_wallet) like '%' || replace(replace(replace(n.value, '\', '\\'), '%', '\%'), '_', '\_') || '%'
+        or (length(n.value) >= 6 and n.value <% lower(l.user_wallet))
+      )
+    group by l.user_wallet, n.value
+    order by score, loan_count desc, wallet
+    limit p_limit
+  )
+  select
+    m.wallet,
+    m.loan_count,
+    m.score,
+    (
+      select coalesce(jsonb_agg(to_jsonb(r) order by r.time_loan_started desc), '[]'::jsonb)
+      from (
+        select * from loans
+        where user_wallet = m.wallet
+        order by time_loan_started desc
+        limit p_recent
+      ) r
+    )
+  from matches m
+  order by m.score, m.loan_count desc, m.wallet;
+$$;
@@ -0,0 +1,37 @@
+-- Saved dashboard views: named sets of dashboard filters. Analysts save,
+-- rename and delete their own, everyone who can read the dashboard can apply
+-- any of them.
+
+create table if not exists public.saved_views (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  -- The dashboard filters, as src/utils/loanFilters.ts reads them
+  filters jsonb not null,
+  created_by uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (created_by, name)
+);
+
+alter table public.saved_views enable row level security;
+
+create policy "Viewers can read saved views"
+  on public.saved_views for select
+  to authenticated
+  using (public.has_app_role('viewer'));
+
+create policy "Analysts can insert their own saved views"
+  on public.saved_views for insert
+  to authenticated
+  with check (public.has_app_role('analyst') and created_by = auth.uid());
+
+create policy "Analysts can update their own saved views"
+  on public.saved_views for update
+  to authenticated
+  using (public.has_app_role('analyst') and created_by = auth.uid())
+  with check (public.has_app_role('analyst') and created_by = auth.uid());
+
+create policy "Analysts can delete their own saved views"
+  on public.saved_views for delete
+  to authenticated
+  using (public.has_app_role('analyst') and created_by = auth.uid());
@@ -0,0 +1,114 @@
+-- Operators correct single loans from the loan history panel. The loans
+-- update policy already limits writes to operators; update_loan also limits
+-- them to the fields an upload can change besides the natural key, and
+-- records them in loan_events with source 'edit' and no upload. Edits are not
+-- upload changes, they count towards no upload's outcome, and rolling back
+-- the upload that last wrote the loan still restores it to before that upload.
+
+alter table public.loan_events drop constraint if exists loan_events_source_check;
+alter table public.loan_events
+  add constraint loan_events_source_check check (source in ('upload', 'rollback', 'edit'));
+
+create or replace function public.record_loan_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_source text;
+begin
+  -- rollback_file_upload sets the first while it restores rows, update_loan
+  -- the second. Every row a rollback touches still carries the rolled back
+  -- upload in old.file_upload_id.
+  v_source := case
+    when current_setting('app.skip_loan_upload_changes', true) = 'on' then 'rollback'
+    when current_setting('app.loan_edit', true) = 'on' then 'edit'
+    else 'upload'
+  end;
+
+  if tg_op = 'INSERT' then
+    insert into loan_events (loan_id, file_upload_id, source, event_type, new_value)
+    values (new.id, new.file_upload_id, v_source, 'created', to_jsonb(new));
+    return new;
+  end if;
+
+  if tg_op = 'DELETE' then
+    insert into loan_events (loan_id, file_upload_id, source, event_type, old_value)
+    values (old.id, old.file_upload_id, v_source, 'deleted', to_jsonb(old));
+    return old;
+  end if;
+
+  insert into loan_events (loan_id, file_upload_id, source, event_type, field, old_value, new_value)
+  select
+    new.id,
+    case v_source
+      when 'rollback' then old.file_upload_id
+      when 'edit' then null
+      else new.file_upload_id
+    end,
+    v_source,
+    'updated',
+    n.key,
+    o.value,
+    n.value
+  from jsonb_each(to_jsonb(new)) n
+  join jsonb_each(to_jsonb(old)) o using (key)
+  where n.key in (
+    'loan_repaid_amount', 'loan_term', 'time_loan_started', 'time_loan_ended',
+    'default_loan_date', 'is_defaulted', 'version'
+  )
+    and n.value is distinct from o.value;
+
+  return new;
+end;
+$$;
+
+-- Applies p_changes, {field: value} for any of the editable fields, to one
+-- loan and returns the updated row
+create or replace function public.update_loan(p_loan_id uuid, p_changes jsonb)
+returns public.loans
+language plpgsql
+as $$
+declare
+  v_loan loans;
+  v_field text;
+begin
+  if not has_app_role('operator') then
+    raise exception 'Only operators can edit loans' using errcode = '42501';
+  end if;
+
+  for v_field in select jsonb_object_keys(p_changes) loop
+    if v_field not in (
+      'loan_repaid_amount', 'loan_term', 'time_loan_started', 'time_loan_ended',
+      'default_loan_date', 'is_defaulted'
+    ) then
+      raise exception 'Field % cannot be edited', v_field using errcode = '22023';
+    end if;
+  end loop;
+
+  select * into v_loan from loans where id = p_loan_id for update;
+  if not found then
+    raise exception 'Loan % does not exist', p_loan_id using errcode = 'P0002';
+  end if;
+
+  v_loan := jsonb_populate_record(v_loan, p_changes);
+
+  perform set_config('app.loan_edit', 'on', true);
+
+  update loans
+  set
+    loan_repaid_amount = v_loan.loan_repaid_amount,
+    loan_term = v_loan.loan_term,
+    time_loan_started = v_loan.time_loan_started,
+    time_loan_ended = v_loan.time_loan_ended,
+    default_loan_date = v_loan.default_loan_date,
+    is_defaulted = v_loan.is_defaulted
+  where id = p_loan_id
+  returning * into v_loan;
+
+  perform set_config('app.loan_edit', 'off', true);
+
+  return v_loan;
+end;
+$$;